@@ -0,0 +1,514 @@
+#!/usr/bin/env node
+
+// ポーズ計算のテストスクリプト
+// src/lib のTypeScriptをその場でトランスパイルして読み込み、補間・写真からのポーズ推定・ポーズファイルの読み書きの結果を検証する
+
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const ts = require('typescript');
+const THREE = require('three');
+
+const SRC_DIR = path.join(__dirname, '..', 'src');
+
+// '@/...' を src/ に解決し、.ts ファイルを CommonJS にトランスパイルして読み込む
+const originalResolve = Module._resolveFilename;
+Module._resolveFilename = function (request, ...args) {
+  const resolved = request.startsWith('@/') ? path.join(SRC_DIR, request.slice(2)) : request;
+  return originalResolve.call(this, resolved, ...args);
+};
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true }
+  });
+  module._compile(outputText, filename);
+};
+
+const DEG = Math.PI / 180;
+
+const results = {
+  passed: 0,
+  failed: 0
+};
+
+function check(name, condition, detail = '') {
+  if (condition) {
+    results.passed++;
+    console.log(`    ✅ PASSED: ${name}`);
+  } else {
+    results.failed++;
+    console.log(`    ❌ FAILED: ${name}${detail ? ` (${detail})` : ''}`);
+  }
+}
+
+const format = rotation => ['x', 'y', 'z'].map(axis => `${axis}=${(rotation[axis] / DEG).toFixed(1)}°`).join(', ');
+
+function testInterpolationWithinLimits() {
+  console.log('\n🦾 Testing interpolation of poses within joint limits');
+
+  const { PoseInterpolator } = require('../src/lib/poseInterpolation.ts');
+
+  // 肘を大きく曲げたポーズ（Y軸回転が-90°を超える、可動域内の回転）
+  const poseA = { LeftForeArm: { x: 90 * DEG, y: -2.2, z: 10 * DEG } };
+  const poseB = { LeftForeArm: { x: 90 * DEG, y: -2.0, z: 10 * DEG } };
+  const quaternionPose = pose => {
+    const { x, y, z } = pose.LeftForeArm;
+    const q = new THREE.Quaternion().setFromEuler(new THREE.Euler(x, y, z));
+    return { LeftForeArm: { x: q.x, y: q.y, z: q.z, w: q.w } };
+  };
+
+  ['linear', 'slerp', 'cubic', 'squad', 'smoothstep'].forEach(method => {
+    const interpolator = new PoseInterpolator(method);
+
+    const { interpolatedPose, warnings } = interpolator.interpolate(poseA, poseB, 0.5);
+    const rotation = interpolatedPose.LeftForeArm;
+    check(
+      `${method}: 中間のY軸回転が約-120°`,
+      Math.abs(rotation.y - -2.1) < 0.02 && Math.abs(rotation.x - 90 * DEG) < 0.02 && Math.abs(rotation.z - 10 * DEG) < 0.02,
+      format(rotation)
+    );
+    check(`${method}: 可動域の警告が出ない`, warnings.length === 0, warnings.join(' / '));
+
+    const sequence = interpolator.interpolateSequence([poseA, poseB, poseA], 0.25);
+    check(`${method}: 連続補間でも警告が出ない`, sequence.warnings.length === 0, sequence.warnings.join(' / '));
+
+    // Quaternionで保存したポーズも可動域内と判定される
+    const quaternionResult = interpolator.interpolate(quaternionPose(poseA), quaternionPose(poseB), 0.5);
+    check(`${method}: Quaternionのポーズでも警告が出ない`, quaternionResult.warnings.length === 0, quaternionResult.warnings.join(' / '));
+  });
+
+  const interpolator = new PoseInterpolator('slerp');
+  const blended = interpolator.blend([{ pose: poseA, weight: 1 }, { pose: poseB, weight: 1 }]);
+  check('blend: 中間のY軸回転が約-120°', Math.abs(blended.interpolatedPose.LeftForeArm.y - -2.1) < 0.02, format(blended.interpolatedPose.LeftForeArm));
+  check('blend: 可動域の警告が出ない', blended.warnings.length === 0, blended.warnings.join(' / '));
+
+  // XYZ順では最後のZ軸回りの加算はZ軸の角度だけを変える
+  const layered = interpolator.applyLayers(poseA, [{ pose: { LeftForeArm: { x: 0, y: 0, z: -0.1 } }, weight: 1 }]);
+  const layeredRotation = layered.interpolatedPose.LeftForeArm;
+  check('applyLayers: Y軸回転を保ったまま加算される', Math.abs(layeredRotation.y - -2.2) < 1e-6 && Math.abs(layeredRotation.z - (10 * DEG - 0.1)) < 1e-6, format(layeredRotation));
+  check('applyLayers: 可動域の警告が出ない', layered.warnings.length === 0, layered.warnings.join(' / '));
+
+  // 可動域外の回転は従来通り補正される
+  const outside = interpolator.interpolate(poseA, { LeftForeArm: { x: 90 * DEG, y: 0.5, z: 10 * DEG } }, 1);
+  check('可動域外の回転は補正して警告する', outside.warnings.length === 1 && outside.interpolatedPose.LeftForeArm.y <= 1e-6, format(outside.interpolatedPose.LeftForeArm));
+}
+
+// 組み込みのプリセットは現在のリグの回転で、可動域内に収まる
+function testPresetPoses() {
+  console.log('\n📋 Testing built-in preset poses');
+
+  const { PRESET_POSES } = require('../src/lib/poseInterpolation.ts');
+  const { fromInterpolationPose } = require('../src/lib/poseDocument.ts');
+  const { validatePose } = require('../src/lib/jointLimits.ts');
+  const { computeJointTransforms } = require('../src/lib/poseIK.ts');
+
+  PRESET_POSES.forEach(preset => {
+    const violations = validatePose(fromInterpolationPose(preset.poseData));
+    check(`${preset.name}: 可動域の警告が出ない`, violations.length === 0, violations.map(({ boneName, axis }) => `${boneName}.${axis}`).join(', '));
+  });
+
+  // Tポーズは腕を横に伸ばす（手が肩の高さにある）
+  const tPose = computeJointTransforms(fromInterpolationPose(PRESET_POSES.find(preset => preset.id === 'preset_tpose').poseData));
+  const handHeight = Math.max(...['Left', 'Right'].map(side => Math.abs(tPose[`${side}Hand`].position.y - tPose[`${side}Arm`].position.y)));
+  check('Tポーズ: 腕が水平に伸びる', handHeight < 1e-6, `肩と手の高さの差 ${handHeight.toFixed(3)}`);
+}
+
+// 正面を向いて立ち、腕を下ろした人物のキーポイント（画像の幅・高さで正規化、Y軸は下向き）
+// 骨の長さの比率は一般的な体型（リグとほぼ同じ）で、脚は真っ直ぐ伸ばしている
+const STANDING_KEYPOINTS = [
+  ['nose', 0.5, 0.1], ['left_eye', 0.515, 0.085], ['right_eye', 0.485, 0.085],
+  ['left_ear', 0.535, 0.095], ['right_ear', 0.465, 0.095],
+  ['left_shoulder', 0.605, 0.2], ['right_shoulder', 0.395, 0.2],
+  ['left_elbow', 0.675, 0.345], ['right_elbow', 0.325, 0.345],
+  ['left_wrist', 0.695, 0.485], ['right_wrist', 0.305, 0.485],
+  ['left_hip', 0.555, 0.5], ['right_hip', 0.445, 0.5],
+  ['left_knee', 0.557, 0.74], ['right_knee', 0.443, 0.74],
+  ['left_ankle', 0.559, 0.98], ['right_ankle', 0.441, 0.98]
+].map(([name, x, y]) => ({ name, x, y, confidence: 0.9 }));
+
+const LIMB_SEGMENTS = [
+  ['left_shoulder', 'left_elbow'], ['left_elbow', 'left_wrist'],
+  ['right_shoulder', 'right_elbow'], ['right_elbow', 'right_wrist'],
+  ['left_hip', 'left_knee'], ['left_knee', 'left_ankle'],
+  ['right_hip', 'right_knee'], ['right_knee', 'right_ankle']
+];
+
+function testLiftingReprojection() {
+  console.log('\n📷 Testing lifted poses against the detected keypoints');
+
+  const { liftKeypointsToPose } = require('../src/lib/poseLifting.ts');
+  const { computeJointTransforms } = require('../src/lib/poseIK.ts');
+  const { BODY_KEYPOINT_BONES } = require('../src/lib/poseProjection.ts');
+
+  const { pose, uncertainBones } = liftKeypointsToPose(STANDING_KEYPOINTS);
+  check('全てのボーンを推定できる', uncertainBones.length === 0, uncertainBones.join(', '));
+
+  // 正射影で写真の平面に戻した骨の向き（Y軸は上向き）と、検出した骨の向きを比べる
+  const transforms = computeJointTransforms(pose);
+  const keypoint = name => STANDING_KEYPOINTS.find(point => point.name === name);
+  LIMB_SEGMENTS.forEach(([from, to]) => {
+    const start = transforms[BODY_KEYPOINT_BONES[from]].position;
+    const end = transforms[BODY_KEYPOINT_BONES[to]].position;
+    const lifted = Math.atan2(end.y - start.y, end.x - start.x);
+    const detected = Math.atan2(-(keypoint(to).y - keypoint(from).y), keypoint(to).x - keypoint(from).x);
+    const error = Math.abs(Math.atan2(Math.sin(lifted - detected), Math.cos(lifted - detected))) / DEG;
+    // 写真の骨の長さの比率はリグと数%違うため、その分の誤差は許容する
+    check(`${from} → ${to} の向きが写真と一致する`, error < 5, `誤差 ${error.toFixed(1)}°`);
+
+    // 写真上で短縮されていない骨は奥行き方向に傾かない
+    const depthRatio = Math.abs(end.z - start.z) / start.distanceTo(end);
+    check(`${from} → ${to} が前後に傾かない`, depthRatio < 0.35, `奥行き/長さ ${depthRatio.toFixed(2)}`);
+  });
+
+  // 真っ直ぐな脚は膝を曲げない
+  ['LeftLeg', 'RightLeg'].forEach(boneName => {
+    const bend = Math.abs(pose[boneName]?.rotation[0] || 0) / DEG;
+    check(`${boneName} が伸びている`, bend < 10, `膝の曲げ ${bend.toFixed(1)}°`);
+  });
+}
+
+// リグのポーズを正射影したキーポイントから推定し直すと、同じ姿勢に戻る
+function testLiftingRoundTrip() {
+  console.log('\n🔁 Testing lifting of projected rig poses');
+
+  const { liftKeypointsToPose } = require('../src/lib/poseLifting.ts');
+  const { computeJointTransforms } = require('../src/lib/poseIK.ts');
+  const { computeKeypointPositions, BODY_KEYPOINT_BONES } = require('../src/lib/poseProjection.ts');
+
+  // 体を右に捻り、左肘を前に曲げ、右膝を上げたポーズ
+  const original = {
+    Hips: { rotation: [0, 0.5, 0] },
+    LeftArm: { rotation: [0, 0, -1.2] },
+    LeftForeArm: { rotation: [0, -1.2, 0] },
+    RightUpLeg: { rotation: [-0.6, 0, 0] },
+    RightLeg: { rotation: [0.9, 0, 0] }
+  };
+  const keypoints = computeKeypointPositions(original)
+    .filter(({ name }) => BODY_KEYPOINT_BONES[name] || ['nose', 'left_eye', 'right_eye', 'left_ear', 'right_ear'].includes(name))
+    .map(({ name, position }) => ({ name, x: 0.5 + position.x / 2, y: 1 - position.y / 2, confidence: 1 }));
+
+  const { pose } = liftKeypointsToPose(keypoints);
+  const hipsYaw = pose.Hips?.rotation[1] ?? 0;
+  check('腰の向きを推定できる', Math.abs(hipsYaw - 0.5) < 0.1, `Y軸回転 ${(hipsYaw / DEG).toFixed(1)}°`);
+
+  const lifted = computeJointTransforms(pose);
+  const expected = computeJointTransforms(original);
+  const errors = Object.values(BODY_KEYPOINT_BONES).map(boneName => {
+    const a = lifted[boneName].position.clone().sub(lifted.Hips.position);
+    const b = expected[boneName].position.clone().sub(expected.Hips.position);
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  });
+  const maxError = Math.max(...errors);
+  check('写真の平面上の関節の位置が一致する', maxError < 0.02, `最大誤差 ${maxError.toFixed(3)}`);
+  const leftKnee = pose.LeftLeg?.rotation[0] ?? 0;
+  check('曲げていない脚は伸びたまま', Math.abs(leftKnee) < 10 * DEG, `膝の曲げ ${(leftKnee / DEG).toFixed(1)}°`);
+}
+
+// 体型の違うモデル（腕が長く脚が短い、ボーン毎に初期回転を持つ）を読み込んだ場合の関節位置
+function testModelJointPositions() {
+  console.log('\n🧍 Testing joint positions of a loaded model with its own proportions');
+
+  const { HUMANOID_BONES, isFingerBone } = require('../src/lib/humanoidRig.ts');
+  const { rebuildModelBoneHelpers, applyPoseToCharacterModel } = require('../src/lib/modelLoader.ts');
+  const { computeJointTransforms, solveIK } = require('../src/lib/poseIK.ts');
+
+  const group = new THREE.Group();
+  const container = new THREE.Group();
+  container.scale.setScalar(0.01); // cm単位のモデル
+  group.add(container);
+
+  const nodes = { Root: container };
+  const restPositions = { Root: new THREE.Vector3() };
+  const mapping = {};
+  HUMANOID_BONES.filter(({ name }) => name !== 'Root' && !isFingerBone(name)).forEach(({ name, parent, offset }, index) => {
+    const scale = /Arm|Hand/.test(name) ? 1.25 : /Leg|Foot/.test(name) ? 0.85 : 1.1;
+    restPositions[name] = restPositions[parent].clone().add(new THREE.Vector3(...offset).multiplyScalar(scale));
+
+    const node = new THREE.Bone();
+    node.name = `mixamorig:${name}`;
+    node.quaternion.setFromEuler(new THREE.Euler(0.3 * index, -0.2 * index, 0.1 * index));
+    nodes[parent].add(node);
+    group.updateMatrixWorld(true);
+    node.position.copy(nodes[parent].worldToLocal(restPositions[name].clone()));
+    nodes[name] = node;
+    mapping[name] = node.name;
+  });
+
+  const model = {
+    key: 'test', name: 'test.glb', format: 'gltf', group, nodeNames: Object.values(mapping), mapping,
+    unmappedBones: [], boneHelpers: [], restStates: new Map(), boneOffsets: {}, initialQuaternions: new Map()
+  };
+  container.traverse(object => model.initialQuaternions.set(object, object.quaternion.clone()));
+  rebuildModelBoneHelpers(model);
+
+  const pose = {
+    Root: { rotation: [0, 0.4, 0], position: [0.3, 0, -0.2] },
+    Chest: { rotation: [0.2, 0.1, 0] },
+    LeftArm: { rotation: [0, 0.3, -1.1] },
+    LeftForeArm: { rotation: [0, -1.3, 0] },
+    RightUpLeg: { rotation: [-0.7, 0, 0.1] },
+    RightLeg: { rotation: [1.1, 0, 0] }
+  };
+  applyPoseToCharacterModel(model, pose);
+  group.updateMatrixWorld(true);
+
+  const transforms = computeJointTransforms(pose, model.boneOffsets);
+  const maxError = Math.max(...Object.keys(mapping).map(name =>
+    nodes[name].getWorldPosition(new THREE.Vector3()).distanceTo(transforms[name].position)
+  ));
+  check('IKハンドル・ギズモの位置がモデルの関節と一致する', maxError < 1e-6, `最大誤差 ${maxError.toExponential(1)}`);
+
+  // 内蔵リグの体型では腕の長さが違うため、モデルの手は目標に届かない
+  const target = transforms.LeftHand.position.clone().add(new THREE.Vector3(0.05, 0.15, 0.1));
+  const solved = solveIK(pose, 'LeftHand', target, { boneOffsets: model.boneOffsets });
+  applyPoseToCharacterModel(model, solved);
+  group.updateMatrixWorld(true);
+  const handError = nodes.LeftHand.getWorldPosition(new THREE.Vector3()).distanceTo(target);
+  check('IKでモデルの手が目標に届く', handError < 1e-3, `誤差 ${handError.toFixed(4)}`);
+}
+
+// 2つのポーズの各ボーンの回転が同じか（Euler角は同じ回転でも値が変わるためQuaternionで比べる）
+function maxRotationDifference(poseA, poseB, boneNames) {
+  const toQuaternion = rotation => new THREE.Quaternion().setFromEuler(new THREE.Euler(...(rotation || [0, 0, 0])));
+  return Math.max(...boneNames.map(boneName => {
+    const dot = Math.abs(toQuaternion(poseA[boneName]?.rotation).dot(toQuaternion(poseB[boneName]?.rotation)));
+    return 2 * Math.acos(Math.min(1, dot)) / DEG;
+  }));
+}
+
+function testVpd() {
+  console.log('\n💃 Testing MMD pose (VPD) import and export');
+
+  const { parseVpd, formatVpd, vpdToPose, poseToVpd, decodeVpd, encodeVpd, DEFAULT_MMD_ARM_REST_ANGLE } = require('../src/lib/vpd.ts');
+
+  // Shift_JISの書き出しと、Shift_JIS・UTF-8の読み込み
+  const encoded = encodeVpd('右腕;ｾﾝﾀｰ');
+  check('Shift_JISで書き出す', Buffer.from(encoded).equals(Buffer.from([0x89, 0x45, 0x98, 0x72, 0x3b, 0xbe, 0xdd, 0xc0, 0xb0])), Buffer.from(encoded).toString('hex'));
+  check('Shift_JISのファイルを読み込める', decodeVpd(encoded.buffer) === '右腕;ｾﾝﾀｰ');
+  check('UTF-8のファイルも読み込める', decodeVpd(new TextEncoder().encode('右腕').buffer) === '右腕');
+
+  const file = {
+    modelName: '初音ミク',
+    bones: [
+      { name: 'センター', position: [1.5, -2, 3.25], quaternion: [0, 0, 0, 1] },
+      { name: '左腕', position: [0, 0, 0], quaternion: [0.1, -0.2, 0.3, 0.927362] }
+    ]
+  };
+  const text = formatVpd(file);
+  const parsed = parseVpd(decodeVpd(encodeVpd(text).buffer));
+  check(
+    'VPDの書き出し → 読み込みで同じ内容に戻る',
+    parsed.modelName === file.modelName && JSON.stringify(parsed.bones) === JSON.stringify(file.bones),
+    JSON.stringify(parsed)
+  );
+
+  let threw = false;
+  try {
+    parseVpd(text.replace('1.500000', 'abc'));
+  } catch {
+    threw = true;
+  }
+  check('数値が崩れたVPDはエラーにする', threw);
+
+  // MMDは左手系（Z軸が逆）。MMDで正面（-Z）を向いた頭は、エディターでも正面（+Z）を向く
+  const axis = new THREE.Vector3(0.3, 0.8, -0.5).normalize();
+  const mmdRotation = new THREE.Quaternion().setFromAxisAngle(axis, 0.7);
+  const { pose: headPose } = vpdToPose({ modelName: 'test', bones: [{ name: '頭', position: [0, 0, 0], quaternion: mmdRotation.toArray() }] });
+  const headRotation = new THREE.Quaternion().setFromEuler(new THREE.Euler(...headPose.Head.rotation));
+  const flipZ = vector => new THREE.Vector3(vector.x, vector.y, -vector.z);
+  const mmdFront = new THREE.Vector3(0, 0, -1).applyQuaternion(mmdRotation);
+  const editorFront = new THREE.Vector3(0, 0, 1).applyQuaternion(headRotation);
+  check('Z軸を反転して回転を変換する', editorFront.distanceTo(flipZ(mmdFront)) < 1e-6, `${editorFront.toArray().map(v => v.toFixed(3))}`);
+
+  const { pose: centerPose } = vpdToPose(file, { scale: 0.1 });
+  const rootPosition = centerPose.Root.position;
+  check('センターの移動をRootの位置にする', Math.abs(rootPosition[0] - 0.15) < 1e-6 && Math.abs(rootPosition[2] + 0.325) < 1e-6, rootPosition.join(', '));
+
+  // MMDの腕の初期姿勢（Aポーズ）は、エディターでは腕を下ろした回転になる
+  const { pose: restPose, unmappedBones } = vpdToPose({
+    modelName: 'test',
+    bones: ['左腕', '左ひじ', '右腕', '右ひじ', '左目'].map(name => ({ name, position: [0, 0, 0], quaternion: [0, 0, 0, 1] }))
+  });
+  const armAngle = side => restPose[`${side}Arm`].rotation[2] / DEG;
+  check(
+    'Aポーズの腕を下ろした回転に補正する',
+    Math.abs(armAngle('Left') + DEFAULT_MMD_ARM_REST_ANGLE) < 1e-6 && Math.abs(armAngle('Right') - DEFAULT_MMD_ARM_REST_ANGLE) < 1e-6,
+    `左 ${armAngle('Left').toFixed(1)}°, 右 ${armAngle('Right').toFixed(1)}°`
+  );
+  check('肘は補正で曲がらない', maxRotationDifference(restPose, {}, ['LeftForeArm', 'RightForeArm']) < 1e-6);
+  check('対応するボーンが無いMMDのボーンを報告する', unmappedBones.length === 1 && unmappedBones[0] === '左目', unmappedBones.join(', '));
+
+  // エディターのポーズ → VPD → エディターのポーズで同じ回転に戻る
+  const pose = {
+    Root: { rotation: [0, 0.6, 0], position: [0.2, 0.05, -0.4] },
+    Hips: { rotation: [0.1, 0.2, 0] },
+    Spine: { rotation: [0.2, -0.1, 0.05] },
+    Head: { rotation: [-0.2, 0.4, 0] },
+    LeftArm: { rotation: [0.3, -0.4, -1.1] },
+    LeftForeArm: { rotation: [0, -1.2, 0.1] },
+    RightHand: { rotation: [0.05, 0.2, 0.6] },
+    RightUpLeg: { rotation: [-0.8, 0.1, -0.2] },
+    RightLeg: { rotation: [1.2, 0, 0] },
+    LeftHandIndex2: { rotation: [0, 0, 0.7] }
+  };
+  const exported = poseToVpd(pose, 'test');
+  const imported = vpdToPose(parseVpd(formatVpd(exported.file))).pose;
+  const difference = maxRotationDifference(pose, imported, Object.keys(pose));
+  check('VPDの書き出し → 読み込みで同じポーズに戻る', difference < 0.01, `最大 ${difference.toFixed(4)}°`);
+  const positionError = Math.max(...imported.Root.position.map((value, index) => Math.abs(value - pose.Root.position[index])));
+  check('VPDの書き出し → 読み込みで同じ位置に戻る', positionError < 1e-5, imported.Root.position.join(', '));
+}
+
+// 腕を斜め45°に下ろした初期姿勢（Aポーズ）、cm単位、Mixamo形式の関節名のBVH
+const A_POSE_BVH = `HIERARCHY
+ROOT mixamorig:Hips
+{
+  OFFSET 0 0 0
+  CHANNELS 6 Xposition Yposition Zposition Zrotation Xrotation Yrotation
+  JOINT mixamorig:Spine
+  {
+    OFFSET 0 12 0
+    CHANNELS 3 Zrotation Xrotation Yrotation
+    JOINT mixamorig:LeftShoulder
+    {
+      OFFSET 6 30 0
+      CHANNELS 3 Zrotation Xrotation Yrotation
+      JOINT mixamorig:LeftArm
+      {
+        OFFSET 12 0 0
+        CHANNELS 3 Zrotation Xrotation Yrotation
+        JOINT mixamorig:LeftForeArm
+        {
+          OFFSET 21.213203 -21.213203 0
+          CHANNELS 3 Zrotation Xrotation Yrotation
+          JOINT mixamorig:LeftHand
+          {
+            OFFSET 17.677670 -17.677670 0
+            CHANNELS 3 Zrotation Xrotation Yrotation
+            End Site
+            {
+              OFFSET 5.656854 -5.656854 0
+            }
+          }
+        }
+      }
+    }
+  }
+  JOINT mixamorig:LeftUpLeg
+  {
+    OFFSET 9 -5 0
+    CHANNELS 3 Zrotation Xrotation Yrotation
+    JOINT mixamorig:LeftLeg
+    {
+      OFFSET 0 -40 0
+      CHANNELS 3 Zrotation Xrotation Yrotation
+      JOINT mixamorig:LeftFoot
+      {
+        OFFSET 0 -40 0
+        CHANNELS 3 Zrotation Xrotation Yrotation
+        End Site
+        {
+          OFFSET 0 -5 12
+        }
+      }
+    }
+  }
+}
+MOTION
+Frames: 2
+Frame Time: 0.033333
+0 90 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0
+10 95 -20 0 0 30 5 10 0 0 0 0 45 20 -10 -15 40 0 0 0 0 20 -50 10 0 70 0 10 0 0
+`;
+
+function testBvh() {
+  console.log('\n🎞️ Testing BVH motion import and export');
+
+  const { parseBvh, createBvhRetarget, getBvhFramePose, writeBvh } = require('../src/lib/bvh.ts');
+  const { computeJointTransforms } = require('../src/lib/poseIK.ts');
+
+  const motion = parseBvh(A_POSE_BVH);
+  check('階層とフレームを読み込める', motion.joints.length === 9 && motion.frames.length === 2 && motion.frames[1].length === 30);
+
+  const retarget = createBvhRetarget(motion);
+  check('Mixamoの関節名をボーンに対応付ける', retarget.boneByJoint['mixamorig:LeftForeArm'] === 'LeftForeArm' && retarget.unmappedJoints.length === 0, retarget.unmappedJoints.join(', '));
+  check('足の長さから単位を推定する', Math.abs(retarget.scale - 0.84 / 80) < 1e-9, `${retarget.scale}`);
+
+  let threw = false;
+  try {
+    parseBvh(A_POSE_BVH.replace('Frames: 2', 'Frames: 3'));
+  } catch {
+    threw = true;
+  }
+  check('フレームが足りないBVHはエラーにする', threw);
+
+  // BVHの関節の位置（チャンネルの記載順に回転を掛け合わせる）
+  const bvhPositions = frame => {
+    const positions = {};
+    const visit = (joint, parentPosition, parentRotation) => {
+      const rotation = parentRotation.clone();
+      joint.channels.forEach((channel, index) => {
+        if (!channel.endsWith('rotation')) return;
+        const axis = new THREE.Vector3(channel[0] === 'X' ? 1 : 0, channel[0] === 'Y' ? 1 : 0, channel[0] === 'Z' ? 1 : 0);
+        rotation.multiply(new THREE.Quaternion().setFromAxisAngle(axis, frame[joint.channelIndex + index] * DEG));
+      });
+      const position = joint === motion.root ? new THREE.Vector3() : new THREE.Vector3(...joint.offset).applyQuaternion(parentRotation).add(parentPosition);
+      positions[joint.name.replace('mixamorig:', '')] = position;
+      joint.children.forEach(child => visit(child, position, rotation));
+    };
+    visit(motion.root, new THREE.Vector3(), new THREE.Quaternion());
+    return positions;
+  };
+
+  // 初期姿勢の違いを補正し、骨の向きがBVHと同じになる
+  const segments = [['LeftArm', 'LeftForeArm'], ['LeftForeArm', 'LeftHand'], ['LeftUpLeg', 'LeftLeg'], ['LeftLeg', 'LeftFoot']];
+  motion.frames.forEach((frame, frameIndex) => {
+    const pose = getBvhFramePose(motion, retarget, frameIndex);
+    const transforms = computeJointTransforms(pose);
+    const expected = bvhPositions(frame);
+    const error = Math.max(...segments.map(([from, to]) => {
+      const retargeted = transforms[to].position.clone().sub(transforms[from].position).normalize();
+      const bvh = expected[to].clone().sub(expected[from]).normalize();
+      return retargeted.angleTo(bvh) / DEG;
+    }));
+    check(`フレーム${frameIndex + 1}: 腕と脚の向きがBVHと一致する`, error < 0.01, `最大誤差 ${error.toFixed(3)}°`);
+  });
+
+  const hipsPose = getBvhFramePose(motion, retarget, 1);
+  const expectedRoot = [10 * retarget.scale, 95 * retarget.scale - 0.95, -20 * retarget.scale];
+  const rootError = Math.max(...hipsPose.Root.position.map((value, index) => Math.abs(value - expectedRoot[index])));
+  check('腰の移動から腰の高さを差し引いてRootの位置にする', rootError < 1e-9, hipsPose.Root.position.join(', '));
+
+  // エディターのポーズ → BVH → エディターのポーズで同じ回転・位置に戻る
+  const poses = [
+    { Root: { rotation: [0, 0.3, 0], position: [0.1, 0, -0.2] }, LeftArm: { rotation: [0.2, -0.5, -1.1] }, RightLeg: { rotation: [0.9, 0, 0] } },
+    { Root: { rotation: [0, -0.3, 0], position: [0.4, 0.02, 0.1] }, Chest: { rotation: [0.1, 0.3, 0] }, RightForeArm: { rotation: [0, 1.4, 0] }, LeftHandThumb1: { rotation: [0.2, 0.1, 0.3] } }
+  ];
+  const written = parseBvh(writeBvh(poses, 30));
+  const writtenRetarget = createBvhRetarget(written);
+  check('書き出したBVHのフレーム時間', Math.abs(written.frameTime - 1 / 30) < 1e-6 && written.frames.length === 2);
+  poses.forEach((pose, index) => {
+    const imported = getBvhFramePose(written, writtenRetarget, index);
+    const boneNames = [...new Set([...Object.keys(pose), 'Hips', 'LeftForeArm', 'RightArm'])];
+    const difference = maxRotationDifference(pose, imported, boneNames);
+    const positionError = Math.max(...imported.Root.position.map((value, axis) => Math.abs(value - pose.Root.position[axis])));
+    check(`BVHの書き出し → 読み込みで同じポーズに戻る（${index + 1}フレーム目）`, difference < 0.01 && positionError < 1e-6, `最大 ${difference.toFixed(4)}°, 位置 ${positionError}`);
+  });
+}
+
+function runTests() {
+  console.log('🧮 Pose math tests');
+
+  testInterpolationWithinLimits();
+  testPresetPoses();
+  testLiftingReprojection();
+  testLiftingRoundTrip();
+  testModelJointPositions();
+  testVpd();
+  testBvh();
+
+  console.log(`\n📊 Results: ${results.passed} passed, ${results.failed} failed`);
+  process.exit(results.failed > 0 ? 1 : 0);
+}
+
+runTests();
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createCanvas, loadImage } from 'canvas';
 import { rateLimit, rateLimitPresets } from '@/lib/rateLimit';
+import { getCharacterColor, MAX_SCENE_CHARACTERS } from '@/lib/poseScene';
+import { drawOpenPoseSkeletons, toKeypointSets } from '@/lib/openpose';
+import { getConditioningMapField, CONDITIONING_MAP_LABELS, CONDITIONING_MAP_TYPES, type ConditioningMapType } from '@/lib/conditioningMaps';
 
 // ポーズキーポイントの型定義
 interface Keypoint {
@@ -12,11 +15,12 @@ interface Keypoint {
 
 interface GenerateRequest {
   prompt: string;
-  pose: Keypoint[];
+  poses: Keypoint[][]; // キャラクター毎のキーポイント
   resolution?: number;
   style?: string;
   background?: string;
   is_commercial?: boolean;
+  conditioning_maps: Partial<Record<ConditioningMapType, File>>; // 深度・法線・シルエットの条件画像
 }
 
 interface GenerateResponse {
@@ -31,12 +35,14 @@ interface GenerateResponse {
     resolution: string;
     style: string;
     keypointCount: number;
+    characterCount: number;
+    conditioningMaps: ConditioningMapType[];
     is_commercial: boolean;
   };
 }
 
 // ダミー画像を生成する関数
-function generateDummyImage(prompt: string, pose: Keypoint[], resolution: number = 512): string {
+function generateDummyImage(prompt: string, poses: Keypoint[][], resolution: number = 512): string {
   const canvas = createCanvas(resolution, resolution);
   const ctx = canvas.getContext('2d');
   
@@ -74,66 +80,19 @@ function generateDummyImage(prompt: string, pose: Keypoint[], resolution: number
   });
   ctx.fillText(line, resolution / 2, y);
   
-  // ポーズのキーポイントを描画
-  if (pose && pose.length > 0) {
-    // キーポイントを描画
-    pose.forEach((point, index) => {
-      const x = point.x * resolution;
-      const y = point.y * resolution;
-      
-      // キーポイントの円
-      ctx.beginPath();
-      ctx.arc(x, y, 6, 0, 2 * Math.PI);
-      ctx.fillStyle = `hsl(${(index * 360) / pose.length}, 70%, 50%)`;
-      ctx.fill();
-      ctx.strokeStyle = '#ffffff';
-      ctx.lineWidth = 2;
-      ctx.stroke();
-      
-      // キーポイント名を表示
-      ctx.fillStyle = '#1f2937';
-      ctx.font = '10px Arial';
-      ctx.fillText(point.name.replace('_', ' '), x + 10, y - 10);
-    });
-    
-    // 骨格の接続線を描画
-    const connections = [
-      ['left_shoulder', 'right_shoulder'],
-      ['left_shoulder', 'left_elbow'],
-      ['left_elbow', 'left_wrist'],
-      ['right_shoulder', 'right_elbow'],
-      ['right_elbow', 'right_wrist'],
-      ['left_shoulder', 'left_hip'],
-      ['right_shoulder', 'right_hip'],
-      ['left_hip', 'right_hip'],
-      ['left_hip', 'left_knee'],
-      ['left_knee', 'left_ankle'],
-      ['right_hip', 'right_knee'],
-      ['right_knee', 'right_ankle'],
-    ];
-    
-    ctx.strokeStyle = '#3b82f6';
-    ctx.lineWidth = 3;
-    
-    connections.forEach(([start, end]) => {
-      const startPoint = pose.find(p => p.name === start);
-      const endPoint = pose.find(p => p.name === end);
-      
-      if (startPoint && endPoint) {
-        ctx.beginPath();
-        ctx.moveTo(startPoint.x * resolution, startPoint.y * resolution);
-        ctx.lineTo(endPoint.x * resolution, endPoint.y * resolution);
-        ctx.stroke();
-      }
-    });
-  }
+  // ポーズの骨格を描画（複数人の場合はキャラクター毎の色で区別する）
+  drawOpenPoseSkeletons(ctx, poses, {
+    width: resolution,
+    height: resolution,
+    personColors: poses.length > 1 ? poses.map((_, index) => getCharacterColor(index)) : undefined
+  });
   
   // メタデータを表示
   ctx.fillStyle = '#6b7280';
   ctx.font = '12px Arial';
   ctx.textAlign = 'left';
   ctx.fillText(`Resolution: ${resolution}x${resolution}`, 20, resolution - 60);
-  ctx.fillText(`Keypoints: ${pose?.length || 0}`, 20, resolution - 40);
+  ctx.fillText(`Keypoints: ${poses.flat().length} (${poses.length} characters)`, 20, resolution - 40);
   ctx.fillText(`Generated: ${new Date().toLocaleString()}`, 20, resolution - 20);
   
   // ウォーターマーク
@@ -145,6 +104,8 @@ function generateDummyImage(prompt: string, pose: Keypoint[], resolution: number
   return canvas.toDataURL('image/png');
 }
 
+const MAX_CONDITIONING_MAP_SIZE = 10 * 1024 * 1024; // 10MB
+
 // リクエストのバリデーション
 function validateGenerateRequest(data: any): { isValid: boolean; errors: string[] } {
   const errors: string[] = [];
@@ -157,16 +118,28 @@ function validateGenerateRequest(data: any): { isValid: boolean; errors: string[
     errors.push('プロンプトは500文字以下で入力してください');
   }
   
-  if (!data.pose || !Array.isArray(data.pose)) {
+  if (!data.poses || !Array.isArray(data.poses) || data.poses.length === 0) {
     errors.push('ポーズデータが必要です');
-  } else if (data.pose.length === 0) {
+  } else if (data.poses.some((pose: unknown) => !Array.isArray(pose) || pose.length === 0)) {
     errors.push('ポーズデータが空です');
+  } else if (data.poses.length > MAX_SCENE_CHARACTERS) {
+    errors.push(`ポーズは${MAX_SCENE_CHARACTERS}人分まで指定できます`);
   }
   
   if (data.resolution && (typeof data.resolution !== 'number' || data.resolution < 256 || data.resolution > 1024)) {
     errors.push('解像度は256-1024の範囲で指定してください');
   }
   
+  Object.entries(data.conditioning_maps || {}).forEach(([type, file]) => {
+    const image = file as File;
+    const label = CONDITIONING_MAP_LABELS[type as ConditioningMapType];
+    if (image.type !== 'image/png') {
+      errors.push(`${label}はPNG形式で指定してください`);
+    } else if (image.size > MAX_CONDITIONING_MAP_SIZE) {
+      errors.push(`${label}は10MB以下にしてください`);
+    }
+  });
+  
   return {
     isValid: errors.length === 0,
     errors
@@ -196,20 +169,35 @@ export async function POST(request: NextRequest) {
     const resolution = parseInt(formData.get('resolution') as string || '512');
     const isCommercial = formData.get('is_commercial') === 'true';
     
-    let pose: Keypoint[] = [];
+    // 1人分（Keypoint[]）と複数人分（Keypoint[][]）のどちらも受け付ける
+    let poses: Keypoint[][] = [];
     try {
-      pose = JSON.parse(poseDataStr || '[]');
+      const parsed = JSON.parse(poseDataStr || '[]');
+      if (Array.isArray(parsed) && parsed.length > 0) {
+        poses = toKeypointSets(parsed);
+      }
     } catch {
-      pose = [];
+      poses = [];
     }
     
+    // ControlNet用の追加の条件画像（任意）
+    const conditioningMaps: Partial<Record<ConditioningMapType, File>> = {};
+    CONDITIONING_MAP_TYPES.forEach(type => {
+      const file = formData.get(getConditioningMapField(type));
+      if (file instanceof File) {
+        conditioningMaps[type] = file;
+      }
+    });
+    const conditioningMapTypes = Object.keys(conditioningMaps) as ConditioningMapType[];
+    
     const body: GenerateRequest = {
       prompt,
-      pose,
+      poses,
       resolution,
       style,
       background,
-      is_commercial: isCommercial
+      is_commercial: isCommercial,
+      conditioning_maps: conditioningMaps
     };
     
     // バリデーション
@@ -224,7 +212,7 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    console.log(`Generating image with prompt: "${prompt}", keypoints: ${pose.length}, resolution: ${resolution}x${resolution}`);
+    console.log(`Generating image with prompt: "${prompt}", characters: ${poses.length}, keypoints: ${poses.flat().length}, conditioning maps: ${conditioningMapTypes.join(', ') || 'none'}, resolution: ${resolution}x${resolution}`);
     
     // 生成時間をシミュレート（1-4秒）
     const processingDelay = 1000 + Math.random() * 3000;
@@ -234,7 +222,7 @@ export async function POST(request: NextRequest) {
     // 例: Stability AI, Replicate, またはローカルControlNet
     
     // ダミー画像を生成
-    const imageBase64 = generateDummyImage(prompt, pose, resolution);
+    const imageBase64 = generateDummyImage(prompt, poses, resolution);
     
     const processingTime = Date.now() - startTime;
     
@@ -247,7 +235,9 @@ export async function POST(request: NextRequest) {
         prompt: prompt,
         resolution: `${resolution}x${resolution}`,
         style: style,
-        keypointCount: pose.length,
+        keypointCount: poses.flat().length,
+        characterCount: poses.length,
+        conditioningMaps: conditioningMapTypes,
         is_commercial: isCommercial
       }
     };
@@ -289,10 +279,13 @@ export async function GET() {
     },
     parameters: {
       prompt: 'string (required) - Text description for image generation',
-      pose: 'Keypoint[] (required) - Array of pose keypoints',
+      pose: 'Keypoint[] | Keypoint[][] (required) - Pose keypoints, or one array per character',
       resolution: 'number (optional) - Image resolution, default 512px',
       style: 'string (optional) - Image style, default "realistic"',
-      background: 'string (optional) - Background style, default "transparent"'
+      background: 'string (optional) - Background style, default "transparent"',
+      conditioning_depth: 'File (optional) - Depth map PNG from the editor camera (near = white)',
+      conditioning_normal: 'File (optional) - View-space normal map PNG',
+      conditioning_silhouette: 'File (optional) - Binary silhouette mask PNG'
     },
     supportedResolutions: [256, 512, 768, 1024],
     maxPromptLength: 500
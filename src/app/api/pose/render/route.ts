@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimit, rateLimitPresets } from '@/lib/rateLimit';
+import { toKeypointSets } from '@/lib/openpose';
+import { renderOpenPosePng, DEFAULT_RENDER_SIZE, MAX_RENDER_SIZE, MIN_RENDER_SIZE } from '@/lib/openposeRenderer';
+import type { Keypoint } from '@/lib/poseDocument';
+
+// リクエストのバリデーション
+function validateRenderRequest(poses: Keypoint[][], width: number, height: number): string[] {
+  const errors: string[] = [];
+
+  if (poses.length === 0 || poses.every(pose => pose.length === 0)) {
+    errors.push('キーポイントが必要です');
+  }
+
+  [width, height].forEach(size => {
+    if (!Number.isInteger(size) || size < MIN_RENDER_SIZE || size > MAX_RENDER_SIZE) {
+      errors.push(`画像サイズは${MIN_RENDER_SIZE}-${MAX_RENDER_SIZE}の範囲で指定してください`);
+    }
+  });
+
+  return Array.from(new Set(errors));
+}
+
+// レート制限設定
+const limiter = rateLimit(rateLimitPresets.standard);
+
+// ポーズのキーポイントをOpenPose形式の骨格画像（PNG）に変換
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await limiter(request);
+    if (!rateLimitResult.success && rateLimitResult.response) {
+      return rateLimitResult.response;
+    }
+
+    // JSONとして読めないボディは入力エラーとして扱う
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'リクエストボディは JSON オブジェクトで指定してください' },
+        { status: 400 }
+      );
+    }
+
+    const width = body.width ?? body.resolution ?? DEFAULT_RENDER_SIZE;
+    const height = body.height ?? width;
+
+    let poses: Keypoint[][];
+    try {
+      poses = toKeypointSets(body.pose);
+    } catch {
+      return NextResponse.json(
+        { success: false, error: '対応していないポーズ形式です' },
+        { status: 400 }
+      );
+    }
+
+    const errors = validateRenderRequest(poses, width, height);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: errors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const png = renderOpenPosePng(poses, width, height);
+
+    return new NextResponse(new Uint8Array(png), {
+      headers: {
+        'Content-Type': 'image/png',
+        'Content-Disposition': 'inline; filename="openpose.png"',
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Pose render error:', error);
+    return NextResponse.json(
+      { success: false, error: '骨格画像の生成中にエラーが発生しました' },
+      { status: 500 }
+    );
+  }
+}
+
+// GETエンドポイント（APIテスト用）
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    message: 'OpenPose render API is running',
+    endpoints: {
+      POST: '/api/pose/render - Render pose keypoints as an OpenPose (ControlNet) skeleton PNG',
+    },
+    parameters: {
+      pose: 'Keypoint[] | Keypoint[][] | PoseDocument (required) - Pose keypoints, or one array per person',
+      width: `number (optional) - Image width, ${MIN_RENDER_SIZE}-${MAX_RENDER_SIZE}, default ${DEFAULT_RENDER_SIZE}`,
+      height: 'number (optional) - Image height, default same as width'
+    }
+  });
+}
@@ -3,81 +3,23 @@ import formidable from 'formidable';
 import fs from 'fs';
 import path from 'path';
 import { rateLimit, rateLimitPresets } from '@/lib/rateLimit';
-
-// ポーズキーポイントの型定義
-interface Keypoint {
-  name: string;
-  x: number;
-  y: number;
-  confidence?: number;
-}
+import { supabase } from '@/lib/supabase';
+import { checkDailyPoseExtractionLimit, incrementDailyPoseExtractionCount } from '@/lib/dailyLimit';
+import { getClientIpAddress } from '@/lib/dailyGenerationLimit';
+import { getPoseDetector } from '@/lib/poseDetector';
+import type { Keypoint } from '@/lib/poseDocument';
+import type { DetectedPerson } from '@/lib/detectedPeople';
 
 interface PoseResponse {
   success: boolean;
-  keypoints?: Keypoint[];
+  people?: DetectedPerson[]; // 検出した人物（スコアの高い順）
+  keypoints?: Keypoint[]; // 最もスコアの高い人物のキーポイント（1人用の旧クライアント向け）
+  detector?: string; // 使用した検出器
+  modelVersion?: string;
   message?: string;
   processingTime?: number;
 }
 
-// モックポーズデータ（正規化済み座標 0.0-1.0）
-const MOCK_POSE_DATA: Keypoint[] = [
-  // 頭部・首
-  { name: "nose", x: 0.5, y: 0.15, confidence: 0.95 },
-  { name: "left_eye", x: 0.48, y: 0.12, confidence: 0.92 },
-  { name: "right_eye", x: 0.52, y: 0.12, confidence: 0.93 },
-  { name: "left_ear", x: 0.45, y: 0.13, confidence: 0.88 },
-  { name: "right_ear", x: 0.55, y: 0.13, confidence: 0.89 },
-  
-  // 肩
-  { name: "left_shoulder", x: 0.4, y: 0.25, confidence: 0.96 },
-  { name: "right_shoulder", x: 0.6, y: 0.25, confidence: 0.97 },
-  
-  // ひじ
-  { name: "left_elbow", x: 0.35, y: 0.35, confidence: 0.91 },
-  { name: "right_elbow", x: 0.65, y: 0.35, confidence: 0.92 },
-  
-  // 手首
-  { name: "left_wrist", x: 0.32, y: 0.45, confidence: 0.87 },
-  { name: "right_wrist", x: 0.68, y: 0.45, confidence: 0.89 },
-  
-  // 腰
-  { name: "left_hip", x: 0.45, y: 0.55, confidence: 0.94 },
-  { name: "right_hip", x: 0.55, y: 0.55, confidence: 0.95 },
-  
-  // ひざ
-  { name: "left_knee", x: 0.43, y: 0.75, confidence: 0.93 },
-  { name: "right_knee", x: 0.57, y: 0.75, confidence: 0.94 },
-  
-  // 足首
-  { name: "left_ankle", x: 0.41, y: 0.95, confidence: 0.90 },
-  { name: "right_ankle", x: 0.59, y: 0.95, confidence: 0.91 }
-];
-
-// バリエーション用のランダムポーズデータ
-const POSE_VARIATIONS = [
-  // 基本姿勢
-  MOCK_POSE_DATA,
-  
-  // 片手を上げたポーズ
-  [
-    ...MOCK_POSE_DATA.slice(0, 7),
-    { name: "left_elbow", x: 0.3, y: 0.2, confidence: 0.91 },
-    { name: "right_elbow", x: 0.65, y: 0.35, confidence: 0.92 },
-    { name: "left_wrist", x: 0.25, y: 0.1, confidence: 0.87 },
-    { name: "right_wrist", x: 0.68, y: 0.45, confidence: 0.89 },
-    ...MOCK_POSE_DATA.slice(11)
-  ],
-  
-  // 片足を上げたポーズ
-  [
-    ...MOCK_POSE_DATA.slice(0, 13),
-    { name: "left_knee", x: 0.4, y: 0.6, confidence: 0.93 },
-    { name: "right_knee", x: 0.57, y: 0.75, confidence: 0.94 },
-    { name: "left_ankle", x: 0.38, y: 0.5, confidence: 0.90 },
-    { name: "right_ankle", x: 0.59, y: 0.95, confidence: 0.91 }
-  ]
-];
-
 // FormDataを解析するヘルパー関数
 function parseForm(req: NextRequest): Promise<{ fields: formidable.Fields; files: formidable.Files }> {
   return new Promise((resolve, reject) => {
@@ -106,19 +48,6 @@ function parseForm(req: NextRequest): Promise<{ fields: formidable.Fields; files
   });
 }
 
-// ランダムなポーズバリエーションを生成
-function generateRandomPose(): Keypoint[] {
-  const baseVariation = POSE_VARIATIONS[Math.floor(Math.random() * POSE_VARIATIONS.length)];
-  
-  // 小さなランダム変動を追加
-  return baseVariation.map(point => ({
-    ...point,
-    x: Math.max(0, Math.min(1, point.x + (Math.random() - 0.5) * 0.1)),
-    y: Math.max(0, Math.min(1, point.y + (Math.random() - 0.5) * 0.1)),
-    confidence: Math.max(0.7, Math.min(1, point.confidence + (Math.random() - 0.5) * 0.2))
-  }));
-}
-
 // 簡単な画像検証
 function validateImageFile(file: any): boolean {
   if (!file) return false;
@@ -132,6 +61,34 @@ function validateImageFile(file: any): boolean {
 // レート制限設定
 const limiter = rateLimit(rateLimitPresets.upload);
 
+/**
+ * ユーザー認証状態の確認
+ */
+async function getUserFromRequest(request: NextRequest): Promise<{ user: any; isAuthenticated: boolean }> {
+  try {
+    // Authorization ヘッダーからトークンを取得
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return { user: null, isAuthenticated: false };
+    }
+
+    const token = authHeader.substring(7);
+
+    // Supabaseでユーザー情報を取得
+    const { data: { user }, error } = await supabase.auth.getUser(token);
+
+    if (error || !user) {
+      return { user: null, isAuthenticated: false };
+    }
+
+    return { user, isAuthenticated: true };
+
+  } catch (error) {
+    console.error('ユーザー認証確認エラー:', error);
+    return { user: null, isAuthenticated: false };
+  }
+}
+
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
   
@@ -141,17 +98,16 @@ export async function POST(request: NextRequest) {
     if (!rateLimitResult.success && rateLimitResult.response) {
       return rateLimitResult.response;
     }
-    // 2. TODO: 使用制限チェック
-    // const userId = request.headers.get('x-user-id');
-    // if (userId) {
-    //   const limitCheck = await checkUsageLimit(userId, 'pose_extraction_count');
-    //   if (!limitCheck.canUse) {
-    //     return NextResponse.json(
-    //       { success: false, message: `ポーズ抽出の1日制限（${limitCheck.limit}回）に達しました` },
-    //       { status: 429 }
-    //     );
-    //   }
-    // }
+    // 2. 使用制限チェック（ログインユーザーはユーザーID、ゲストはIPアドレス毎に数える）
+    const { user, isAuthenticated } = await getUserFromRequest(request);
+    const userId = isAuthenticated ? user.id : `guest:${getClientIpAddress(request)}`;
+    const limitCheck = await checkDailyPoseExtractionLimit(userId);
+    if (!limitCheck.canGenerate) {
+      return NextResponse.json(
+        { success: false, message: limitCheck.message || `ポーズ抽出の1日制限（${limitCheck.limit}回）に達しました` },
+        { status: 429 }
+      );
+    }
 
     // 3. Content-Typeをチェック
     const contentType = request.headers.get('content-type');
@@ -191,27 +147,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // モック処理：実際のポーズ検出ではここでMediaPipeや他のAIモデルを使用
-    console.log(`Processing image: ${file.name}, size: ${file.size} bytes, type: ${file.type}`);
-    
-    // 処理時間をシミュレート（500ms-2000ms）
-    const processingDelay = 500 + Math.random() * 1500;
-    await new Promise(resolve => setTimeout(resolve, processingDelay));
+    // 環境変数で選択した検出器（ONNXモデル、またはテスト用のモック）で検出
+    const detector = await getPoseDetector();
+    console.log(`Processing image with ${detector.name} (${detector.modelVersion}): ${file.name}, size: ${file.size} bytes, type: ${file.type}`);
     
-    // ランダムなポーズデータを生成
-    const poseData = generateRandomPose();
+    const { people } = await detector.detect(Buffer.from(await file.arrayBuffer()));
     const processingTime = Date.now() - startTime;
 
-    // TODO: 使用回数をインクリメント
-    // if (userId) {
-    //   await incrementUsage(userId, 'pose_extraction_count');
-    // }
+    // 使用回数をインクリメント
+    await incrementDailyPoseExtractionCount(userId);
     
     const response: PoseResponse = {
       success: true,
-      keypoints: poseData,
+      people,
+      keypoints: people[0]?.keypoints || [],
+      detector: detector.name,
+      modelVersion: detector.modelVersion,
       processingTime: processingTime,
-      message: 'ポーズ検出が成功しました'
+      message: people.length > 0 ? `${people.length}人のポーズを検出しました` : '人物が見つかりませんでした'
     };
     
     const finalResponse = NextResponse.json(response);
@@ -250,6 +203,13 @@ export async function GET() {
       POST: '/api/pose - Upload image for pose detection',
     },
     supportedFormats: ['JPEG', 'PNG', 'WebP'],
-    maxFileSize: '10MB'
+    maxFileSize: '10MB',
+    dailyLimit: 'ポーズ抽出回数（1日）がプランの上限を超えると 429 を返す（Authorization: Bearer のSupabaseトークンでユーザーを識別し、無い場合はIPアドレス毎にゲストとして数える）',
+    response: {
+      people: '検出した人物の配列（スコアの高い順）。各人物は id, bbox（正規化した x, y, width, height）, score, keypoints を持つ',
+      keypoints: '最もスコアの高い人物のCOCO 17点のキーポイント（画像サイズで正規化した x, y と、検出器が出力した confidence）',
+      detector: '使用した検出器（onnx-movenet / mock）',
+      modelVersion: 'モデルのバージョン（POSE_MODEL_VERSION、未設定の場合はモデルのファイル名）'
+    }
   });
 }
\ No newline at end of file
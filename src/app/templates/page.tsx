@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import Layout from '@/components/Layout';
+import SimilarPoses from '@/components/SimilarPoses';
 import { 
   getGuestTemplates, 
   saveGuestTemplate, 
@@ -12,6 +13,8 @@ import {
   searchTemplates,
   type PoseTemplate 
 } from '@/lib/templates';
+import { extractStoredPose, getPoseIndexKey, type SimilarPose } from '@/lib/poseSimilarity';
+import type { PoseData } from '@/lib/poseInterpolation';
 import { useRouter } from 'next/navigation';
 
 interface TemplateModalProps {
@@ -268,6 +271,8 @@ export default function TemplatesPage() {
     mostUsedTemplate: undefined as PoseTemplate | undefined
   });
   const [loading, setLoading] = useState(true);
+  // 似ているポーズの検索元のテンプレート
+  const [similarQuery, setSimilarQuery] = useState<{ template: PoseTemplate; pose: PoseData } | null>(null);
   const router = useRouter();
   
   useEffect(() => {
@@ -330,6 +335,27 @@ export default function TemplatesPage() {
     router.push('/viewer');
   };
   
+  const handleFindSimilar = (template: PoseTemplate) => {
+    const pose = extractStoredPose(template.pose_data);
+    if (!pose) {
+      alert('このテンプレートにはボーンのポーズデータが無いため、似ているポーズを探せません');
+      return;
+    }
+    setSimilarQuery({ template, pose });
+  };
+
+  // 検索結果をエディターで開く（テンプレートはプロンプトなども含めて使用する）
+  const handleOpenSimilarPose = (result: SimilarPose) => {
+    const template = result.entry.source === 'template' && templates.find(t => t.id === result.entry.id);
+    if (template) {
+      handleUseTemplate(template);
+      return;
+    }
+
+    localStorage.setItem('selectedTemplate', JSON.stringify({ poseData: result.entry.pose }));
+    router.push('/viewer');
+  };
+
   const handleDeleteTemplate = (templateId: string) => {
     if (confirm('このテンプレートを削除しますか？')) {
       const success = deleteGuestTemplate(templateId);
@@ -425,6 +451,20 @@ export default function TemplatesPage() {
           </select>
         </div>
         
+        {similarQuery && (
+          <div className="mb-6">
+            <SimilarPoses
+              query={similarQuery.pose}
+              queryLabel={similarQuery.template.name}
+              excludeKeys={[getPoseIndexKey('template', similarQuery.template.id!)]}
+              templates={templates}
+              selectLabel="エディターで開く"
+              onSelect={handleOpenSimilarPose}
+              onClose={() => setSimilarQuery(null)}
+            />
+          </div>
+        )}
+
         {/* テンプレート一覧 */}
         {filteredTemplates.length === 0 ? (
           <div className="text-center py-16">
@@ -518,6 +558,13 @@ export default function TemplatesPage() {
                     >
                       使用する
                     </button>
+                    <button
+                      onClick={() => handleFindSimilar(template)}
+                      className="bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 px-3 rounded-lg text-sm transition-colors"
+                      title="似ているポーズを探す"
+                    >
+                      類似
+                    </button>
                     <button
                       onClick={() => handleDeleteTemplate(template.id!)}
                       className="bg-red-500 hover:bg-red-600 text-white py-2 px-3 rounded-lg text-sm transition-colors"
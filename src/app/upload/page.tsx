@@ -1,24 +1,200 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useRouter } from 'next/navigation';
 import Layout from '@/components/Layout';
+import DetectedPeopleSelector from '@/components/DetectedPeopleSelector';
+import { usePhotoPoseDetection, PHOTO_ACCEPT_TYPES } from '@/hooks/usePhotoPoseDetection';
+import { sortPeopleLeftToRight } from '@/lib/detectedPeople';
+import { liftKeypointsToPose } from '@/lib/poseLifting';
+import { createPoseDocument } from '@/lib/poseDocument';
+import { saveGuestTemplate } from '@/lib/templates';
+import { MAX_SCENE_CHARACTERS } from '@/lib/poseScene';
 
 export default function UploadPage() {
+  const router = useRouter();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [templateName, setTemplateName] = useState('');
+  const [templatePrompt, setTemplatePrompt] = useState('');
+  const {
+    imageUrl,
+    people,
+    setPeople,
+    selectedIds,
+    setSelectedIds,
+    aspectRatio,
+    isDetecting,
+    remainingCount,
+    detectFile
+  } = usePhotoPoseDetection();
+
+  const selectedPeople = sortPeopleLeftToRight(people).filter(person => selectedIds.includes(person.id));
+
+  // クリップボードから貼り付けた画像も受け付ける
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const file = Array.from(event.clipboardData?.files || []).find(item => item.type.startsWith('image/'));
+      if (!file || isDetecting) return;
+      event.preventDefault();
+      detectFile(file);
+    };
+
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [detectFile, isDetecting]);
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragOver(false);
+    const file = event.dataTransfer.files[0];
+    if (file && !isDetecting) detectFile(file);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) detectFile(file);
+  };
+
+  // ビューアーに人物を渡してシーンとして読み込む
+  const handleSendToEditor = () => {
+    if (selectedPeople.length === 0) {
+      alert('エディターに送る人物を選択してください');
+      return;
+    }
+    localStorage.setItem('selectedDetectedPeople', JSON.stringify({ people: selectedPeople, aspectRatio }));
+    router.push('/viewer');
+  };
+
+  // テンプレートは1人分のポーズのため、選択した人物毎に保存する
+  const handleSaveTemplate = () => {
+    if (selectedPeople.length === 0) {
+      alert('テンプレートに保存する人物を選択してください');
+      return;
+    }
+    const name = templateName.trim();
+    if (!name) {
+      alert('テンプレート名を入力してください');
+      return;
+    }
+
+    selectedPeople.forEach((person, index) => {
+      const { pose } = liftKeypointsToPose(person.keypoints, { aspectRatio });
+      saveGuestTemplate({
+        user_id: 'guest',
+        name: selectedPeople.length > 1 ? `${name}（人物${index + 1}）` : name,
+        description: '写真から抽出したポーズ',
+        prompt: templatePrompt.trim(),
+        pose_data: createPoseDocument(pose, person.keypoints),
+        tags: ['写真から抽出'],
+        is_public: false
+      });
+    });
+
+    alert(`${selectedPeople.length}件のテンプレートを保存しました`);
+    setTemplateName('');
+    setTemplatePrompt('');
+  };
+
   return (
     <Layout>
       <div className="container mx-auto px-4 py-8">
         <h1 className="text-3xl font-bold mb-6">画像アップロード</h1>
-        <div className="max-w-2xl mx-auto">
-          <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
+        <div className="max-w-2xl mx-auto space-y-6">
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragOver(true);
+            }}
+            onDragLeave={() => setIsDragOver(false)}
+            onDrop={handleDrop}
+            className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+              isDragOver ? 'border-blue-500 bg-blue-50' : 'border-gray-300'
+            }`}
+          >
             <div className="mb-4">
               <svg className="mx-auto h-12 w-12 text-gray-400" stroke="currentColor" fill="none" viewBox="0 0 48 48">
                 <path d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
               </svg>
             </div>
-            <p className="text-gray-600 mb-4">画像をドラッグ&ドロップまたはクリックしてアップロード</p>
-            <button className="bg-blue-500 hover:bg-blue-600 text-white px-6 py-2 rounded-lg transition-colors">
-              ファイルを選択
+            <p className="text-gray-600 mb-4">画像をドラッグ&ドロップ、貼り付け（Ctrl+V）またはクリックしてアップロード</p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={PHOTO_ACCEPT_TYPES.join(',')}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isDetecting}
+              className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white px-6 py-2 rounded-lg transition-colors"
+            >
+              {isDetecting ? 'ポーズを抽出中...' : 'ファイルを選択'}
             </button>
+            <p className="text-xs text-gray-500 mt-3">
+              JPEG, PNG, WebP（10MBまで）・本日のポーズ抽出 残り{remainingCount}回
+            </p>
           </div>
+
+          {imageUrl && people.length === 0 && (
+            <div className="flex justify-center">
+              <img src={imageUrl} alt="アップロードした写真" className="block max-w-full max-h-96 rounded" />
+            </div>
+          )}
+
+          {imageUrl && people.length > 0 && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                枠をクリックして人物を選択（最大{MAX_SCENE_CHARACTERS}人）。選択中の人物の点をドラッグして検出位置を補正できます（白抜きの点は信頼度が低い点です）
+              </p>
+              <DetectedPeopleSelector
+                imageUrl={imageUrl}
+                people={people}
+                selectedIds={selectedIds}
+                onChange={setSelectedIds}
+                onPeopleChange={setPeople}
+              />
+
+              <button
+                onClick={handleSendToEditor}
+                disabled={selectedPeople.length === 0}
+                className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white py-2 rounded-lg transition-colors"
+              >
+                選択した{selectedPeople.length}人をエディターで開く
+              </button>
+
+              <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                <h2 className="text-lg font-semibold">テンプレートとして保存</h2>
+                <input
+                  type="text"
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="テンプレート名（例: ダンシングポーズ）"
+                />
+                <textarea
+                  value={templatePrompt}
+                  onChange={(e) => setTemplatePrompt(e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 h-20"
+                  placeholder="画像生成に使うプロンプト（任意）"
+                />
+                <button
+                  onClick={handleSaveTemplate}
+                  disabled={selectedPeople.length === 0}
+                  className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-300 text-white py-2 rounded-lg transition-colors"
+                >
+                  テンプレートとして保存
+                </button>
+                {selectedPeople.length > 1 && (
+                  <p className="text-xs text-gray-500">テンプレートは1人分のポーズのため、選択した人物毎に保存します</p>
+                )}
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </Layout>
   );
-}
\ No newline at end of file
+}
@@ -5,6 +5,8 @@ import { useSearchParams } from 'next/navigation';
 import Layout from '@/components/Layout';
 import PoseEditor from '@/components/PoseEditor';
 import PoseInterpolatorComponent from '@/components/PoseInterpolator';
+import PoseTimelineComponent from '@/components/PoseTimeline';
+import PhotoPoseImport from '@/components/PhotoPoseImport';
 import { useUsage } from '@/contexts/UsageContext';
 import { addToGuestGallery } from '@/lib/gallery';
 import { addCommercialWatermark, COMMERCIAL_WATERMARK_PRESETS, downloadImage, generateCommercialFilename } from '@/lib/imageUtils';
@@ -14,17 +16,34 @@ import StyleSelector from '@/components/StyleSelector';
 import { isPremiumUser, canUseFeature } from '@/lib/subscription';
 import { applyStyleToPrompt, getStyleById } from '@/lib/aiStyles';
 import { PoseData as InterpolationPoseData, SavedPoseManager } from '@/lib/poseInterpolation';
+import { usePoseHistory } from '@/hooks/usePoseHistory';
+import { projectSceneToKeypoints } from '@/lib/poseProjection';
+import type { BoneOffsets } from '@/lib/poseIK';
+import { HUMANOID_BONES } from '@/lib/humanoidRig';
+import { getActiveCharacter, setActiveCharacterPose } from '@/lib/poseScene';
+import { getConditioningMapField, CONDITIONING_MAP_LABELS, CONDITIONING_MAP_TYPES, type ConditioningMapType } from '@/lib/conditioningMaps';
+import { createPoseDocument, fromInterpolationPose, migratePoseDocument, toInterpolationPose, type PoseDocument } from '@/lib/poseDocument';
+import type { DetectedPerson } from '@/lib/detectedPeople';
+import { createSceneFromPeople } from '@/lib/poseLifting';
 
-interface PoseData {
-  [boneName: string]: {
-    rotation: [number, number, number];
-    position?: [number, number, number];
-  };
-}
+// 体と指の関節の数（Root は全身の移動・回転用のため数えない）
+const JOINT_COUNT = HUMANOID_BONES.filter(bone => bone.parent).length;
 
 export default function ViewerPage() {
   const searchParams = useSearchParams();
-  const [currentPose, setCurrentPose] = useState<PoseData | null>(null);
+  const {
+    scene,
+    setLiveScene,
+    commitScene,
+    updateScene,
+    updateLiveScene,
+    undo: undoPose,
+    redo: redoPose,
+    canUndo,
+    canRedo
+  } = usePoseHistory();
+  // 選択中のキャラクターのポーズ（補間・ギャラリー保存の対象）
+  const currentPose = scene ? getActiveCharacter(scene)?.pose || null : null;
   const [isGenerating, setIsGenerating] = useState(false);
   const [prompt, setPrompt] = useState('');
   const [style, setStyle] = useState('リアル');
@@ -32,41 +51,27 @@ export default function ViewerPage() {
   const [resolution, setResolution] = useState('512px');
   const [isCommercial, setIsCommercial] = useState(false);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  // 生成に使ったポーズ（ギャラリー保存とシェアカード用）
+  const [generatedPoseDocument, setGeneratedPoseDocument] = useState<PoseDocument | null>(null);
   const [isProcessingWatermark, setIsProcessingWatermark] = useState(false);
+  const [isRenderingSkeleton, setIsRenderingSkeleton] = useState(false);
+  // 生成に添付する深度・法線・シルエットの条件画像（Data URL）
+  const [conditioningMaps, setConditioningMaps] = useState<Partial<Record<ConditioningMapType, string>>>({});
   const [isShareModalOpen, setIsShareModalOpen] = useState(false);
   const [selectedStyleId, setSelectedStyleId] = useState<string>('basic_realistic');
   const [showStyleSelector, setShowStyleSelector] = useState(false);
   const [showPoseInterpolator, setShowPoseInterpolator] = useState(false);
+  const [showPhotoImport, setShowPhotoImport] = useState(false);
+  // 写真から読み込んだキャラクターは、検出したキーポイントをそのまま生成に使う
+  const [useDetectedKeypoints, setUseDetectedKeypoints] = useState(true);
+  // モデルを読み込んだキャラクターの体型（キャラクターID → ボーンのオフセット）
+  const [characterBoneOffsets, setCharacterBoneOffsets] = useState<Record<string, BoneOffsets>>({});
   const { usage, refreshUsage } = useUsage();
   
   // ユーザーのプレミアム状態をチェック
   const userIsPremium = isPremiumUser('guest');
   const canUseAIStyles = canUseFeature('aiStyles', 'guest');
 
-  // ポーズデータ変換ユーティリティ
-  const convertToInterpolationFormat = (pose: PoseData): InterpolationPoseData => {
-    const result: InterpolationPoseData = {};
-    Object.entries(pose).forEach(([boneName, data]) => {
-      result[boneName] = {
-        x: data.rotation[0],
-        y: data.rotation[1],
-        z: data.rotation[2]
-      };
-    });
-    return result;
-  };
-
-  const convertFromInterpolationFormat = (pose: InterpolationPoseData): PoseData => {
-    const result: PoseData = {};
-    Object.entries(pose).forEach(([boneName, rotation]) => {
-      result[boneName] = {
-        rotation: [rotation.x, rotation.y, rotation.z],
-        position: [0, 0, 0] // デフォルト位置
-      };
-    });
-    return result;
-  };
-
   useEffect(() => {
     // URLパラメータをチェックしてポーズ補間タブを開く
     const tab = searchParams.get('tab');
@@ -82,7 +87,13 @@ export default function ViewerPage() {
         setPrompt(data.prompt || '');
         setStyle(data.style || 'リアル');
         setBackground(data.background || '透明');
-        setCurrentPose(data.poseData || null);
+        if (data.poseData) {
+          // 旧形式のテンプレートも読み込めるように変換（2Dキーポイントのみのテンプレートは3Dポーズを変更しない）
+          const poseDocument = migratePoseDocument(data.poseData);
+          if (Object.keys(poseDocument.bones).length > 0) {
+            updateScene(current => setActiveCharacterPose(current, poseDocument.bones));
+          }
+        }
         localStorage.removeItem('selectedTemplate');
       } catch (error) {
         console.error('Error loading template data:', error);
@@ -95,12 +106,32 @@ export default function ViewerPage() {
       setPrompt(selectedPrompt);
       localStorage.removeItem('selectedPrompt');
     }
-  }, [searchParams]);
-  
-  const handlePoseChange = (pose: PoseData) => {
-    setCurrentPose(pose);
+
+    // アップロードページで写真から抽出した人物を取得
+    const detectedPeopleData = localStorage.getItem('selectedDetectedPeople');
+    if (detectedPeopleData) {
+      try {
+        const { people, aspectRatio } = JSON.parse(detectedPeopleData);
+        updateScene(current => createSceneFromPeople(people, { aspectRatio, camera: current?.camera }));
+        localStorage.removeItem('selectedDetectedPeople');
+      } catch (error) {
+        console.error('Error loading detected people:', error);
+      }
+    }
+  }, [searchParams, updateScene]);
+
+  // シーン内の全キャラクターをエディターのカメラから見た構図で2Dキーポイント（指を含む）に投影
+  const getSceneKeypoints = () => {
+    const characters = scene ? scene.characters : [];
+    const poses = characters.length > 0 ? characters.map(character => character.pose) : currentPose ? [currentPose] : [];
+    const boneOffsets = characters.map(character => characterBoneOffsets[character.id]);
+    const projected = projectSceneToKeypoints(poses, scene?.camera, boneOffsets);
+    if (!useDetectedKeypoints) return projected;
+    return projected.map((keypoints, index) => characters[index]?.detectedKeypoints || keypoints);
   };
 
+  const hasDetectedKeypoints = !!scene?.characters.some(character => character.detectedKeypoints);
+
   const generateImage = async () => {
     if (!currentPose) {
       alert('まずポーズを調整してください');
@@ -131,12 +162,23 @@ export default function ViewerPage() {
       
       const formData = new FormData();
       formData.append('prompt', finalPrompt);
-      formData.append('pose_data', JSON.stringify(currentPose));
+      const characters = scene ? scene.characters : [];
+      const keypoints = getSceneKeypoints();
+      const activeIndex = Math.max(characters.findIndex(character => character.id === scene?.activeCharacterId), 0);
+      const poseDocument = createPoseDocument(currentPose, keypoints[activeIndex]);
+      formData.append('pose_data', JSON.stringify(keypoints));
       formData.append('style', style);
       formData.append('background', background);
       formData.append('resolution', resolution.replace('px', ''));
       formData.append('is_commercial', isCommercial.toString());
       formData.append('ai_style_id', selectedStyleId);
+      for (const type of CONDITIONING_MAP_TYPES) {
+        const image = conditioningMaps[type];
+        if (image) {
+          const blob = await (await fetch(image)).blob();
+          formData.append(getConditioningMapField(type), blob, `${type}.png`);
+        }
+      }
 
       const response = await fetch('/api/generate', {
         method: 'POST',
@@ -162,12 +204,13 @@ export default function ViewerPage() {
         }
 
         setGeneratedImage(finalImage);
+        setGeneratedPoseDocument(poseDocument);
 
         // ギャラリーに保存
         addToGuestGallery({
           user_id: 'guest',
           prompt,
-          pose_data: currentPose,
+          pose_data: poseDocument,
           style,
           background,
           resolution,
@@ -195,6 +238,43 @@ export default function ViewerPage() {
     }
   };
 
+  const handleDownloadSkeleton = async () => {
+    setIsRenderingSkeleton(true);
+    try {
+      const response = await fetch('/api/pose/render', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pose: getSceneKeypoints(), width: parseInt(resolution.replace('px', '')) })
+      });
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.error || '骨格画像の生成に失敗しました');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      downloadImage(url, `openpose-${Date.now()}.png`);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error rendering skeleton:', error);
+      alert('骨格画像の生成中にエラーが発生しました');
+    } finally {
+      setIsRenderingSkeleton(false);
+    }
+  };
+
+  const handleAttachConditioningMap = (type: ConditioningMapType, image: string) => {
+    setConditioningMaps(current => ({ ...current, [type]: image }));
+  };
+
+  const handleRemoveConditioningMap = (type: ConditioningMapType) => {
+    setConditioningMaps(current => {
+      const next = { ...current };
+      delete next[type];
+      return next;
+    });
+  };
+
   const handleDownload = () => {
     if (!generatedImage) return;
     
@@ -224,8 +304,26 @@ export default function ViewerPage() {
   };
 
   const handleInterpolatedPoseChange = (interpolatedPose: InterpolationPoseData) => {
-    const convertedPose = convertFromInterpolationFormat(interpolatedPose);
-    setCurrentPose(convertedPose);
+    const convertedPose = fromInterpolationPose(interpolatedPose);
+    // スライダー操作中の連続した補間結果は1つの履歴にまとめる
+    updateScene(current => setActiveCharacterPose(current, convertedPose), { mergeKey: 'interpolation' });
+  };
+
+  const handleTimelinePoseChange = (timelinePose: InterpolationPoseData) => {
+    // 再生・スクラブ中は表示のみ更新し、停止時などに handleTimelinePoseCommit で履歴に確定する
+    updateLiveScene(current => setActiveCharacterPose(current, fromInterpolationPose(timelinePose)));
+  };
+
+  const handleTimelinePoseCommit = (timelinePose: InterpolationPoseData) => {
+    updateScene(current => setActiveCharacterPose(current, fromInterpolationPose(timelinePose)), { mergeKey: 'timeline' });
+  };
+
+  const handlePhotoImport = (people: DetectedPerson[], aspectRatio: number) => {
+    if (scene && !confirm('現在のシーンを写真の人物で置き換えますか？')) return;
+
+    updateScene(current => createSceneFromPeople(people, { aspectRatio, camera: current?.camera }));
+    setUseDetectedKeypoints(true);
+    setShowPhotoImport(false);
   };
 
   const handleSaveCurrentPose = (pose: InterpolationPoseData, name: string, description?: string) => {
@@ -260,6 +358,18 @@ export default function ViewerPage() {
                   >
                     🔀 ポーズ補間
                   </button>
+                  {!showPoseInterpolator && (
+                    <button
+                      onClick={() => setShowPhotoImport(!showPhotoImport)}
+                      className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                        showPhotoImport
+                          ? 'bg-green-600 text-white'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      📷 写真から読み込む
+                    </button>
+                  )}
                 </div>
                 <div className="flex items-center space-x-2 text-sm text-gray-500">
                   <div className="w-3 h-3 bg-red-500 rounded-full"></div>
@@ -271,21 +381,45 @@ export default function ViewerPage() {
               
               {!showPoseInterpolator ? (
                 <>
-                  <PoseEditor onPoseChange={handlePoseChange} />
+                  {showPhotoImport && (
+                    <PhotoPoseImport onImport={handlePhotoImport} onClose={() => setShowPhotoImport(false)} />
+                  )}
+
+                  <PoseEditor
+                    scene={scene}
+                    onSceneChange={setLiveScene}
+                    onSceneCommit={commitScene}
+                    onUndo={undoPose}
+                    onRedo={redoPose}
+                    canUndo={canUndo}
+                    canRedo={canRedo}
+                    onAttachConditioningMap={handleAttachConditioningMap}
+                    onBoneOffsetsChange={setCharacterBoneOffsets}
+                  />
+
+                  <PoseTimelineComponent onPoseChange={handleTimelinePoseChange} onPoseCommit={handleTimelinePoseCommit} />
                   
                   <div className="mt-4 p-4 bg-blue-50 rounded-lg">
                     <h3 className="font-semibold text-blue-900 mb-2">💡 使い方</h3>
                     <ul className="text-sm text-blue-800 space-y-1">
                       <li>• 赤い球（関節）をクリックして選択</li>
                       <li>• マウスドラッグで関節を回転</li>
-                      <li>• マウスホイールでズーム</li>
-                      <li>• ポーズの保存/読み込みが可能</li>
+                      <li>• 選択中の関節はギズモの軸ドラッグや数値入力で細かく調整</li>
+                      <li>• IKハンドル（オレンジ）をドラッグして手足・頭の位置を直接指定</li>
+                      <li>• 何も無い所を左ドラッグでカメラを回転、右ドラッグで平行移動、ホイールでズーム</li>
+                      <li>• カメラの向き・画角は画像生成時の構図に反映</li>
+                      <li>• 深度・法線・シルエット画像をダウンロード、または生成に添付</li>
+                      <li>• タイムラインに保存済みポーズをキーフレームとして並べ、再生・スクラブで動きを確認</li>
+                      <li>• ＋追加でキャラクターを増やし、クリックで編集するキャラクターを切り替え</li>
+                      <li>• 写真から読み込むで、集合写真などから選んだ人物を同じ姿勢のキャラクターとして並べる（推定できなかった関節は黄色）</li>
+                      <li>• Ctrl+Z で元に戻す、Ctrl+Shift+Z でやり直し</li>
+                      <li>• ポーズの保存/読み込みが可能（JSON・MMDのVPD形式）</li>
                     </ul>
                   </div>
                 </>
               ) : (
                 <PoseInterpolatorComponent
-                  currentPose={currentPose ? convertToInterpolationFormat(currentPose) : undefined}
+                  currentPose={currentPose ? toInterpolationPose(currentPose) : undefined}
                   onPoseChange={handleInterpolatedPoseChange}
                   onSavePose={handleSaveCurrentPose}
                 />
@@ -301,7 +435,11 @@ export default function ViewerPage() {
               <div className="space-y-3 text-sm">
                 <div className="flex justify-between">
                   <span className="text-gray-600">関節数</span>
-                  <span className="font-medium">21個</span>
+                  <span className="font-medium">{JOINT_COUNT}個</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">キャラクター数</span>
+                  <span className="font-medium">{scene ? scene.characters.length : 1}人</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">形式</span>
@@ -437,6 +575,55 @@ export default function ViewerPage() {
                   </select>
                 </div>
                 
+                {hasDetectedKeypoints && (
+                  <div className="p-3 bg-green-50 border border-green-200 rounded">
+                    <div className="flex items-center space-x-3">
+                      <input
+                        type="checkbox"
+                        id="useDetectedKeypoints"
+                        checked={useDetectedKeypoints}
+                        onChange={(e) => setUseDetectedKeypoints(e.target.checked)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <label htmlFor="useDetectedKeypoints" className="text-sm font-medium text-gray-700">
+                        写真から検出したポーズで生成
+                      </label>
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500">
+                      オフにするとエディターで調整したポーズを生成に使います
+                    </p>
+                  </div>
+                )}
+
+                {CONDITIONING_MAP_TYPES.some(type => conditioningMaps[type]) && (
+                  <div>
+                    <label className="block text-sm font-medium mb-2">条件画像</label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {CONDITIONING_MAP_TYPES.map(type => {
+                        const image = conditioningMaps[type];
+                        if (!image) return null;
+                        return (
+                          <div key={type} className="relative">
+                            <img
+                              src={image}
+                              alt={CONDITIONING_MAP_LABELS[type]}
+                              className="w-full aspect-square object-cover rounded border"
+                            />
+                            <button
+                              onClick={() => handleRemoveConditioningMap(type)}
+                              title="添付を解除"
+                              className="absolute top-1 right-1 w-5 h-5 bg-white/90 text-gray-700 text-xs rounded-full border hover:bg-gray-100"
+                            >
+                              ×
+                            </button>
+                            <p className="text-xs text-gray-600 text-center mt-1">{CONDITIONING_MAP_LABELS[type]}</p>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+                
                 <div>
                   <label className="block text-sm font-medium mb-2">背景</label>
                   <select 
@@ -508,6 +695,14 @@ export default function ViewerPage() {
                   '画像を生成'
                 )}
               </button>
+
+              <button
+                onClick={handleDownloadSkeleton}
+                disabled={!currentPose || isRenderingSkeleton}
+                className="w-full mt-2 py-2 text-sm border rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isRenderingSkeleton ? '骨格画像を作成中...' : 'OpenPose画像をダウンロード'}
+              </button>
               
               <div className="text-xs text-gray-500 mt-2 text-center space-y-1">
                 <p>画像生成: {usage.imageGeneration}/10回 (本日)</p>
@@ -572,7 +767,7 @@ export default function ViewerPage() {
         onClose={() => setIsShareModalOpen(false)}
         generatedImage={generatedImage || ''}
         prompt={prompt}
-        poseData={currentPose}
+        poseData={generatedPoseDocument}
         style={style}
         background={background}
         isCommercial={isCommercial}
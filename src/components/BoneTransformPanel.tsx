@@ -0,0 +1,164 @@
+'use client';
+
+import React from 'react';
+import { SafePrompt } from './SafeText';
+import type { PoseData } from '@/lib/humanoidRig';
+
+interface BoneTransformPanelProps {
+  boneName: string;
+  pose: PoseData;
+  onRotationChange: (boneName: string, rotation: [number, number, number]) => void;
+  onPositionChange?: (position: [number, number, number]) => void;
+  gizmoMode?: 'rotate' | 'translate';
+  onGizmoModeChange?: (mode: 'rotate' | 'translate') => void;
+  onClose: () => void;
+}
+
+const AXES = ['X', 'Y', 'Z'] as const;
+const RAD_TO_DEG = 180 / Math.PI;
+const DEG_TO_RAD = Math.PI / 180;
+
+// 矢印キーでの微調整量（Shiftで10倍）
+const ROTATION_STEP = 1;
+const POSITION_STEP = 0.01;
+
+export default function BoneTransformPanel({
+  boneName,
+  pose,
+  onRotationChange,
+  onPositionChange,
+  gizmoMode = 'rotate',
+  onGizmoModeChange,
+  onClose
+}: BoneTransformPanelProps) {
+  const rotation = pose[boneName]?.rotation || [0, 0, 0];
+  const position = pose[boneName]?.position || [0, 0, 0];
+  const isRoot = boneName === 'Root';
+
+  const setRotationAxis = (axisIndex: number, degrees: number) => {
+    if (!Number.isFinite(degrees)) return;
+    const newRotation = [...rotation] as [number, number, number];
+    newRotation[axisIndex] = degrees * DEG_TO_RAD;
+    onRotationChange(boneName, newRotation);
+  };
+
+  const setPositionAxis = (axisIndex: number, value: number) => {
+    if (!Number.isFinite(value) || !onPositionChange) return;
+    const newPosition = [...position] as [number, number, number];
+    newPosition[axisIndex] = value;
+    onPositionChange(newPosition);
+  };
+
+  // 入力欄で矢印キーを押すと値を増減
+  const handleKeyDown = (
+    event: React.KeyboardEvent<HTMLInputElement>,
+    currentValue: number,
+    step: number,
+    apply: (value: number) => void
+  ) => {
+    if (event.key !== 'ArrowUp' && event.key !== 'ArrowDown') return;
+    event.preventDefault();
+
+    const amount = (event.shiftKey ? step * 10 : step) * (event.key === 'ArrowUp' ? 1 : -1);
+    apply(currentValue + amount);
+  };
+
+  return (
+    <div className="p-4 bg-white border rounded-lg shadow-sm space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900">
+          <SafePrompt>{boneName}</SafePrompt>
+        </h3>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 text-sm"
+          aria-label="選択解除"
+        >
+          ✕
+        </button>
+      </div>
+
+      {isRoot && onGizmoModeChange && (
+        <div className="flex space-x-1">
+          {(['translate', 'rotate'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => onGizmoModeChange(mode)}
+              className={`flex-1 text-xs px-2 py-1 rounded transition-colors ${
+                gizmoMode === mode
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {mode === 'translate' ? '移動' : '回転'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-xs font-medium text-gray-500 mb-2">回転（度）</h4>
+        <div className="space-y-2">
+          {AXES.map((axis, index) => {
+            const degrees = Math.round(rotation[index] * RAD_TO_DEG * 10) / 10;
+            return (
+              <div key={axis} className="flex items-center space-x-2">
+                <span className="w-4 text-sm font-mono text-gray-600">{axis}</span>
+                <input
+                  type="number"
+                  step={ROTATION_STEP}
+                  value={degrees}
+                  onChange={(e) => setRotationAxis(index, parseFloat(e.target.value))}
+                  onKeyDown={(e) => handleKeyDown(e, degrees, ROTATION_STEP, value => setRotationAxis(index, value))}
+                  className="flex-1 w-20 border border-gray-300 rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={() => setRotationAxis(index, 0)}
+                  className="text-xs text-gray-500 hover:text-gray-700 px-1"
+                  title={`${axis}軸をリセット`}
+                >
+                  0
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {isRoot && onPositionChange && (
+        <div>
+          <h4 className="text-xs font-medium text-gray-500 mb-2">位置（m）</h4>
+          <div className="space-y-2">
+            {AXES.map((axis, index) => {
+              const value = Math.round(position[index] * 1000) / 1000;
+              return (
+                <div key={axis} className="flex items-center space-x-2">
+                  <span className="w-4 text-sm font-mono text-gray-600">{axis}</span>
+                  <input
+                    type="number"
+                    step={POSITION_STEP}
+                    value={value}
+                    onChange={(e) => setPositionAxis(index, parseFloat(e.target.value))}
+                    onKeyDown={(e) => handleKeyDown(e, value, POSITION_STEP, v => setPositionAxis(index, v))}
+                    className="flex-1 w-20 border border-gray-300 rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={() => setPositionAxis(index, 0)}
+                    className="text-xs text-gray-500 hover:text-gray-700 px-1"
+                    title={`${axis}軸をリセット`}
+                  >
+                    0
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        ↑↓キーで微調整、Shift+↑↓で10倍の幅で調整できます
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useRef } from 'react';
+import {
+  sortPeopleLeftToRight,
+  moveKeypoint,
+  BBOX_MIN_CONFIDENCE,
+  KEYPOINT_EDGES,
+  type DetectedPerson
+} from '@/lib/detectedPeople';
+import { getCharacterColor, MAX_SCENE_CHARACTERS } from '@/lib/poseScene';
+
+interface DetectedPeopleSelectorProps {
+  imageUrl: string;
+  people: DetectedPerson[];
+  selectedIds: string[];
+  onChange: (selectedIds: string[]) => void;
+  onPeopleChange?: (people: DetectedPerson[]) => void; // 指定時は選択中の人物のキーポイントをドラッグで補正できる
+}
+
+const UNSELECTED_COLOR = '#9ca3af';
+
+const toPercent = (value: number) => `${value * 100}%`;
+
+export default function DetectedPeopleSelector({ imageUrl, people, selectedIds, onChange, onPeopleChange }: DetectedPeopleSelectorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef<{ personId: string; name: string } | null>(null);
+
+  // 写真の左から順に番号を振る（読み込み後のキャラクターの並びと同じ）
+  const sortedPeople = sortPeopleLeftToRight(people);
+  const selectedPeople = sortedPeople.filter(person => selectedIds.includes(person.id));
+
+  const getColor = (person: DetectedPerson) => {
+    const index = selectedPeople.indexOf(person);
+    return index >= 0 ? getCharacterColor(index) : UNSELECTED_COLOR;
+  };
+
+  const togglePerson = (personId: string) => {
+    if (selectedIds.includes(personId)) {
+      onChange(selectedIds.filter(id => id !== personId));
+    } else if (selectedIds.length < MAX_SCENE_CHARACTERS) {
+      onChange([...selectedIds, personId]);
+    } else {
+      alert(`選択できるのは${MAX_SCENE_CHARACTERS}人までです`);
+    }
+  };
+
+  const handleKeypointPointerDown = (event: React.PointerEvent<HTMLDivElement>, personId: string, name: string) => {
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    draggingRef.current = { personId, name };
+  };
+
+  const handleKeypointPointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const dragging = draggingRef.current;
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!dragging || !onPeopleChange || !rect || rect.width === 0 || rect.height === 0) return;
+    // 写真上の位置を幅・高さで正規化した座標に変換
+    const x = (event.clientX - rect.left) / rect.width;
+    const y = (event.clientY - rect.top) / rect.height;
+    onPeopleChange(people.map(person =>
+      person.id === dragging.personId ? moveKeypoint(person, dragging.name, x, y) : person
+    ));
+  };
+
+  const handleKeypointPointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    draggingRef.current = null;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div ref={containerRef} className="relative inline-block max-w-full select-none">
+        <img src={imageUrl} alt="アップロードした写真" className="block max-w-full max-h-96 rounded" draggable={false} />
+        {sortedPeople.map((person, index) => {
+          const color = getColor(person);
+          const isSelected = selectedIds.includes(person.id);
+          const isEditable = Boolean(onPeopleChange) && isSelected;
+          return (
+            <div key={person.id}>
+              <button
+                onClick={() => togglePerson(person.id)}
+                className="absolute border-2 rounded-sm transition-colors"
+                style={{
+                  left: toPercent(person.bbox.x),
+                  top: toPercent(person.bbox.y),
+                  width: toPercent(person.bbox.width),
+                  height: toPercent(person.bbox.height),
+                  borderColor: color,
+                  backgroundColor: isSelected ? `${color}22` : 'transparent'
+                }}
+                title={isSelected ? 'クリックで選択を解除' : 'クリックで選択'}
+              >
+                <span
+                  className="absolute -top-5 left-0 text-xs text-white px-1 rounded"
+                  style={{ backgroundColor: color }}
+                >
+                  {index + 1}
+                </span>
+              </button>
+              {isEditable ? (
+                <>
+                  <svg
+                    className="absolute inset-0 w-full h-full pointer-events-none"
+                    viewBox="0 0 100 100"
+                    preserveAspectRatio="none"
+                  >
+                    {KEYPOINT_EDGES.map(([from, to]) => {
+                      const start = person.keypoints.find(keypoint => keypoint.name === from);
+                      const end = person.keypoints.find(keypoint => keypoint.name === to);
+                      if (!start || !end) return null;
+                      return (
+                        <line
+                          key={`${from}-${to}`}
+                          x1={start.x * 100}
+                          y1={start.y * 100}
+                          x2={end.x * 100}
+                          y2={end.y * 100}
+                          stroke={color}
+                          strokeWidth={2}
+                          vectorEffect="non-scaling-stroke"
+                        />
+                      );
+                    })}
+                  </svg>
+                  {/* 信頼度の低い点は白抜きで表示（補正が必要な可能性が高い） */}
+                  {person.keypoints.map(keypoint => {
+                    const isConfident = (keypoint.confidence ?? 1) >= BBOX_MIN_CONFIDENCE;
+                    return (
+                      <div
+                        key={keypoint.name}
+                        onPointerDown={(e) => handleKeypointPointerDown(e, person.id, keypoint.name)}
+                        onPointerMove={handleKeypointPointerMove}
+                        onPointerUp={handleKeypointPointerUp}
+                        className="absolute w-3 h-3 rounded-full border-2 cursor-move touch-none -translate-x-1/2 -translate-y-1/2"
+                        style={{
+                          left: toPercent(keypoint.x),
+                          top: toPercent(keypoint.y),
+                          borderColor: color,
+                          backgroundColor: isConfident ? color : '#ffffff'
+                        }}
+                        title={`${keypoint.name}（ドラッグで補正）`}
+                      />
+                    );
+                  })}
+                </>
+              ) : (
+                person.keypoints
+                  .filter(keypoint => (keypoint.confidence ?? 1) >= BBOX_MIN_CONFIDENCE)
+                  .map(keypoint => (
+                    <div
+                      key={keypoint.name}
+                      className="absolute w-1.5 h-1.5 rounded-full pointer-events-none -translate-x-1/2 -translate-y-1/2"
+                      style={{ left: toPercent(keypoint.x), top: toPercent(keypoint.y), backgroundColor: color }}
+                    />
+                  ))
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <ul className="space-y-1 text-sm">
+        {sortedPeople.map((person, index) => (
+          <li key={person.id}>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(person.id)}
+                onChange={() => togglePerson(person.id)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: getColor(person) }} />
+              <span>人物{index + 1}</span>
+              <span className="text-xs text-gray-500">スコア {Math.round(person.score * 100)}%</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import DetectedPeopleSelector from '@/components/DetectedPeopleSelector';
+import type { DetectedPerson } from '@/lib/detectedPeople';
+import { MAX_SCENE_CHARACTERS } from '@/lib/poseScene';
+import { usePhotoPoseDetection, PHOTO_ACCEPT_TYPES } from '@/hooks/usePhotoPoseDetection';
+
+interface PhotoPoseImportProps {
+  onImport: (people: DetectedPerson[], aspectRatio: number) => void;
+  onClose: () => void;
+}
+
+export default function PhotoPoseImport({ onImport, onClose }: PhotoPoseImportProps) {
+  const {
+    imageUrl,
+    people,
+    setPeople,
+    selectedIds,
+    setSelectedIds,
+    aspectRatio,
+    isDetecting,
+    remainingCount,
+    detectFile
+  } = usePhotoPoseDetection();
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) detectFile(file);
+  };
+
+  const handleImport = () => {
+    const selected = people.filter(person => selectedIds.includes(person.id));
+    if (selected.length === 0) {
+      alert('読み込む人物を選択してください');
+      return;
+    }
+    onImport(selected, aspectRatio);
+  };
+
+  return (
+    <div className="mb-4 p-4 border border-green-200 bg-green-50 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-green-900">📷 写真から人物を読み込む</h4>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="閉じる">
+          ×
+        </button>
+      </div>
+
+      <input
+        type="file"
+        accept={PHOTO_ACCEPT_TYPES.join(',')}
+        onChange={handleFileChange}
+        disabled={isDetecting}
+        className="block text-sm text-gray-700"
+      />
+      <p className="text-xs text-gray-500">本日のポーズ抽出 残り{remainingCount}回</p>
+
+      {isDetecting && <p className="text-sm text-gray-600">ポーズを検出中...</p>}
+
+      {imageUrl && people.length > 0 && (
+        <>
+          <p className="text-xs text-gray-600">
+            枠をクリックして読み込む人物を選択（最大{MAX_SCENE_CHARACTERS}人）。点をドラッグして検出位置を補正できます。写真の左から順に、同じ姿勢のキャラクターとして並べます
+          </p>
+          <DetectedPeopleSelector
+            imageUrl={imageUrl}
+            people={people}
+            selectedIds={selectedIds}
+            onChange={setSelectedIds}
+            onPeopleChange={setPeople}
+          />
+          <button
+            onClick={handleImport}
+            disabled={selectedIds.length === 0}
+            className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-300 text-white text-sm py-2 rounded transition-colors"
+          >
+            選択した{selectedIds.length}人をシーンに読み込む
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,19 +2,119 @@
 
 import React, { useRef, useEffect, useState } from 'react';
 import * as THREE from 'three';
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
+import { TransformControls } from 'three/examples/jsm/controls/TransformControls.js';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import { SafePrompt, SafeError } from './SafeText';
+import BoneTransformPanel from './BoneTransformPanel';
+import type { PoseHistoryPushOptions } from '@/lib/poseHistory';
+import {
+  createPoseScene,
+  createSceneCharacter,
+  findFreeCharacterPosition,
+  getCharacterColor,
+  getCharacterPosition,
+  isPoseScene,
+  migratePoseScene,
+  setCharacterPosition,
+  MAX_SCENE_CHARACTERS,
+  type PoseScene,
+  type SceneCharacter
+} from '@/lib/poseScene';
+import {
+  CAMERA_PRESETS,
+  DEFAULT_CAMERA_STATE,
+  MAX_CAMERA_FOV,
+  MIN_CAMERA_FOV,
+  fovToFocalLength,
+  focalLengthToFov,
+  type CameraPresetId,
+  type CameraState
+} from '@/lib/cameraPresets';
+import {
+  mirrorPose,
+  samplePoseSequence,
+  SavedPoseManager,
+  SEQUENCE_FPS_OPTIONS,
+  type MirrorMode,
+  type SavedPose
+} from '@/lib/poseInterpolation';
+import { createPoseDocument, fromInterpolationPose, migratePoseDocument } from '@/lib/poseDocument';
+import {
+  createHumanoidRig,
+  HUMANOID_BONES,
+  type HumanoidRig,
+  applyPoseToSkeleton,
+  BONE_HELPER_COLOR,
+  BONE_HELPER_SELECTED_COLOR,
+  BONE_HELPER_UNCERTAIN_COLOR,
+  type PoseData
+} from '@/lib/humanoidRig';
+import {
+  loadCharacterModel,
+  applyPoseToCharacterModel,
+  disposeCharacterModel,
+  rebuildModelBoneHelpers,
+  BoneMappingManager,
+  SUPPORTED_MODEL_EXTENSIONS,
+  type LoadedCharacterModel
+} from '@/lib/modelLoader';
+import {
+  computeJointTransforms,
+  solveIK,
+  applyFootPins,
+  IK_EFFECTORS,
+  IK_CHAINS,
+  type IKEffector,
+  type IKOptions,
+  type BoneOffsets,
+  type FootPins
+} from '@/lib/poseIK';
+import { clampRotation, clampPose, validatePose } from '@/lib/jointLimits';
+import { applyHandShape, HAND_SHAPES, type HandShape, type HandSide } from '@/lib/handPoses';
+import {
+  renderConditioningMap,
+  CONDITIONING_MAP_LABELS,
+  CONDITIONING_MAP_RESOLUTIONS,
+  CONDITIONING_MAP_TYPES,
+  type ConditioningMapType
+} from '@/lib/conditioningMaps';
+import { downloadImage } from '@/lib/imageUtils';
+import { exportPoseGlb } from '@/lib/gltfExport';
+import { decodeVpd, encodeVpd, formatVpd, parseVpd, poseToVpd, vpdToPose } from '@/lib/vpd';
 
-interface PoseData {
-  [boneName: string]: {
-    rotation: [number, number, number];
-    position?: [number, number, number];
-  };
+// シーン内のキャラクター（表示用のリグと読み込んだモデルを保持）
+interface EditorCharacter extends SceneCharacter {
+  rig: HumanoidRig;
+  model: LoadedCharacterModel | null;
 }
 
+const ACTIVE_CHARACTER_OPACITY = 0.85;
+const INACTIVE_CHARACTER_OPACITY = 0.45;
+
+// IKハンドル（Hipsハンドルは全身の移動用）
+type IKHandleName = IKEffector | 'Hips';
+type PinnableFoot = 'LeftFoot' | 'RightFoot';
+
+const IK_HANDLE_COLOR = 0xffaa00;
+const IK_HANDLE_ACTIVE_COLOR = 0xffee00;
+
 interface PoseEditorProps {
   onPoseChange?: (pose: PoseData) => void;
   initialPose?: PoseData;
+  // 外部から指定するシーン（null は初期シーン、undefined は内部状態のみで管理）
+  scene?: PoseScene | null;
+  // シーン内のポーズやキャラクターが変化した時に呼ばれる（ドラッグ中も呼ばれる）
+  onSceneChange?: (scene: PoseScene) => void;
+  // ドラッグ終了などで操作が確定した時に呼ばれる
+  onSceneCommit?: (scene: PoseScene, options?: PoseHistoryPushOptions) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  // 深度・法線・シルエットの画像を画像生成の条件画像として添付する
+  onAttachConditioningMap?: (type: ConditioningMapType, image: string) => void;
+  // キャラクターにモデルを読み込んだ・外した時に呼ばれる（キャラクターID → モデルの体型）
+  onBoneOffsetsChange?: (boneOffsets: Record<string, BoneOffsets>) => void;
 }
 
 const MOCK_POSE_DATA: PoseData = {
@@ -78,24 +178,88 @@ const MOCK_POSE_DATA: PoseData = {
   },
   'RightFoot': {
     rotation: [0, 0, 0]
-  }
+  },
+
+  // 指は自然に軽く曲げた状態
+  ...applyHandShape(applyHandShape({}, 'Left', 'relaxed'), 'Right', 'relaxed')
 };
 
-export default function PoseEditor({ onPoseChange, initialPose }: PoseEditorProps) {
+export default function PoseEditor({
+  onPoseChange,
+  initialPose,
+  scene: sceneProp,
+  onSceneChange,
+  onSceneCommit,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+  onAttachConditioningMap,
+  onBoneOffsetsChange
+}: PoseEditorProps) {
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const mixerRef = useRef<THREE.AnimationMixer | null>(null);
   const modelRef = useRef<THREE.Group | null>(null);
+  const skeletonRef = useRef<THREE.Skeleton | null>(null);
   const bonesRef = useRef<THREE.Bone[]>([]);
-  const boneHelpersRef = useRef<THREE.Object3D[]>([]);
-  const controlsRef = useRef<any>(null);
+  const boneHelpersRef = useRef<THREE.Mesh[]>([]);
+  const controlsRef = useRef<OrbitControls | null>(null);
   const raycasterRef = useRef<THREE.Raycaster>(new THREE.Raycaster());
   const mouseRef = useRef<THREE.Vector2>(new THREE.Vector2());
-  const [selectedBone, setSelectedBone] = useState<THREE.Bone | null>(null);
+  const characterModelRef = useRef<LoadedCharacterModel | null>(null);
+  const [selectedBone, setSelectedBone] = useState<string | null>(null);
+  const [gizmoMode, setGizmoMode] = useState<'rotate' | 'translate'>('rotate');
+  const [cameraFov, setCameraFov] = useState(DEFAULT_CAMERA_STATE.fov);
+  const [conditioningMapType, setConditioningMapType] = useState<ConditioningMapType>('depth');
+  const [conditioningMapSize, setConditioningMapSize] = useState(CONDITIONING_MAP_RESOLUTIONS[0]);
   const [currentPose, setCurrentPose] = useState<PoseData>(initialPose || MOCK_POSE_DATA);
-  const [isDragging, setIsDragging] = useState(false);
+  const [characterModel, setCharacterModel] = useState<LoadedCharacterModel | null>(null);
+  const [isLoadingModel, setIsLoadingModel] = useState(false);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [modelError, setModelError] = useState<string | null>(null);
+  // glTFに含めるアニメーション（保存済みポーズのIDを順番に並べる）
+  const [savedPoses, setSavedPoses] = useState<SavedPose[]>([]);
+  const [animationPoseIds, setAnimationPoseIds] = useState<string[]>([]);
+  const [animationDuration, setAnimationDuration] = useState(2);
+  const [animationFps, setAnimationFps] = useState(SEQUENCE_FPS_OPTIONS[1]);
+  const [isExportingGlb, setIsExportingGlb] = useState(false);
+  // VPDの読み書きで対応付けできなかったボーン
+  const [vpdReport, setVpdReport] = useState<{ action: 'import' | 'export'; unmappedBones: string[] } | null>(null);
+  // イベントハンドラーはマウント時に一度だけ登録するため、最新の状態はrefで参照する
+  const poseRef = useRef<PoseData>(initialPose || MOCK_POSE_DATA);
+  const charactersRef = useRef<EditorCharacter[]>([]);
+  const activeCharacterIdRef = useRef<string>('');
+  const lastEmittedSceneRef = useRef<PoseScene | null>(null);
+  const defaultSceneRef = useRef<PoseScene | null>(null);
+  const isCameraRestoredRef = useRef(false);
+  const isSceneDirtyRef = useRef(false);
+  const onSceneChangeRef = useRef(onSceneChange);
+  onSceneChangeRef.current = onSceneChange;
+  const onSceneCommitRef = useRef(onSceneCommit);
+  onSceneCommitRef.current = onSceneCommit;
+  const onBoneOffsetsChangeRef = useRef(onBoneOffsetsChange);
+  onBoneOffsetsChangeRef.current = onBoneOffsetsChange;
+  const [characters, setCharacters] = useState<SceneCharacter[]>([]);
+  const [activeCharacterId, setActiveCharacterId] = useState<string>('');
+  const draggingBoneRef = useRef<string | null>(null);
+  const ikHandlesRef = useRef<THREE.Mesh[]>([]);
+  const ikHandleGroupRef = useRef<THREE.Group | null>(null);
+  const ikEnabledRef = useRef(false);
+  const ikDragRef = useRef<{ handle: IKHandleName; startPoint: THREE.Vector3; startRootPosition: THREE.Vector3 } | null>(null);
+  const dragPlaneRef = useRef<THREE.Plane>(new THREE.Plane());
+  const footPinsRef = useRef<FootPins>({});
+  const selectedBoneRef = useRef<string | null>(null);
+  const transformControlsRef = useRef<TransformControls | null>(null);
+  const gizmoProxyRef = useRef<THREE.Object3D | null>(null);
+  const isGizmoChangingRef = useRef(false);
+  const gizmoModeRef = useRef<'rotate' | 'translate'>('rotate');
+  const [ikEnabled, setIkEnabled] = useState(false);
+  const [pinnedFeet, setPinnedFeet] = useState<Record<PinnableFoot, boolean>>({ LeftFoot: false, RightFoot: false });
+  const [symmetryEnabled, setSymmetryEnabled] = useState(false);
+  const symmetryEnabledRef = useRef(false);
   const frameRef = useRef<number>();
 
   useEffect(() => {
@@ -108,12 +272,12 @@ export default function PoseEditor({ onPoseChange, initialPose }: PoseEditorProp
 
     // カメラの設定
     const camera = new THREE.PerspectiveCamera(
-      50,
+      DEFAULT_CAMERA_STATE.fov,
       mountRef.current.clientWidth / mountRef.current.clientHeight,
       0.1,
       1000
     );
-    camera.position.set(0, 1.6, 3);
+    camera.position.set(...DEFAULT_CAMERA_STATE.position);
     cameraRef.current = camera;
 
     // レンダラーの設定
@@ -140,15 +304,39 @@ export default function PoseEditor({ onPoseChange, initialPose }: PoseEditorProp
     const gridHelper = new THREE.GridHelper(10, 10, 0x888888, 0xcccccc);
     scene.add(gridHelper);
 
-    // 簡易的な人体モデルの作成（glTFが無い場合のフォールバック）
-    createSimpleHumanModel(scene);
+    createIKHandles(scene);
+
+    // 選択ボーンの回転・移動ギズモ（リグの関節位置に置いたプロキシを操作する）
+    const gizmoProxy = new THREE.Object3D();
+    gizmoProxy.name = 'GizmoProxy';
+    scene.add(gizmoProxy);
+    gizmoProxyRef.current = gizmoProxy;
+
+    const transformControls = new TransformControls(camera, renderer.domElement);
+    transformControls.setMode('rotate');
+    transformControls.setSpace('local');
+    transformControls.setSize(0.6);
+    transformControls.addEventListener('objectChange', onGizmoChange);
+    transformControls.addEventListener('dragging-changed', onGizmoDraggingChanged);
+    scene.add(transformControls.getHelper());
+    transformControlsRef.current = transformControls;
 
     // マウスイベントの設定
+    // ボーンを掴んだ時にオービット操作を止めるため、OrbitControlsより先に登録する
     const canvas = renderer.domElement;
-    canvas.addEventListener('mousedown', onMouseDown);
+    canvas.addEventListener('pointerdown', onMouseDown);
     canvas.addEventListener('mousemove', onMouseMove);
     canvas.addEventListener('mouseup', onMouseUp);
-    canvas.addEventListener('wheel', onWheel);
+
+    // カメラ操作（左ドラッグ: 回転、右ドラッグ: 平行移動、ホイール: ズーム）
+    const orbitControls = new OrbitControls(camera, canvas);
+    orbitControls.target.set(...DEFAULT_CAMERA_STATE.target);
+    orbitControls.update();
+    orbitControls.addEventListener('end', onCameraChangeEnd);
+    controlsRef.current = orbitControls;
+
+    // スキニングされた人体モデルの作成（glTFが無い場合のフォールバック）
+    loadPoseScene(sceneProp || createDefaultScene(), true);
 
     // レンダリングループ
     const animate = () => {
@@ -178,12 +366,18 @@ export default function PoseEditor({ onPoseChange, initialPose }: PoseEditorProp
         cancelAnimationFrame(frameRef.current);
       }
       
-      canvas.removeEventListener('mousedown', onMouseDown);
+      canvas.removeEventListener('pointerdown', onMouseDown);
       canvas.removeEventListener('mousemove', onMouseMove);
       canvas.removeEventListener('mouseup', onMouseUp);
-      canvas.removeEventListener('wheel', onWheel);
       window.removeEventListener('resize', handleResize);
       
+      orbitControls.removeEventListener('end', onCameraChangeEnd);
+      orbitControls.dispose();
+      
+      transformControls.removeEventListener('objectChange', onGizmoChange);
+      transformControls.removeEventListener('dragging-changed', onGizmoDraggingChanged);
+      transformControls.dispose();
+      
       if (mountRef.current && renderer.domElement) {
         mountRef.current.removeChild(renderer.domElement);
       }
@@ -192,128 +386,764 @@ export default function PoseEditor({ onPoseChange, initialPose }: PoseEditorProp
     };
   }, []);
 
-  const createSimpleHumanModel = (scene: THREE.Scene) => {
-    const group = new THREE.Group();
-    group.name = 'HumanModel';
-    
-    // 基本的な人体パーツを作成
-    const parts = {
-      torso: { size: [0.4, 0.8, 0.2], position: [0, 1.2, 0] },
-      head: { size: [0.25, 0.25, 0.25], position: [0, 1.8, 0] },
-      leftArm: { size: [0.1, 0.6, 0.1], position: [-0.3, 1.4, 0] },
-      rightArm: { size: [0.1, 0.6, 0.1], position: [0.3, 1.4, 0] },
-      leftLeg: { size: [0.15, 0.8, 0.15], position: [-0.15, 0.4, 0] },
-      rightLeg: { size: [0.15, 0.8, 0.15], position: [0.15, 0.4, 0] }
-    };
+  // 外部（元に戻す／やり直し、補間、テンプレート）からのシーン変更を反映
+  // カメラが飛ばないよう、保存済みのカメラは再読み込み直後の復元時のみ適用する
+  useEffect(() => {
+    if (sceneProp === undefined || sceneProp === lastEmittedSceneRef.current) return;
+
+    const applyCamera = !isCameraRestoredRef.current && !!sceneProp?.camera;
+    isCameraRestoredRef.current = true;
+    loadPoseScene(sceneProp || createDefaultScene(), applyCamera);
+
+    // 履歴のシーンのカメラは現在の表示と異なる場合があるため、現在のカメラで通知し直す
+    if (!applyCamera) {
+      emitSceneChange();
+    }
+  }, [sceneProp]);
+
+  // アニメーション用の保存済みポーズ一覧（選択時にも読み直す）
+  useEffect(() => {
+    setSavedPoses(SavedPoseManager.getSavedPoses());
+  }, []);
+
+  // 初期シーンは一度だけ作成し、元に戻した時もキャラクターIDを維持する
+  const createDefaultScene = (): PoseScene => {
+    if (!defaultSceneRef.current) {
+      defaultSceneRef.current = createPoseScene([createSceneCharacter(initialPose || MOCK_POSE_DATA, 'キャラクター1')]);
+    }
+    return defaultSceneRef.current;
+  };
 
-    Object.entries(parts).forEach(([name, config]) => {
-      const geometry = new THREE.BoxGeometry(...config.size);
-      const material = new THREE.MeshLambertMaterial({ 
-        color: name === 'head' ? 0xffdbac : 0x4a90e2,
-        transparent: true,
-        opacity: 0.8
+  // キャラクターのリグを作成してシーンに追加
+  const createCharacter = ({ id, name, pose, detectedKeypoints, uncertainBones }: SceneCharacter): EditorCharacter => {
+    const rig = createHumanoidRig();
+    rig.group.userData = { characterId: id };
+    applyPoseToSkeleton(rig.skeleton, pose);
+    sceneRef.current?.add(rig.group);
+
+    if (!mixerRef.current) {
+      mixerRef.current = new THREE.AnimationMixer(rig.group);
+    }
+
+    return { id, name, pose, detectedKeypoints, uncertainBones, rig, model: null };
+  };
+
+  const disposeCharacter = (character: EditorCharacter) => {
+    sceneRef.current?.remove(character.rig.group);
+    character.rig.mesh.geometry.dispose();
+    (character.rig.mesh.material as THREE.Material[]).forEach(material => material.dispose());
+
+    if (character.model) {
+      sceneRef.current?.remove(character.model.group);
+      disposeCharacterModel(character.model);
+    }
+  };
+
+  const applyPoseToCharacter = (character: EditorCharacter) => {
+    if (character.model) {
+      applyPoseToCharacterModel(character.model, character.pose);
+    } else {
+      applyPoseToSkeleton(character.rig.skeleton, character.pose);
+    }
+  };
+
+  const getActiveCharacter = (): EditorCharacter | undefined =>
+    charactersRef.current.find(character => character.id === activeCharacterIdRef.current);
+
+  // キャラクター毎の色分けと、選択中以外のキャラクターの半透明表示
+  const updateCharacterAppearance = () => {
+    charactersRef.current.forEach((character, index) => {
+      const isActive = character.id === activeCharacterIdRef.current;
+      const opacity = isActive ? ACTIVE_CHARACTER_OPACITY : INACTIVE_CHARACTER_OPACITY;
+      const [bodyMaterial, skinMaterial] = character.rig.mesh.material as THREE.MeshLambertMaterial[];
+      bodyMaterial.color.set(getCharacterColor(index));
+      bodyMaterial.opacity = opacity;
+      skinMaterial.opacity = opacity;
+
+      const helpers = character.model ? character.model.boneHelpers : character.rig.boneHelpers;
+      helpers.forEach(helper => {
+        helper.visible = isActive;
       });
-      const mesh = new THREE.Mesh(geometry, material);
-      mesh.position.set(...config.position);
-      mesh.name = name;
-      mesh.castShadow = true;
-      mesh.receiveShadow = true;
-      group.add(mesh);
-
-      // ボーンヘルパーの作成
-      const boneHelper = new THREE.SphereGeometry(0.05, 8, 8);
-      const boneMaterial = new THREE.MeshBasicMaterial({ 
-        color: 0xff0000,
-        transparent: true,
-        opacity: 0.7
+    });
+  };
+
+  // 編集対象のキャラクターを切り替え（既存の編集処理は選択中のキャラクターのrefを参照する）
+  const activateCharacter = (characterId: string) => {
+    const character = charactersRef.current.find(c => c.id === characterId) || charactersRef.current[0];
+    if (!character) return;
+
+    activeCharacterIdRef.current = character.id;
+    setActiveCharacterId(character.id);
+
+    modelRef.current = character.rig.group;
+    skeletonRef.current = character.rig.skeleton;
+    bonesRef.current = character.rig.bones;
+    characterModelRef.current = character.model;
+    boneHelpersRef.current = character.model ? character.model.boneHelpers : character.rig.boneHelpers;
+    setCharacterModel(character.model);
+
+    // 足の固定は選択中のキャラクターにのみ有効
+    footPinsRef.current = {};
+    setPinnedFeet({ LeftFoot: false, RightFoot: false });
+
+    poseRef.current = character.pose;
+    setCurrentPose(character.pose);
+    selectBone(null);
+    updateCharacterAppearance();
+    applyPoseToModel(character.pose);
+  };
+
+  // シーンを読み込み、IDが一致するキャラクターはリグを再利用する
+  const loadPoseScene = (poseScene: PoseScene, applyCamera = false) => {
+    const previous = charactersRef.current;
+    const nextIds = poseScene.characters.map(character => character.id);
+    previous
+      .filter(character => !nextIds.includes(character.id))
+      .forEach(disposeCharacter);
+
+    charactersRef.current = poseScene.characters.map(data => {
+      const existing = previous.find(character => character.id === data.id);
+      const character = existing
+        ? Object.assign(existing, {
+          name: data.name,
+          pose: data.pose,
+          detectedKeypoints: data.detectedKeypoints,
+          uncertainBones: data.uncertainBones
+        })
+        : createCharacter(data);
+      character.rig.group.visible = !character.model;
+      applyPoseToCharacter(character);
+      return character;
+    });
+
+    if (applyCamera && poseScene.camera) {
+      applyCameraState(poseScene.camera);
+    }
+
+    lastEmittedSceneRef.current = poseScene;
+    isSceneDirtyRef.current = false;
+    setCharacters(poseScene.characters);
+    activateCharacter(poseScene.activeCharacterId || nextIds[0]);
+  };
+
+  const buildPoseScene = (): PoseScene =>
+    createPoseScene(
+      charactersRef.current.map(({ id, name, pose, detectedKeypoints, uncertainBones }) => ({
+        id,
+        name,
+        pose,
+        ...(detectedKeypoints && { detectedKeypoints }),
+        ...(uncertainBones && { uncertainBones })
+      })),
+      activeCharacterIdRef.current,
+      getCameraState()
+    );
+
+  const getCameraState = (): CameraState | undefined => {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!camera || !controls) return undefined;
+
+    return {
+      position: camera.position.toArray() as [number, number, number],
+      target: controls.target.toArray() as [number, number, number],
+      fov: camera.fov
+    };
+  };
+
+  const applyCameraState = (state: CameraState) => {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!camera || !controls) return;
+
+    camera.position.set(...state.position);
+    camera.fov = state.fov;
+    camera.updateProjectionMatrix();
+    controls.target.set(...state.target);
+    controls.update();
+    setCameraFov(state.fov);
+  };
+
+  // カメラの変更は履歴に残さず、シーンの通知のみ行う
+  const onCameraChangeEnd = () => {
+    emitSceneChange();
+  };
+
+  const applyCameraPreset = (presetId: CameraPresetId) => {
+    // プリセットは向きのみ変更し、現在の画角を維持する
+    applyCameraState({ ...CAMERA_PRESETS[presetId].camera, fov: cameraRef.current?.fov || DEFAULT_CAMERA_STATE.fov });
+    emitSceneChange();
+  };
+
+  const changeCameraFov = (fov: number) => {
+    const camera = cameraRef.current;
+    if (!camera) return;
+
+    const clamped = Math.min(MAX_CAMERA_FOV, Math.max(MIN_CAMERA_FOV, fov));
+    camera.fov = clamped;
+    camera.updateProjectionMatrix();
+    setCameraFov(clamped);
+    emitSceneChange();
+  };
+
+  // 現在のカメラから全キャラクターを条件画像として描画（ボーンヘルパーは写さない）
+  const renderCurrentConditioningMap = (): string | null => {
+    const renderer = rendererRef.current;
+    const scene = sceneRef.current;
+    const camera = cameraRef.current;
+    if (!renderer || !scene || !camera) return null;
+
+    try {
+      return renderConditioningMap({
+        renderer,
+        scene,
+        camera,
+        targets: charactersRef.current.flatMap(character =>
+          character.model ? [character.model.group] : [character.rig.group]
+        ),
+        exclude: charactersRef.current.flatMap(character => [
+          ...character.rig.boneHelpers,
+          ...(character.model ? character.model.boneHelpers : [])
+        ]),
+        type: conditioningMapType,
+        size: conditioningMapSize
       });
-      const boneMesh = new THREE.Mesh(boneHelper, boneMaterial);
-      boneMesh.position.copy(mesh.position);
-      boneMesh.name = `${name}_bone`;
-      boneMesh.userData = { boneName: name, originalMesh: mesh };
-      group.add(boneMesh);
-      boneHelpersRef.current.push(boneMesh);
+    } catch (error) {
+      console.error('Failed to render conditioning map:', error);
+      alert('画像の作成に失敗しました');
+      return null;
+    }
+  };
+
+  const downloadConditioningMap = () => {
+    const image = renderCurrentConditioningMap();
+    if (image) {
+      downloadImage(image, `${conditioningMapType}-${conditioningMapSize}px-${Date.now()}.png`);
+    }
+  };
+
+  const attachConditioningMap = () => {
+    const image = renderCurrentConditioningMap();
+    if (image) {
+      onAttachConditioningMap?.(conditioningMapType, image);
+    }
+  };
+
+  // シーンの変化を通知（履歴への記録は commitScene で行う）
+  const emitSceneChange = () => {
+    const poseScene = buildPoseScene();
+    lastEmittedSceneRef.current = poseScene;
+    setCharacters(poseScene.characters);
+    onSceneChangeRef.current?.(poseScene);
+  };
+
+  const createIKHandles = (scene: THREE.Scene) => {
+    const group = new THREE.Group();
+    group.name = 'IKHandles';
+    group.visible = ikEnabledRef.current;
+
+    const handleNames: IKHandleName[] = [...IK_EFFECTORS, 'Hips'];
+    ikHandlesRef.current = handleNames.map(name => {
+      const handle = new THREE.Mesh(
+        new THREE.OctahedronGeometry(name === 'Hips' ? 0.07 : 0.05),
+        new THREE.MeshBasicMaterial({
+          color: IK_HANDLE_COLOR,
+          transparent: true,
+          opacity: 0.8,
+          depthTest: false
+        })
+      );
+      handle.name = `${name}_ik`;
+      handle.renderOrder = 2;
+      handle.userData = { ikHandle: name };
+      group.add(handle);
+      return handle;
     });
 
-    modelRef.current = group;
+    ikHandleGroupRef.current = group;
     scene.add(group);
+    updateIKHandles(poseRef.current);
+  };
+
+  // 読み込んだモデルがある場合は、関節の位置をモデルの体型で計算する
+  const getBoneOffsets = (): BoneOffsets | undefined => characterModelRef.current?.boneOffsets;
+  const getIKOptions = (): IKOptions => ({ boneOffsets: getBoneOffsets() });
+
+  // IKハンドルを現在のポーズの関節位置に移動
+  const updateIKHandles = (poseData: PoseData) => {
+    const transforms = computeJointTransforms(poseData, getBoneOffsets());
+    ikHandlesRef.current.forEach(handle => {
+      handle.position.copy(transforms[handle.userData.ikHandle].position);
+    });
+  };
+
+  const highlightIKHandle = (name: IKHandleName | null) => {
+    ikHandlesRef.current.forEach(handle => {
+      const material = handle.material as THREE.MeshBasicMaterial;
+      material.color.setHex(handle.userData.ikHandle === name ? IK_HANDLE_ACTIVE_COLOR : IK_HANDLE_COLOR);
+    });
+  };
+
+  // 指定したボーンを含む脚以外の固定ピンを取得
+  const getFootPinsExcept = (boneNames: string[]): FootPins => {
+    const pins: FootPins = {};
+    (Object.keys(footPinsRef.current) as PinnableFoot[]).forEach(foot => {
+      const chainBones = [...IK_CHAINS[foot].joints, foot];
+      if (!chainBones.some(boneName => boneNames.includes(boneName))) {
+        pins[foot] = footPinsRef.current[foot];
+      }
+    });
+    return pins;
+  };
+
+  const toggleIK = (enabled: boolean) => {
+    ikEnabledRef.current = enabled;
+    setIkEnabled(enabled);
+    if (ikHandleGroupRef.current) {
+      ikHandleGroupRef.current.visible = enabled;
+    }
+  };
+
+  // 足を現在の位置に固定（腰を動かしても接地位置を保つ）
+  const toggleFootPin = (foot: PinnableFoot, pinned: boolean) => {
+    if (pinned) {
+      footPinsRef.current[foot] = computeJointTransforms(poseRef.current, getBoneOffsets())[foot].position.clone();
+    } else {
+      delete footPinsRef.current[foot];
+    }
+    setPinnedFeet(prev => ({ ...prev, [foot]: pinned }));
+  };
+
+  const toggleSymmetry = (enabled: boolean) => {
+    symmetryEnabledRef.current = enabled;
+    setSymmetryEnabled(enabled);
+  };
+
+  // シンメトリー編集中は、操作した側のボーンを反対側へ反映
+  const applySymmetry = (poseData: PoseData, boneName: string): PoseData => {
+    if (!symmetryEnabledRef.current) return poseData;
+    if (boneName.startsWith('Left')) return mirrorPose(poseData, 'leftToRight');
+    if (boneName.startsWith('Right')) return mirrorPose(poseData, 'rightToLeft');
+    return poseData;
+  };
+
+  // 可動域外の関節をすべて補正
+  const fixJointLimitViolations = () => {
+    const newPose = clampPose(poseRef.current);
+    applyPoseToModel(newPose);
+    updatePose(newPose);
+    commitScene();
+  };
+
+  const setHandShape = (side: HandSide, shape: HandShape) => {
+    const newPose = applyHandShape(poseRef.current, side, shape);
+    applyPoseToModel(newPose);
+    updatePose(newPose);
+    commitScene();
+  };
+
+  const mirrorCurrentPose = (mode: MirrorMode) => {
+    const newPose = mirrorPose(poseRef.current, mode);
+
+    // 固定中の足は反転後の位置で固定し直す
+    const transforms = computeJointTransforms(newPose, getBoneOffsets());
+    (Object.keys(footPinsRef.current) as PinnableFoot[]).forEach(foot => {
+      footPinsRef.current[foot] = transforms[foot].position.clone();
+    });
+
+    applyPoseToModel(newPose);
+    updatePose(newPose);
+    commitScene();
+  };
+
+  // ボーンを選択し、ギズモをその関節に表示
+  const selectBone = (boneName: string | null) => {
+    selectedBoneRef.current = boneName;
+    setSelectedBone(boneName);
+    highlightBone(boneName);
+
+    const controls = transformControlsRef.current;
+    if (!controls || !gizmoProxyRef.current) return;
+
+    if (boneName) {
+      controls.setMode(boneName === 'Root' ? gizmoModeRef.current : 'rotate');
+      syncGizmo(poseRef.current);
+      controls.attach(gizmoProxyRef.current);
+    } else {
+      controls.detach();
+    }
+  };
+
+  const changeGizmoMode = (mode: 'rotate' | 'translate') => {
+    gizmoModeRef.current = mode;
+    setGizmoMode(mode);
+    if (selectedBoneRef.current === 'Root') {
+      transformControlsRef.current?.setMode(mode);
+    }
+  };
+
+  // ギズモのプロキシを選択ボーンのワールド位置・回転に合わせる
+  const syncGizmo = (poseData: PoseData) => {
+    const boneName = selectedBoneRef.current;
+    const proxy = gizmoProxyRef.current;
+    if (!boneName || !proxy || isGizmoChangingRef.current) return;
+
+    const transform = computeJointTransforms(poseData, getBoneOffsets())[boneName];
+    if (!transform) return;
+
+    proxy.position.copy(transform.position);
+    proxy.quaternion.copy(transform.quaternion);
+  };
+
+  // ギズモ操作をポーズデータ（親ボーン基準の回転）に変換
+  const onGizmoChange = () => {
+    const boneName = selectedBoneRef.current;
+    const proxy = gizmoProxyRef.current;
+    if (!boneName || !proxy) return;
+
+    let newPose = { ...poseRef.current };
+
+    if (boneName === 'Root') {
+      const euler = new THREE.Euler().setFromQuaternion(proxy.quaternion);
+      newPose['Root'] = {
+        rotation: [euler.x, euler.y, euler.z],
+        position: [proxy.position.x, proxy.position.y, proxy.position.z]
+      };
+    } else {
+      const parentName = HUMANOID_BONES.find(bone => bone.name === boneName)?.parent;
+      if (!parentName) return;
+
+      const parentQuaternion = computeJointTransforms(poseRef.current)[parentName].quaternion;
+      const localQuaternion = parentQuaternion.clone().invert().multiply(proxy.quaternion);
+      const euler = new THREE.Euler().setFromQuaternion(localQuaternion);
+      newPose[boneName] = { ...newPose[boneName], rotation: clampRotation(boneName, [euler.x, euler.y, euler.z]) };
+    }
+
+    newPose = applySymmetry(newPose, boneName);
+    newPose = applyFootPins(newPose, getFootPinsExcept([boneName]), getIKOptions());
+
+    isGizmoChangingRef.current = true;
+    applyPoseToModel(newPose);
+    isGizmoChangingRef.current = false;
+    updatePose(newPose);
+  };
+
+  // ギズモのドラッグ終了で1回の操作として確定
+  const onGizmoDraggingChanged = (event: { value: unknown }) => {
+    if (!event.value) {
+      commitScene();
+    }
+  };
+
+  // 数値入力パネルからの回転変更
+  const setBoneRotation = (boneName: string, rotation: [number, number, number]) => {
+    let newPose = { ...poseRef.current };
+    newPose[boneName] = { ...newPose[boneName], rotation: clampRotation(boneName, rotation) };
+    newPose = applySymmetry(newPose, boneName);
+    newPose = applyFootPins(newPose, getFootPinsExcept([boneName]), getIKOptions());
+    applyPoseToModel(newPose);
+    updatePose(newPose);
+    commitScene({ mergeKey: `panel:${boneName}` });
+  };
+
+  const setRootPosition = (position: [number, number, number]) => {
+    let newPose = { ...poseRef.current };
+    newPose['Root'] = { rotation: newPose['Root']?.rotation || [0, 0, 0], position };
+    newPose = applyFootPins(newPose, getFootPinsExcept(['Root']), getIKOptions());
+    applyPoseToModel(newPose);
+    updatePose(newPose);
+    commitScene({ mergeKey: 'panel:Root' });
+  };
+
+  const highlightBone = (boneName: string | null) => {
+    const uncertainBones = getActiveCharacter()?.uncertainBones || [];
+    boneHelpersRef.current.forEach(helper => {
+      const material = helper.material as THREE.MeshBasicMaterial;
+      const helperBone = helper.userData.boneName;
+      material.color.setHex(
+        helperBone === boneName
+          ? BONE_HELPER_SELECTED_COLOR
+          : uncertainBones.includes(helperBone) ? BONE_HELPER_UNCERTAIN_COLOR : BONE_HELPER_COLOR
+      );
+    });
+  };
+
+  // 写真から推定できなかったボーンの表示を解除（調整が済んだ後）
+  const clearUncertainBones = () => {
+    const character = getActiveCharacter();
+    if (!character?.uncertainBones) return;
+
+    character.uncertainBones = undefined;
+    highlightBone(selectedBoneRef.current);
+    isSceneDirtyRef.current = true;
+    emitSceneChange();
+    commitScene();
+  };
+
+  const updatePose = (newPose: PoseData) => {
+    poseRef.current = newPose;
+    setCurrentPose(newPose);
+
+    const character = getActiveCharacter();
+    if (character) {
+      character.pose = newPose;
+      isSceneDirtyRef.current = true;
+      emitSceneChange();
+    }
+
+    if (onPoseChange) {
+      onPoseChange(newPose);
+    }
+  };
+
+  // 操作を確定して履歴に記録（変化が無い場合は記録しない）
+  const commitScene = (options?: PoseHistoryPushOptions) => {
+    if (!isSceneDirtyRef.current || !lastEmittedSceneRef.current) return;
+
+    isSceneDirtyRef.current = false;
+    onSceneCommitRef.current?.(lastEmittedSceneRef.current, options);
+  };
+
+  // キャラクターの追加・複製・削除（いずれも1回の操作として履歴に記録）
+  const addSceneCharacter = (data: SceneCharacter) => {
+    charactersRef.current = [...charactersRef.current, createCharacter(data)];
+    activateCharacter(data.id);
+    isSceneDirtyRef.current = true;
+    emitSceneChange();
+    commitScene();
+  };
+
+  const addCharacter = () => {
+    if (charactersRef.current.length >= MAX_SCENE_CHARACTERS) return;
+
+    const pose = setCharacterPosition(MOCK_POSE_DATA, findFreeCharacterPosition(buildPoseScene()));
+    addSceneCharacter(createSceneCharacter(pose, `キャラクター${charactersRef.current.length + 1}`));
+  };
+
+  const duplicateCharacter = () => {
+    const active = getActiveCharacter();
+    if (!active || charactersRef.current.length >= MAX_SCENE_CHARACTERS) return;
+
+    const pose = setCharacterPosition(active.pose, findFreeCharacterPosition(buildPoseScene()));
+    addSceneCharacter(createSceneCharacter(pose, `${active.name}のコピー`));
+  };
+
+  const removeActiveCharacter = () => {
+    const active = getActiveCharacter();
+    if (!active || charactersRef.current.length <= 1) return;
+
+    disposeCharacter(active);
+    charactersRef.current = charactersRef.current.filter(character => character !== active);
+    activateCharacter(charactersRef.current[0].id);
+    isSceneDirtyRef.current = true;
+    emitSceneChange();
+    commitScene();
+  };
+
+  const selectCharacter = (characterId: string) => {
+    if (characterId === activeCharacterIdRef.current) return;
+    activateCharacter(characterId);
+    emitSceneChange();
+  };
+
+  // 選択中のキャラクターを床の上で移動（X: 左右、Z: 前後）
+  const setActiveCharacterPosition = (axis: 0 | 2, value: number) => {
+    const position = [...getCharacterPosition(poseRef.current)] as [number, number, number];
+    position[axis] = value;
+
+    const newPose = setCharacterPosition(poseRef.current, position);
+    applyPoseToModel(newPose);
+    updatePose(newPose);
+    commitScene({ mergeKey: `character:${activeCharacterIdRef.current}:position` });
+  };
+
+  // 選択中以外のキャラクターのクリック判定
+  const pickInactiveCharacter = (): string | null => {
+    const targets = charactersRef.current
+      .filter(character => character.id !== activeCharacterIdRef.current)
+      .map(character => character.model ? character.model.group : character.rig.group);
+
+    // スキンメッシュの判定範囲を現在のポーズに合わせる
+    targets.forEach(target => target.traverse(object => {
+      if (object instanceof THREE.SkinnedMesh) {
+        object.computeBoundingSphere();
+      }
+    }));
+
+    const hits = raycasterRef.current.intersectObjects(targets, true);
+    for (const hit of hits) {
+      let object: THREE.Object3D | null = hit.object;
+      while (object) {
+        if (object.userData.characterId) return object.userData.characterId as string;
+        object = object.parent;
+      }
+    }
+
+    return null;
+  };
+
+  // ボーンやハンドルを掴んでいる間はカメラを動かさない
+  const setOrbitEnabled = (enabled: boolean) => {
+    if (controlsRef.current) {
+      controlsRef.current.enabled = enabled;
+    }
   };
 
   const onMouseDown = (event: MouseEvent) => {
     if (!mountRef.current || !cameraRef.current || !sceneRef.current) return;
+
+    // 右ドラッグ（平行移動）やホイールクリックはカメラ操作のみ
+    if (event.button !== 0) return;
+
+    // ギズモ操作中はボーン選択を行わない
+    const transformControls = transformControlsRef.current;
+    if (transformControls && (transformControls.dragging || transformControls.axis)) {
+      setOrbitEnabled(false);
+      return;
+    }
     
     const rect = mountRef.current.getBoundingClientRect();
     mouseRef.current.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
     mouseRef.current.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
 
     raycasterRef.current.setFromCamera(mouseRef.current, cameraRef.current);
+
+    // IKハンドルを優先して判定
+    if (ikEnabledRef.current) {
+      const handleHits = raycasterRef.current.intersectObjects(ikHandlesRef.current);
+      if (handleHits.length > 0) {
+        const handle = handleHits[0].object;
+        const handleName = handle.userData.ikHandle as IKHandleName;
+        const rootPosition = poseRef.current['Root']?.position || [0, 0, 0];
+
+        // カメラに正対する平面上でドラッグする
+        const normal = cameraRef.current.getWorldDirection(new THREE.Vector3());
+        dragPlaneRef.current.setFromNormalAndCoplanarPoint(normal, handle.position);
+        ikDragRef.current = {
+          handle: handleName,
+          startPoint: handle.position.clone(),
+          startRootPosition: new THREE.Vector3(...rootPosition)
+        };
+        selectBone(handleName === 'Hips' ? 'Root' : handleName);
+        highlightIKHandle(handleName);
+        setOrbitEnabled(false);
+        return;
+      }
+    }
+
     const intersects = raycasterRef.current.intersectObjects(boneHelpersRef.current);
 
     if (intersects.length > 0) {
-      const selectedObject = intersects[0].object;
-      setSelectedBone(selectedObject as any);
-      setIsDragging(true);
+      const boneName = intersects[0].object.userData.boneName as string;
+      draggingBoneRef.current = boneName;
+      setOrbitEnabled(false);
       
       // 選択されたボーンをハイライト
-      boneHelpersRef.current.forEach(helper => {
-        const material = helper.material as THREE.MeshBasicMaterial;
-        material.color.setHex(helper === selectedObject ? 0x00ff00 : 0xff0000);
-      });
+      selectBone(boneName);
+    } else {
+      // 他のキャラクターをクリックしたら編集対象を切り替え、何も無い場所なら選択解除
+      const characterId = pickInactiveCharacter();
+      if (characterId) {
+        selectCharacter(characterId);
+        setOrbitEnabled(false);
+      } else {
+        selectBone(null);
+      }
+    }
+  };
+
+  const onIKHandleDrag = (event: MouseEvent) => {
+    const drag = ikDragRef.current;
+    if (!drag || !mountRef.current || !cameraRef.current) return;
+
+    const rect = mountRef.current.getBoundingClientRect();
+    mouseRef.current.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+    mouseRef.current.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+    raycasterRef.current.setFromCamera(mouseRef.current, cameraRef.current);
+
+    const target = raycasterRef.current.ray.intersectPlane(dragPlaneRef.current, new THREE.Vector3());
+    if (!target) return;
+
+    let newPose: PoseData;
+    if (drag.handle === 'Hips') {
+      const rootPosition = drag.startRootPosition.clone().add(target.clone().sub(drag.startPoint));
+      newPose = {
+        ...poseRef.current,
+        Root: {
+          rotation: poseRef.current['Root']?.rotation || [0, 0, 0],
+          position: [rootPosition.x, rootPosition.y, rootPosition.z]
+        }
+      };
+    } else {
+      newPose = applySymmetry(solveIK(poseRef.current, drag.handle, target, getIKOptions()), drag.handle);
+
+      // 固定中の足を動かした場合は固定位置も更新
+      if (drag.handle === 'LeftFoot' || drag.handle === 'RightFoot') {
+        if (footPinsRef.current[drag.handle]) {
+          footPinsRef.current[drag.handle] = target.clone();
+        }
+      }
     }
+
+    newPose = applyFootPins(newPose, getFootPinsExcept([drag.handle]), getIKOptions());
+    applyPoseToModel(newPose);
+    updatePose(newPose);
   };
 
   const onMouseMove = (event: MouseEvent) => {
-    if (!isDragging || !selectedBone || !mountRef.current || !cameraRef.current) return;
+    if (ikDragRef.current) {
+      onIKHandleDrag(event);
+      return;
+    }
+
+    const boneName = draggingBoneRef.current;
+    if (!boneName || !mountRef.current || !cameraRef.current) return;
     
     const rect = mountRef.current.getBoundingClientRect();
     const deltaX = (event.movementX / rect.width) * 4;
     const deltaY = (event.movementY / rect.height) * 4;
 
-    // 簡単な回転制御
-    const boneName = selectedBone.userData.boneName;
-    const originalMesh = selectedBone.userData.originalMesh;
+    // 親ボーン基準で回転させるため、子ボーンも一緒に動く
+    const [x, y, z] = poseRef.current[boneName]?.rotation || [0, 0, 0];
     
-    if (originalMesh) {
-      originalMesh.rotation.y += deltaX;
-      originalMesh.rotation.x -= deltaY;
-      
-      // ポーズデータの更新
-      const newPose = { ...currentPose };
-      newPose[boneName] = {
-        rotation: [originalMesh.rotation.x, originalMesh.rotation.y, originalMesh.rotation.z]
-      };
-      setCurrentPose(newPose);
-      
-      if (onPoseChange) {
-        onPoseChange(newPose);
-      }
-    }
+    // ポーズデータの更新
+    let newPose = { ...poseRef.current };
+    newPose[boneName] = {
+      ...newPose[boneName],
+      rotation: clampRotation(boneName, [x - deltaY, y + deltaX, z])
+    };
+    newPose = applySymmetry(newPose, boneName);
+    newPose = applyFootPins(newPose, getFootPinsExcept([boneName]), getIKOptions());
+    applyPoseToModel(newPose);
+    updatePose(newPose);
   };
 
   const onMouseUp = () => {
-    setIsDragging(false);
-    setSelectedBone(null);
-    
-    // すべてのボーンヘルパーの色をリセット
-    boneHelpersRef.current.forEach(helper => {
-      const material = helper.material as THREE.MeshBasicMaterial;
-      material.color.setHex(0xff0000);
-    });
-  };
+    if (draggingBoneRef.current || ikDragRef.current) {
+      commitScene();
+    }
 
-  const onWheel = (event: WheelEvent) => {
-    event.preventDefault();
-    if (!cameraRef.current) return;
+    draggingBoneRef.current = null;
+    ikDragRef.current = null;
+    setOrbitEnabled(true);
     
-    const delta = event.deltaY * 0.001;
-    cameraRef.current.position.multiplyScalar(1 + delta);
+    // IKハンドルの色をリセット（ボーンの選択状態は維持）
+    highlightIKHandle(null);
   };
 
   const exportPose = () => {
-    const dataStr = JSON.stringify(currentPose, null, 2);
+    downloadJson(createPoseDocument(currentPose), 'pose.json');
+  };
+
+  // 全キャラクターのポーズをシーン形式で書き出し
+  const exportScene = () => {
+    downloadJson(buildPoseScene(), 'scene.json');
+  };
+
+  const downloadJson = (data: unknown, exportFileDefaultName: string) => {
+    const dataStr = JSON.stringify(data, null, 2);
     const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
     
-    const exportFileDefaultName = 'pose.json';
     const linkElement = document.createElement('a');
     linkElement.setAttribute('href', dataUri);
     linkElement.setAttribute('download', exportFileDefaultName);
@@ -327,12 +1157,27 @@ export default function PoseEditor({ onPoseChange, initialPose }: PoseEditorProp
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const poseData = JSON.parse(e.target?.result as string);
-        setCurrentPose(poseData);
-        applyPoseToModel(poseData);
-        if (onPoseChange) {
-          onPoseChange(poseData);
+        const data = JSON.parse(e.target?.result as string);
+
+        // シーン形式の場合はキャラクター構成ごと読み込む
+        if (isPoseScene(data)) {
+          loadPoseScene(migratePoseScene(data), true);
+          isSceneDirtyRef.current = true;
+          emitSceneChange();
+          commitScene();
+          return;
+        }
+
+        // 旧形式のポーズファイルは読み込み時に変換する
+        const { bones } = migratePoseDocument(data);
+        if (Object.keys(bones).length === 0) {
+          alert('このファイルには3Dポーズが含まれていません');
+          return;
         }
+
+        applyPoseToModel(bones);
+        updatePose(bones);
+        commitScene();
       } catch (error) {
         console.error('Error parsing pose file:', error);
         alert('無効なポーズファイルです');
@@ -341,37 +1186,421 @@ export default function PoseEditor({ onPoseChange, initialPose }: PoseEditorProp
     reader.readAsText(file);
   };
 
-  const applyPoseToModel = (poseData: PoseData) => {
-    if (!modelRef.current) return;
-    
-    Object.entries(poseData).forEach(([boneName, data]) => {
-      const mesh = modelRef.current?.getObjectByName(boneName);
-      if (mesh && data.rotation) {
-        mesh.rotation.set(data.rotation[0], data.rotation[1], data.rotation[2]);
+  // 選択中のキャラクターを現在のポーズで.glbとして書き出し（ポーズの列があればアニメーションも含める）
+  const exportGlb = async () => {
+    const character = getActiveCharacter();
+    if (!character) return;
+
+    const basePose = poseRef.current;
+    const applyPose = (pose: PoseData) => {
+      if (character.model) {
+        applyPoseToCharacterModel(character.model, pose);
+      } else {
+        applyPoseToSkeleton(character.rig.skeleton, pose);
       }
-      if (mesh && data.position) {
-        mesh.position.set(data.position[0], data.position[1], data.position[2]);
+    };
+
+    // 保存済みポーズに含まれないボーンは現在のポーズのままにする
+    const keyPoses = animationPoseIds
+      .map(poseId => SavedPoseManager.getPoseById(poseId)?.poseData)
+      .filter((pose): pose is NonNullable<typeof pose> => !!pose);
+    const frames = keyPoses.length >= 2
+      ? samplePoseSequence(keyPoses, animationDuration, animationFps).map(frame => ({ ...basePose, ...fromInterpolationPose(frame) }))
+      : [];
+
+    setIsExportingGlb(true);
+    try {
+      const glb = await exportPoseGlb({
+        root: character.model ? character.model.group : character.rig.group,
+        exclude: [...character.rig.boneHelpers, ...(character.model ? character.model.boneHelpers : [])],
+        opaque: !character.model,
+        restorePose: basePose,
+        animation: frames.length > 0 ? { name: 'PoseTransition', frames, fps: animationFps, applyPose } : undefined
+      });
+
+      const url = URL.createObjectURL(new Blob([glb], { type: 'model/gltf-binary' }));
+      const linkElement = document.createElement('a');
+      linkElement.setAttribute('href', url);
+      linkElement.setAttribute('download', 'pose.glb');
+      linkElement.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting glTF:', error);
+      alert('glTFの書き出しに失敗しました');
+    } finally {
+      setIsExportingGlb(false);
+    }
+  };
+
+  // MMDのポーズファイル（.vpd）として書き出し
+  const exportVpd = () => {
+    const character = charactersRef.current.find(({ id }) => id === activeCharacterIdRef.current);
+    const { file, unmappedBones } = poseToVpd(currentPose, character?.name || 'pose');
+    const blob = new Blob([encodeVpd(formatVpd(file))], { type: 'application/octet-stream' });
+    const url = URL.createObjectURL(blob);
+
+    const linkElement = document.createElement('a');
+    linkElement.setAttribute('href', url);
+    linkElement.setAttribute('download', 'pose.vpd');
+    linkElement.click();
+    URL.revokeObjectURL(url);
+
+    setVpdReport(unmappedBones.length > 0 ? { action: 'export', unmappedBones } : null);
+  };
+
+  const importVpd = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    // 同じファイルを続けて選択できるようにする
+    event.target.value = '';
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const { pose, unmappedBones } = vpdToPose(parseVpd(decodeVpd(e.target?.result as ArrayBuffer)));
+
+        applyPoseToModel(pose);
+        updatePose(pose);
+        commitScene();
+        setVpdReport(unmappedBones.length > 0 ? { action: 'import', unmappedBones } : null);
+      } catch (error) {
+        console.error('Error parsing VPD file:', error);
+        alert(error instanceof Error ? error.message : '無効なVPDファイルです');
       }
-    });
+    };
+    reader.readAsArrayBuffer(file);
+  };
+
+  const applyPoseToModel = (poseData: PoseData) => {
+    if (characterModelRef.current) {
+      applyPoseToCharacterModel(characterModelRef.current, poseData);
+    } else if (skeletonRef.current) {
+      applyPoseToSkeleton(skeletonRef.current, poseData);
+    }
+    updateIKHandles(poseData);
+    syncGizmo(poseData);
   };
 
   const resetPose = () => {
-    setCurrentPose(MOCK_POSE_DATA);
     applyPoseToModel(MOCK_POSE_DATA);
-    if (onPoseChange) {
-      onPoseChange(MOCK_POSE_DATA);
+    updatePose(MOCK_POSE_DATA);
+    commitScene();
+  };
+
+  // モデルを読み込んだキャラクターの体型を通知（2Dキーポイントの投影に使う）
+  const emitBoneOffsets = () => {
+    const boneOffsets: Record<string, BoneOffsets> = {};
+    charactersRef.current.forEach(character => {
+      if (character.model) {
+        boneOffsets[character.id] = character.model.boneOffsets;
+      }
+    });
+    onBoneOffsetsChangeRef.current?.(boneOffsets);
+  };
+
+  // 読み込んだキャラクターモデルを表示し、内蔵リグを隠す
+  // モデルは選択中のキャラクターに割り当てる
+  const activateCharacterModel = (model: LoadedCharacterModel | null) => {
+    const character = getActiveCharacter();
+    if (!character) return;
+
+    if (character.model && character.model !== model) {
+      disposeCharacterModel(character.model);
+    }
+
+    character.model = model;
+    characterModelRef.current = model;
+    setCharacterModel(model);
+    character.rig.group.visible = !model;
+
+    if (model) {
+      model.group.userData.characterId = character.id;
+      sceneRef.current?.add(model.group);
+      boneHelpersRef.current = model.boneHelpers;
+    } else {
+      boneHelpersRef.current = character.rig.boneHelpers;
+    }
+
+    updateCharacterAppearance();
+    applyPoseToModel(poseRef.current);
+    emitBoneOffsets();
+  };
+
+  const loadModelFile = async (file: File) => {
+    setIsLoadingModel(true);
+    setModelError(null);
+
+    try {
+      const model = await loadCharacterModel(file);
+      activateCharacterModel(model);
+    } catch (error) {
+      console.error('Error loading character model:', error);
+      setModelError(error instanceof Error ? error.message : 'モデルの読み込みに失敗しました');
+    } finally {
+      setIsLoadingModel(false);
+    }
+  };
+
+  const handleModelFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      loadModelFile(file);
     }
+    event.target.value = '';
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragOver(false);
+
+    const file = event.dataTransfer.files?.[0];
+    if (file) {
+      loadModelFile(file);
+    }
+  };
+
+  // 未マッピングのボーンを手動で割り当て、モデル毎に保存
+  const handleBoneMappingChange = (poseBoneName: string, nodeName: string) => {
+    const model = characterModelRef.current;
+    if (!model) return;
+
+    const mapping = { ...model.mapping };
+    if (nodeName) {
+      mapping[poseBoneName] = nodeName;
+    } else {
+      delete mapping[poseBoneName];
+    }
+
+    model.mapping = mapping;
+    rebuildModelBoneHelpers(model);
+    BoneMappingManager.saveMapping(model.key, mapping);
+    activateCharacterModel(model);
+    setCharacterModel({ ...model });
+  };
+
+  const resetBoneMapping = () => {
+    const model = characterModelRef.current;
+    if (!model) return;
+
+    BoneMappingManager.deleteMapping(model.key);
+    alert('保存済みのボーン対応を削除しました。モデルを再読み込みすると自動推定からやり直せます。');
   };
 
+  const jointLimitViolations = validatePose(currentPose);
+  const [characterX, , characterZ] = getCharacterPosition(currentPose);
+  const activeUncertainBones = characters.find(character => character.id === activeCharacterId)?.uncertainBones || [];
+
   return (
     <div className="w-full h-full">
+      <div className="relative">
       <div 
         ref={mountRef} 
-        className="w-full h-96 border rounded-lg bg-gray-100 cursor-grab active:cursor-grabbing"
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragOver(true);
+        }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+        className={`w-full h-96 border rounded-lg bg-gray-100 cursor-grab active:cursor-grabbing ${
+          isDragOver ? 'ring-4 ring-blue-400' : ''
+        }`}
         style={{ minHeight: '400px' }}
       />
       
-      <div className="mt-4 flex flex-wrap gap-2">
+      {selectedBone && (
+        <div className="absolute top-2 right-2 w-56">
+          <BoneTransformPanel
+            boneName={selectedBone}
+            pose={currentPose}
+            onRotationChange={setBoneRotation}
+            onPositionChange={selectedBone === 'Root' ? setRootPosition : undefined}
+            gizmoMode={gizmoMode}
+            onGizmoModeChange={changeGizmoMode}
+            onClose={() => selectBone(null)}
+          />
+        </div>
+      )}
+      </div>
+      
+      <p className="mt-2 text-xs text-gray-500">
+        {isLoadingModel
+          ? 'モデルを読み込み中...'
+          : '.glb / .vrm ファイルをビューにドロップするとキャラクターモデルを読み込めます'}
+      </p>
+      
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <select
+          value=""
+          onChange={(e) => applyCameraPreset(e.target.value as CameraPresetId)}
+          className="px-3 py-2 border border-gray-300 rounded"
+        >
+          <option value="" disabled>カメラの向き...</option>
+          {(Object.keys(CAMERA_PRESETS) as CameraPresetId[]).map(presetId => (
+            <option key={presetId} value={presetId}>{CAMERA_PRESETS[presetId].label}</option>
+          ))}
+        </select>
+        
+        <label className="flex items-center space-x-2">
+          <span>画角</span>
+          <input
+            type="range"
+            min={MIN_CAMERA_FOV}
+            max={MAX_CAMERA_FOV}
+            step={1}
+            value={Math.round(cameraFov)}
+            onChange={(e) => changeCameraFov(parseFloat(e.target.value))}
+          />
+          <span className="w-10 text-right">{Math.round(cameraFov)}°</span>
+        </label>
+        
+        <label className="flex items-center space-x-1">
+          <span>焦点距離</span>
+          <input
+            type="number"
+            min={10}
+            max={300}
+            step={1}
+            value={Math.round(fovToFocalLength(cameraFov))}
+            onChange={(e) => {
+              const focalLength = parseFloat(e.target.value);
+              if (focalLength > 0) changeCameraFov(focalLengthToFov(focalLength));
+            }}
+            className="w-20 border border-gray-300 rounded px-2 py-1"
+          />
+          <span>mm</span>
+        </label>
+      </div>
+      
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <select
+          value={conditioningMapType}
+          onChange={(e) => setConditioningMapType(e.target.value as ConditioningMapType)}
+          className="px-3 py-2 border border-gray-300 rounded"
+        >
+          {CONDITIONING_MAP_TYPES.map(type => (
+            <option key={type} value={type}>{CONDITIONING_MAP_LABELS[type]}</option>
+          ))}
+        </select>
+        
+        <select
+          value={conditioningMapSize}
+          onChange={(e) => setConditioningMapSize(parseInt(e.target.value))}
+          className="px-3 py-2 border border-gray-300 rounded"
+        >
+          {CONDITIONING_MAP_RESOLUTIONS.map(size => (
+            <option key={size} value={size}>{size}px</option>
+          ))}
+        </select>
+        
+        <button
+          onClick={downloadConditioningMap}
+          className="px-3 py-2 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+        >
+          PNGをダウンロード
+        </button>
+        
+        {onAttachConditioningMap && (
+          <button
+            onClick={attachConditioningMap}
+            className="px-3 py-2 bg-blue-100 text-blue-800 rounded hover:bg-blue-200 transition-colors"
+          >
+            生成に添付
+          </button>
+        )}
+      </div>
+      
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        {characters.map((character, index) => (
+          <button
+            key={character.id}
+            onClick={() => selectCharacter(character.id)}
+            className={`flex items-center space-x-2 px-3 py-2 border rounded text-sm transition-colors ${
+              character.id === activeCharacterId
+                ? 'border-blue-500 bg-blue-50 text-blue-900'
+                : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <span
+              className="inline-block w-3 h-3 rounded-full"
+              style={{ backgroundColor: getCharacterColor(index) }}
+            />
+            <SafePrompt>{character.name}</SafePrompt>
+          </button>
+        ))}
+        
+        <button
+          onClick={addCharacter}
+          disabled={characters.length >= MAX_SCENE_CHARACTERS}
+          className="px-3 py-2 border border-gray-300 text-sm text-gray-700 rounded hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          ＋追加
+        </button>
+        <button
+          onClick={duplicateCharacter}
+          disabled={characters.length >= MAX_SCENE_CHARACTERS}
+          className="px-3 py-2 border border-gray-300 text-sm text-gray-700 rounded hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          複製
+        </button>
+        <button
+          onClick={removeActiveCharacter}
+          disabled={characters.length <= 1}
+          className="px-3 py-2 border border-gray-300 text-sm text-red-600 rounded hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          削除
+        </button>
+        
+        {([[0, 'X', characterX], [2, 'Z', characterZ]] as Array<[0 | 2, string, number]>).map(([axis, label, value]) => (
+          <label key={label} className="flex items-center space-x-1 text-sm text-gray-700">
+            <span>{label}</span>
+            <input
+              type="number"
+              step={0.1}
+              value={Number(value.toFixed(2))}
+              onChange={(e) => {
+                const parsed = parseFloat(e.target.value);
+                if (!isNaN(parsed)) setActiveCharacterPosition(axis, parsed);
+              }}
+              className="w-20 border border-gray-300 rounded px-2 py-1"
+            />
+          </label>
+        ))}
+      </div>
+      
+      {activeUncertainBones.length > 0 && (
+        <div className="mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded text-sm text-yellow-800 flex items-center justify-between gap-2">
+          <span>⚠ 写真から推定できなかった関節（黄色）: {activeUncertainBones.join(', ')}</span>
+          <button
+            onClick={clearUncertainBones}
+            className="shrink-0 px-2 py-1 text-xs bg-yellow-100 hover:bg-yellow-200 rounded transition-colors"
+          >
+            調整済みにする
+          </button>
+        </div>
+      )}
+      
+      <div className="mt-2 flex flex-wrap gap-2">
+        {onUndo && onRedo && (
+          <>
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              title="元に戻す (Ctrl+Z)"
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              ↶ 元に戻す
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              title="やり直し (Ctrl+Shift+Z)"
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              ↷ やり直し
+            </button>
+          </>
+        )}
+        
         <button
           onClick={resetPose}
           className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600 transition-colors"
@@ -386,6 +1615,13 @@ export default function PoseEditor({ onPoseChange, initialPose }: PoseEditorProp
           ポーズエクスポート
         </button>
         
+        <button
+          onClick={exportScene}
+          className="px-4 py-2 bg-blue-100 text-blue-800 rounded hover:bg-blue-200 transition-colors"
+        >
+          シーンをエクスポート
+        </button>
+        
         <label className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 transition-colors cursor-pointer">
           ポーズインポート
           <input
@@ -395,18 +1631,263 @@ export default function PoseEditor({ onPoseChange, initialPose }: PoseEditorProp
             className="hidden"
           />
         </label>
+        
+        <button
+          onClick={exportGlb}
+          disabled={isExportingGlb}
+          className="px-4 py-2 bg-blue-100 text-blue-800 rounded hover:bg-blue-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isExportingGlb ? '書き出し中...' : 'glTF(.glb)エクスポート'}
+        </button>
+        
+        <button
+          onClick={exportVpd}
+          className="px-4 py-2 bg-blue-100 text-blue-800 rounded hover:bg-blue-200 transition-colors"
+        >
+          VPDエクスポート
+        </button>
+        
+        <label className="px-4 py-2 bg-green-100 text-green-800 rounded hover:bg-green-200 transition-colors cursor-pointer">
+          VPDインポート
+          <input
+            type="file"
+            accept=".vpd"
+            onChange={importVpd}
+            className="hidden"
+          />
+        </label>
+        
+        <label className="px-4 py-2 bg-purple-500 text-white rounded hover:bg-purple-600 transition-colors cursor-pointer">
+          モデル読み込み
+          <input
+            type="file"
+            accept={SUPPORTED_MODEL_EXTENSIONS.join(',')}
+            onChange={handleModelFileChange}
+            className="hidden"
+          />
+        </label>
+        
+        <label className="flex items-center space-x-2 px-3 py-2 border border-gray-300 rounded text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={ikEnabled}
+            onChange={(e) => toggleIK(e.target.checked)}
+            className="rounded border-gray-300 text-orange-500 focus:ring-orange-500"
+          />
+          <span>IKハンドル</span>
+        </label>
+        
+        {ikEnabled && (['LeftFoot', 'RightFoot'] as PinnableFoot[]).map(foot => (
+          <label key={foot} className="flex items-center space-x-2 px-3 py-2 border border-gray-300 rounded text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={pinnedFeet[foot]}
+              onChange={(e) => toggleFootPin(foot, e.target.checked)}
+              className="rounded border-gray-300 text-orange-500 focus:ring-orange-500"
+            />
+            <span>{foot === 'LeftFoot' ? '左足を固定' : '右足を固定'}</span>
+          </label>
+        ))}
+        
+        {characterModel && (
+          <button
+            onClick={() => activateCharacterModel(null)}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded hover:bg-gray-50 transition-colors"
+          >
+            標準モデルに戻す
+          </button>
+        )}
       </div>
       
-      {selectedBone && (
-        <div className="mt-4 p-4 bg-blue-50 rounded-lg">
-          <h3 className="font-semibold text-blue-900 mb-2">
-            選択中: <SafePrompt>{selectedBone.userData.boneName}</SafePrompt>
-          </h3>
-          <p className="text-sm text-blue-700">
-            マウスドラッグで回転できます
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        {([
+          ['leftToRight', '左→右にコピー'],
+          ['rightToLeft', '右→左にコピー'],
+          ['flip', '左右反転']
+        ] as Array<[MirrorMode, string]>).map(([mode, label]) => (
+          <button
+            key={mode}
+            onClick={() => mirrorCurrentPose(mode)}
+            className="px-3 py-2 border border-gray-300 text-sm text-gray-700 rounded hover:bg-gray-50 transition-colors"
+          >
+            {label}
+          </button>
+        ))}
+        
+        <label className="flex items-center space-x-2 px-3 py-2 border border-gray-300 rounded text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={symmetryEnabled}
+            onChange={(e) => toggleSymmetry(e.target.checked)}
+            className="rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+          />
+          <span>シンメトリー編集</span>
+        </label>
+        
+        {(['Left', 'Right'] as HandSide[]).map(side => (
+          <select
+            key={side}
+            value=""
+            onChange={(e) => setHandShape(side, e.target.value as HandShape)}
+            className="px-3 py-2 border border-gray-300 rounded text-sm text-gray-700"
+          >
+            <option value="" disabled>{side === 'Left' ? '左手の形...' : '右手の形...'}</option>
+            {(Object.keys(HAND_SHAPES) as HandShape[]).map(shape => (
+              <option key={shape} value={shape}>{HAND_SHAPES[shape].label}</option>
+            ))}
+          </select>
+        ))}
+      </div>
+      
+      {modelError && (
+        <div className="mt-4">
+          <SafeError>{modelError}</SafeError>
+        </div>
+      )}
+      
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <span>glTFのアニメーション</span>
+        <select
+          value=""
+          onFocus={() => setSavedPoses(SavedPoseManager.getSavedPoses())}
+          onChange={(e) => setAnimationPoseIds(prev => [...prev, e.target.value])}
+          className="px-3 py-2 border border-gray-300 rounded"
+        >
+          <option value="" disabled>保存済みポーズを追加...</option>
+          {savedPoses.map(pose => (
+            <option key={pose.id} value={pose.id}>{pose.name}</option>
+          ))}
+        </select>
+        
+        {animationPoseIds.map((poseId, index) => (
+          <span key={`${poseId}-${index}`} className="flex items-center space-x-1 bg-gray-100 px-2 py-1 rounded">
+            <SafePrompt>{`${index + 1}. ${savedPoses.find(pose => pose.id === poseId)?.name || poseId}`}</SafePrompt>
+            <button
+              onClick={() => setAnimationPoseIds(prev => prev.filter((_, i) => i !== index))}
+              className="text-gray-500 hover:text-red-600"
+              title="アニメーションから外す"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        
+        {animationPoseIds.length > 0 && (
+          <>
+            <label className="flex items-center space-x-1">
+              <input
+                type="number"
+                min={0.1}
+                max={60}
+                step={0.1}
+                value={animationDuration}
+                onChange={(e) => setAnimationDuration(Math.max(0.1, parseFloat(e.target.value) || 0.1))}
+                className="w-20 border border-gray-300 rounded px-2 py-1"
+              />
+              <span>秒</span>
+            </label>
+            <select
+              value={animationFps}
+              onChange={(e) => setAnimationFps(parseInt(e.target.value))}
+              className="px-3 py-2 border border-gray-300 rounded"
+            >
+              {SEQUENCE_FPS_OPTIONS.map(fps => (
+                <option key={fps} value={fps}>{fps}fps</option>
+              ))}
+            </select>
+            {animationPoseIds.length < 2 && (
+              <span className="text-xs text-gray-500">2つ以上のポーズでアニメーションになります</span>
+            )}
+          </>
+        )}
+      </div>
+      
+      {vpdReport && (
+        <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <div className="flex items-center justify-between mb-1">
+            <h4 className="text-sm font-medium text-yellow-800">
+              {vpdReport.action === 'import'
+                ? `⚠️ 対応するボーンが無いため読み込まなかったMMDのボーン（${vpdReport.unmappedBones.length}個）`
+                : `⚠️ MMDに対応するボーンが無いため書き出さなかったボーン（${vpdReport.unmappedBones.length}個）`}
+            </h4>
+            <button
+              onClick={() => setVpdReport(null)}
+              className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded hover:bg-yellow-200 transition-colors"
+            >
+              閉じる
+            </button>
+          </div>
+          <p className="text-sm text-yellow-700">
+            <SafePrompt>{vpdReport.unmappedBones.join('、')}</SafePrompt>
           </p>
         </div>
       )}
+      
+      {jointLimitViolations.length > 0 && (
+        <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <div className="flex items-center justify-between mb-1">
+            <h4 className="text-sm font-medium text-yellow-800">⚠️ 可動域を超えている関節があります</h4>
+            <button
+              onClick={fixJointLimitViolations}
+              className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded hover:bg-yellow-200 transition-colors"
+            >
+              可動域内に補正
+            </button>
+          </div>
+          <ul className="text-sm text-yellow-700 space-y-1">
+            {jointLimitViolations.map(({ boneName, axis, value, min, max }) => (
+              <li key={`${boneName}-${axis}`}>
+                • <SafePrompt>{boneName}</SafePrompt> {axis.toUpperCase()}軸: {value.toFixed(1)}°（可動域 {min}〜{max}°）
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      
+      {characterModel && (
+        <div className="mt-4 p-4 bg-purple-50 rounded-lg">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold text-purple-900">
+              モデル: <SafePrompt>{characterModel.name}</SafePrompt>
+              <span className="ml-2 text-xs text-purple-700">
+                ({characterModel.format === 'gltf' ? 'glTF' : 'VRM'})
+              </span>
+            </h3>
+            <button
+              onClick={resetBoneMapping}
+              className="text-xs text-purple-700 hover:text-purple-900"
+            >
+              保存済みの対応を削除
+            </button>
+          </div>
+          
+          {characterModel.unmappedBones.length === 0 ? (
+            <p className="text-sm text-purple-700">すべてのボーンが対応付けられています</p>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm text-purple-700">
+                対応付けできなかったボーン（{characterModel.unmappedBones.length}個）を手動で選択してください
+              </p>
+              {characterModel.unmappedBones.map(boneName => (
+                <div key={boneName} className="flex items-center space-x-2 text-sm">
+                  <span className="w-32 font-mono">{boneName}</span>
+                  <select
+                    value={characterModel.mapping[boneName] || ''}
+                    onChange={(e) => handleBoneMappingChange(boneName, e.target.value)}
+                    className="flex-1 border border-gray-300 rounded px-2 py-1"
+                  >
+                    <option value="">未設定</option>
+                    {characterModel.nodeNames.map(nodeName => (
+                      <option key={nodeName} value={nodeName}>{nodeName}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+      
     </div>
   );
 }
\ No newline at end of file
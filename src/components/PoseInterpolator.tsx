@@ -5,10 +5,26 @@ import {
   PoseInterpolator,
   SavedPoseManager,
   initializePresetPoses,
+  mirrorPose,
+  samplePoseSequence,
+  SEQUENCE_FPS_OPTIONS,
+  BONE_MASK_PRESETS,
   type SavedPose,
   type PoseData,
-  type InterpolationMethod
+  type InterpolationMethod,
+  type InterpolationResult
 } from '@/lib/poseInterpolation';
+import { fromInterpolationPose, toInterpolationPose } from '@/lib/poseDocument';
+import {
+  createBvhRetarget,
+  getBvhFramePose,
+  parseBvh,
+  writeBvh,
+  type BvhMotion,
+  type BvhRetarget
+} from '@/lib/bvh';
+import { getPoseIndexKey } from '@/lib/poseSimilarity';
+import SimilarPoses from './SimilarPoses';
 
 interface PoseInterpolatorProps {
   currentPose?: PoseData;
@@ -32,6 +48,23 @@ export default function PoseInterpolatorComponent({
   const [showSaveModal, setShowSaveModal] = useState<boolean>(false);
   const [savePoseName, setSavePoseName] = useState<string>('');
   const [savePoseDescription, setSavePoseDescription] = useState<string>('');
+  // 読み込んだBVHモーション
+  const [bvh, setBvh] = useState<{ fileName: string; motion: BvhMotion; retarget: BvhRetarget } | null>(null);
+  const [bvhFrame, setBvhFrame] = useState<number>(0);
+  // BVHに書き出すシーケンス（保存済みポーズのIDを順番に並べる）
+  const [sequencePoseIds, setSequencePoseIds] = useState<string[]>([]);
+  const [sequenceDuration, setSequenceDuration] = useState<number>(2);
+  const [sequenceFps, setSequenceFps] = useState<number>(30);
+  // 2つのポーズの補間 / 複数ポーズのブレンドと加算レイヤー
+  const [mode, setMode] = useState<'interpolate' | 'blend'>('interpolate');
+  const [blendEntries, setBlendEntries] = useState<{ poseId: string; weight: number }[]>([]);
+  // masks は BONE_MASK_PRESETS のキー（空の場合はレイヤーの全ボーンに適用）
+  const [layerEntries, setLayerEntries] = useState<{ poseId: string; weight: number; masks: string[] }[]>([]);
+  const [blendPoseToAdd, setBlendPoseToAdd] = useState<string>('');
+  const [layerPoseToAdd, setLayerPoseToAdd] = useState<string>('');
+  const [blendResult, setBlendResult] = useState<InterpolationResult | null>(null);
+  // 似ているポーズの検索元
+  const [similarQuery, setSimilarQuery] = useState<{ id?: string; label: string; pose: PoseData } | null>(null);
 
   const interpolator = new PoseInterpolator(interpolationMethod);
 
@@ -56,6 +89,13 @@ export default function PoseInterpolatorComponent({
     }
   }, [interpolationValue, selectedPoseA, selectedPoseB, isRealtime]);
 
+  // ブレンド・レイヤーの変更を反映
+  useEffect(() => {
+    if (mode === 'blend' && blendEntries.length > 0) {
+      performBlend();
+    }
+  }, [mode, blendEntries, layerEntries]);
+
   const loadSavedPoses = useCallback(() => {
     const poses = SavedPoseManager.getSavedPoses();
     setSavedPoses(poses);
@@ -87,6 +127,75 @@ export default function PoseInterpolatorComponent({
     }
   }, [selectedPoseA, selectedPoseB, interpolationValue, interpolator, onPoseChange]);
 
+  // 重み付きブレンドの結果に加算レイヤーを順番に重ねる
+  const performBlend = () => {
+    const toInputs = <T extends { poseId: string }>(entries: T[]) => entries.flatMap(entry => {
+      const pose = SavedPoseManager.getPoseById(entry.poseId);
+      return pose ? [{ ...entry, pose: pose.poseData }] : [];
+    });
+
+    const base = interpolator.blend(toInputs(blendEntries));
+    if (!base.isValid) {
+      setBlendResult(base);
+      return;
+    }
+
+    const layered = interpolator.applyLayers(base.interpolatedPose, toInputs(layerEntries).map(({ pose, weight, masks }) => ({
+      pose,
+      weight,
+      boneMask: masks.length > 0 ? masks.flatMap(mask => BONE_MASK_PRESETS[mask].bones) : undefined
+    })));
+
+    const result = { ...layered, warnings: [...base.warnings, ...layered.warnings] };
+    setBlendResult(result);
+    if (result.isValid) {
+      onPoseChange(result.interpolatedPose);
+    }
+  };
+
+  const handleAddBlendEntry = () => {
+    if (!blendPoseToAdd) return;
+    setBlendEntries(prev => [...prev, { poseId: blendPoseToAdd, weight: prev.length === 0 ? 1 : 0.5 }]);
+    setBlendPoseToAdd('');
+  };
+
+  const handleAddLayerEntry = () => {
+    if (!layerPoseToAdd) return;
+    setLayerEntries(prev => [...prev, { poseId: layerPoseToAdd, weight: 1, masks: [] }]);
+    setLayerPoseToAdd('');
+  };
+
+  const toggleLayerMask = (index: number, mask: string) => {
+    setLayerEntries(prev => prev.map((entry, i) => i !== index ? entry : {
+      ...entry,
+      masks: entry.masks.includes(mask) ? entry.masks.filter(item => item !== mask) : [...entry.masks, mask]
+    }));
+  };
+
+  const handleSaveBlendPose = () => {
+    if (!blendResult?.isValid) {
+      alert('ブレンドされたポーズがありません');
+      return;
+    }
+
+    const totalWeight = blendEntries.reduce((sum, entry) => sum + entry.weight, 0);
+    const name = `ブレンドポーズ ${new Date().toLocaleTimeString()}`;
+    const description = [
+      ...blendEntries.map(entry => `${getPoseName(entry.poseId)} ${Math.round((entry.weight / totalWeight) * 100)}%`),
+      ...layerEntries.map(entry => `+${getPoseName(entry.poseId)}`)
+    ].join(' / ');
+
+    const savedPose = SavedPoseManager.savePose({
+      name,
+      description,
+      poseData: blendResult.interpolatedPose,
+      tags: ['ブレンド', '自動生成']
+    });
+
+    setSavedPoses(prev => [savedPose, ...prev]);
+    alert(`ブレンドポーズ「${name}」を保存しました`);
+  };
+
   const handleApplyInterpolation = () => {
     if (!isRealtime) {
       performInterpolation();
@@ -152,10 +261,89 @@ export default function PoseInterpolatorComponent({
         // 削除されたポーズが選択されていた場合はクリア
         if (selectedPoseA === poseId) setSelectedPoseA('');
         if (selectedPoseB === poseId) setSelectedPoseB('');
+        setSequencePoseIds(prev => prev.filter(id => id !== poseId));
+        setBlendEntries(prev => prev.filter(entry => entry.poseId !== poseId));
+        setLayerEntries(prev => prev.filter(entry => entry.poseId !== poseId));
       }
     }
   };
 
+  // 左右反転したポーズを新しく保存
+  const handleMirrorPose = (poseId: string) => {
+    const pose = SavedPoseManager.getPoseById(poseId);
+    if (!pose) return;
+
+    const savedPose = SavedPoseManager.savePose({
+      name: `${pose.name}（左右反転）`,
+      description: pose.description,
+      poseData: mirrorPose(pose.poseData),
+      tags: [...(pose.tags || []), '左右反転']
+    });
+
+    setSavedPoses(prev => [savedPose, ...prev]);
+  };
+
+  const handleBvhFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    event.target.value = '';
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const motion = parseBvh(e.target?.result as string);
+        setBvh({ fileName: file.name.replace(/\.bvh$/i, ''), motion, retarget: createBvhRetarget(motion) });
+        setBvhFrame(0);
+      } catch (error) {
+        console.error('Error parsing BVH file:', error);
+        alert(error instanceof Error ? error.message : '無効なBVHファイルです');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  // フレームを移動するとエディターのポーズに反映する
+  const handleBvhFrameChange = (frame: number) => {
+    if (!bvh) return;
+    setBvhFrame(frame);
+    onPoseChange(toInterpolationPose(getBvhFramePose(bvh.motion, bvh.retarget, frame)));
+  };
+
+  const handleSaveBvhFrame = () => {
+    if (!bvh) return;
+
+    const savedPose = SavedPoseManager.savePose({
+      name: `${bvh.fileName} #${bvhFrame}`,
+      description: `BVHの${bvhFrame}フレーム目`,
+      poseData: toInterpolationPose(getBvhFramePose(bvh.motion, bvh.retarget, bvhFrame)),
+      tags: ['BVH']
+    });
+
+    setSavedPoses(prev => [savedPose, ...prev]);
+    alert(`ポーズ「${savedPose.name}」を保存しました`);
+  };
+
+  // シーケンスを指定したFPSで補間してBVHに書き出す
+  const handleExportSequence = () => {
+    const poses = sequencePoseIds
+      .map(poseId => SavedPoseManager.getPoseById(poseId)?.poseData)
+      .filter((pose): pose is PoseData => !!pose);
+    if (poses.length < 2) {
+      alert('シーケンスには2つ以上のポーズが必要です');
+      return;
+    }
+
+    const frames = samplePoseSequence(poses, sequenceDuration, sequenceFps, interpolationMethod).map(fromInterpolationPose);
+
+    const blob = new Blob([writeBvh(frames, sequenceFps)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const linkElement = document.createElement('a');
+    linkElement.setAttribute('href', url);
+    linkElement.setAttribute('download', 'sequence.bvh');
+    linkElement.click();
+    URL.revokeObjectURL(url);
+  };
+
   const getPoseName = (poseId: string): string => {
     const pose = savedPoses.find(p => p.id === poseId);
     return pose ? pose.name : 'Unknown';
@@ -178,190 +366,505 @@ export default function PoseInterpolatorComponent({
           <span>ポーズ補間（Pose Interpolation）</span>
         </h2>
         <p className="text-gray-600 text-sm mt-1">
-          2つの保存済みポーズの中間ポーズを生成します
+          2つの保存済みポーズの中間ポーズや、複数ポーズを重み付きで混ぜたポーズを生成します
         </p>
       </div>
 
-      <div className="p-6 space-y-6">
-        {/* ポーズ選択 */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              ポーズA（開始ポーズ）
-            </label>
-            <select
-              value={selectedPoseA}
-              onChange={(e) => setSelectedPoseA(e.target.value)}
-              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-            >
-              <option value="">ポーズを選択...</option>
-              {savedPoses.map((pose) => (
-                <option key={pose.id} value={pose.id}>
-                  {pose.name} {pose.description && `(${pose.description})`}
-                </option>
-              ))}
-            </select>
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              ポーズB（終了ポーズ）
-            </label>
-            <select
-              value={selectedPoseB}
-              onChange={(e) => setSelectedPoseB(e.target.value)}
-              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-            >
-              <option value="">ポーズを選択...</option>
-              {savedPoses.map((pose) => (
-                <option key={pose.id} value={pose.id}>
-                  {pose.name} {pose.description && `(${pose.description})`}
-                </option>
-              ))}
-            </select>
-          </div>
-        </div>
-
-        {/* 補間設定 */}
-        <div className="space-y-4">
-          <div>
-            <div className="flex items-center justify-between mb-2">
-              <label className="block text-sm font-medium text-gray-700">
-                補間度合い（t = {interpolationValue.toFixed(3)}）
-              </label>
-              <span className="text-xs text-gray-500">
-                {getInterpolationProgress()}
-              </span>
-            </div>
-            <input
-              type="range"
-              min="0"
-              max="1"
-              step="0.001"
-              value={interpolationValue}
-              onChange={(e) => setInterpolationValue(parseFloat(e.target.value))}
-              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
-            />
-            <div className="flex justify-between text-xs text-gray-500 mt-1">
-              <span>ポーズA (0.0)</span>
-              <span>中間 (0.5)</span>
-              <span>ポーズB (1.0)</span>
-            </div>
-          </div>
+      {/* モード切り替え */}
+      <div className="px-6 pt-6 flex space-x-2">
+        {([['interpolate', '2ポーズ補間'], ['blend', 'ブレンド・レイヤー']] as const).map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => setMode(value)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              mode === value ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
 
+      {mode === 'interpolate' ? (
+        <div className="p-6 space-y-6">
+          {/* ポーズ選択 */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                補間方法
+                ポーズA（開始ポーズ）
               </label>
               <select
-                value={interpolationMethod}
-                onChange={(e) => setInterpolationMethod(e.target.value as InterpolationMethod)}
+                value={selectedPoseA}
+                onChange={(e) => setSelectedPoseA(e.target.value)}
                 className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
-                <option value="linear">線形補間（Linear）</option>
-                <option value="slerp">球面線形補間（Slerp）</option>
-                <option value="smoothstep">スムーズステップ</option>
-                <option value="cubic">3次補間（Cubic）</option>
+                <option value="">ポーズを選択...</option>
+                {savedPoses.map((pose) => (
+                  <option key={pose.id} value={pose.id}>
+                    {pose.name} {pose.description && `(${pose.description})`}
+                  </option>
+                ))}
               </select>
             </div>
 
-            <div className="flex items-center space-x-4">
-              <label className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  checked={isRealtime}
-                  onChange={(e) => setIsRealtime(e.target.checked)}
-                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                />
-                <span className="text-sm text-gray-700">リアルタイム補間</span>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                ポーズB（終了ポーズ）
               </label>
+              <select
+                value={selectedPoseB}
+                onChange={(e) => setSelectedPoseB(e.target.value)}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">ポーズを選択...</option>
+                {savedPoses.map((pose) => (
+                  <option key={pose.id} value={pose.id}>
+                    {pose.name} {pose.description && `(${pose.description})`}
+                  </option>
+                ))}
+              </select>
             </div>
           </div>
-        </div>
 
-        {/* 警告表示 */}
-        {warnings.length > 0 && (
-          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
-            <h4 className="text-sm font-medium text-yellow-800 mb-1">⚠️ 警告</h4>
-            <ul className="text-sm text-yellow-700 space-y-1">
-              {warnings.map((warning, index) => (
-                <li key={index}>• {warning}</li>
-              ))}
-            </ul>
+          {/* 補間設定 */}
+          <div className="space-y-4">
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  補間度合い（t = {interpolationValue.toFixed(3)}）
+                </label>
+                <span className="text-xs text-gray-500">
+                  {getInterpolationProgress()}
+                </span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.001"
+                value={interpolationValue}
+                onChange={(e) => setInterpolationValue(parseFloat(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+              />
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>ポーズA (0.0)</span>
+                <span>中間 (0.5)</span>
+                <span>ポーズB (1.0)</span>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  補間方法
+                </label>
+                <select
+                  value={interpolationMethod}
+                  onChange={(e) => setInterpolationMethod(e.target.value as InterpolationMethod)}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="linear">線形補間（Linear）</option>
+                  <option value="slerp">球面線形補間（Slerp）</option>
+                  <option value="squad">球面4角形補間（Squad）</option>
+                  <option value="smoothstep">スムーズステップ</option>
+                  <option value="cubic">3次補間（Cubic）</option>
+                </select>
+              </div>
+
+              <div className="flex items-center space-x-4">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={isRealtime}
+                    onChange={(e) => setIsRealtime(e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700">リアルタイム補間</span>
+                </label>
+              </div>
+            </div>
           </div>
-        )}
 
-        {/* アクションボタン */}
-        <div className="flex flex-wrap gap-3">
-          {!isRealtime && (
+          {/* 警告表示 */}
+          {warnings.length > 0 && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <h4 className="text-sm font-medium text-yellow-800 mb-1">⚠️ 警告</h4>
+              <ul className="text-sm text-yellow-700 space-y-1">
+                {warnings.map((warning, index) => (
+                  <li key={index}>• {warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* アクションボタン */}
+          <div className="flex flex-wrap gap-3">
+            {!isRealtime && (
+              <button
+                onClick={handleApplyInterpolation}
+                disabled={!selectedPoseA || !selectedPoseB}
+                className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium transition-colors"
+              >
+                補間を適用
+              </button>
+            )}
+
             <button
-              onClick={handleApplyInterpolation}
-              disabled={!selectedPoseA || !selectedPoseB}
-              className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium transition-colors"
+              onClick={handleSaveInterpolatedPose}
+              disabled={!interpolatedPose}
+              className="bg-green-500 hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium transition-colors"
             >
-              補間を適用
+              補間ポーズを保存
             </button>
+
+            <button
+              onClick={handleSaveCurrentPose}
+              disabled={!currentPose}
+              className="bg-purple-500 hover:bg-purple-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              現在のポーズを保存
+            </button>
+
+            <button
+              onClick={() => {
+                setSelectedPoseA('');
+                setSelectedPoseB('');
+                setInterpolationValue(0.5);
+                setWarnings([]);
+                setInterpolatedPose(null);
+              }}
+              className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              リセット
+            </button>
+          </div>
+
+          {/* 現在の補間状態 */}
+          {selectedPoseA && selectedPoseB && (
+            <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+              <h4 className="text-sm font-medium text-blue-900 mb-2">🎯 現在の補間</h4>
+              <div className="text-sm text-blue-800">
+                <p>
+                  <strong>{getPoseName(selectedPoseA)}</strong> → <strong>{getPoseName(selectedPoseB)}</strong>
+                </p>
+                <p className="mt-1">
+                  補間度合い: {getInterpolationProgress()} ({interpolationMethod})
+                </p>
+                {interpolatedPose && (
+                  <p className="mt-1 text-blue-600">
+                    ✅ 補間ポーズ生成完了（{Object.keys(interpolatedPose).length}個のボーン）
+                  </p>
+                )}
+              </div>
+            </div>
           )}
+        </div>
+      ) : (
+        <div className="p-6 space-y-6">
+          {/* 重み付きブレンド */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-gray-700">ブレンドするポーズ（重みは合計で正規化）</h3>
+            {blendEntries.length === 0 ? (
+              <p className="text-sm text-gray-500">ポーズを追加すると、重みの割合で混ぜたポーズを作成します</p>
+            ) : (
+              <ul className="space-y-2">
+                {blendEntries.map((entry, index) => {
+                  const totalWeight = blendEntries.reduce((sum, item) => sum + item.weight, 0);
+                  return (
+                    <li key={`${entry.poseId}-${index}`} className="flex items-center space-x-3 text-sm">
+                      <span className="w-32 truncate">{getPoseName(entry.poseId)}</span>
+                      <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.01"
+                        value={entry.weight}
+                        onChange={(e) => {
+                          const weight = parseFloat(e.target.value);
+                          setBlendEntries(prev => prev.map((item, i) => (i === index ? { ...item, weight } : item)));
+                        }}
+                        className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                      />
+                      <span className="w-12 text-right text-gray-600">
+                        {totalWeight > 0 ? Math.round((entry.weight / totalWeight) * 100) : 0}%
+                      </span>
+                      <button
+                        onClick={() => setBlendEntries(prev => prev.filter((_, i) => i !== index))}
+                        className="text-gray-500 hover:text-red-600"
+                        title="ブレンドから外す"
+                      >
+                        ×
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            <div className="flex items-center space-x-2">
+              <select
+                value={blendPoseToAdd}
+                onChange={(e) => setBlendPoseToAdd(e.target.value)}
+                className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">ポーズを選択...</option>
+                {savedPoses.map((pose) => (
+                  <option key={pose.id} value={pose.id}>{pose.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleAddBlendEntry}
+                disabled={!blendPoseToAdd}
+                className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+              >
+                追加
+              </button>
+            </div>
+          </div>
 
-          <button
-            onClick={handleSaveInterpolatedPose}
-            disabled={!interpolatedPose}
-            className="bg-green-500 hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium transition-colors"
-          >
-            補間ポーズを保存
-          </button>
+          {/* 加算レイヤー */}
+          <div className="pt-4 border-t space-y-3">
+            <h3 className="text-sm font-medium text-gray-700">加算レイヤー（上から順に重ねる）</h3>
+            {layerEntries.length === 0 ? (
+              <p className="text-sm text-gray-500">「首をかしげる」「拳を握る」などの部分的なポーズを、ブレンドしたポーズの上に重ねられます</p>
+            ) : (
+              <ul className="space-y-3">
+                {layerEntries.map((entry, index) => (
+                  <li key={`${entry.poseId}-${index}`} className="p-3 bg-gray-50 rounded-lg space-y-2 text-sm">
+                    <div className="flex items-center space-x-3">
+                      <span className="w-32 truncate">{getPoseName(entry.poseId)}</span>
+                      <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.01"
+                        value={entry.weight}
+                        onChange={(e) => {
+                          const weight = parseFloat(e.target.value);
+                          setLayerEntries(prev => prev.map((item, i) => (i === index ? { ...item, weight } : item)));
+                        }}
+                        className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                      />
+                      <span className="w-12 text-right text-gray-600">{Math.round(entry.weight * 100)}%</span>
+                      <button
+                        onClick={() => setLayerEntries(prev => prev.filter((_, i) => i !== index))}
+                        className="text-gray-500 hover:text-red-600"
+                        title="レイヤーを削除"
+                      >
+                        ×
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {Object.entries(BONE_MASK_PRESETS).map(([key, preset]) => (
+                        <button
+                          key={key}
+                          onClick={() => toggleLayerMask(index, key)}
+                          className={`px-2 py-0.5 rounded text-xs transition-colors ${
+                            entry.masks.includes(key) ? 'bg-blue-500 text-white' : 'bg-white border text-gray-600 hover:bg-gray-100'
+                          }`}
+                        >
+                          {preset.label}
+                        </button>
+                      ))}
+                      <span className="text-xs text-gray-500 self-center">
+                        {entry.masks.length === 0 ? '（未選択: 全てのボーン）' : ''}
+                      </span>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex items-center space-x-2">
+              <select
+                value={layerPoseToAdd}
+                onChange={(e) => setLayerPoseToAdd(e.target.value)}
+                className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">ポーズを選択...</option>
+                {savedPoses.map((pose) => (
+                  <option key={pose.id} value={pose.id}>{pose.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleAddLayerEntry}
+                disabled={!layerPoseToAdd || blendEntries.length === 0}
+                className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+              >
+                レイヤーを追加
+              </button>
+            </div>
+          </div>
 
-          <button
-            onClick={handleSaveCurrentPose}
-            disabled={!currentPose}
-            className="bg-purple-500 hover:bg-purple-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium transition-colors"
-          >
-            現在のポーズを保存
-          </button>
+          {blendResult && blendResult.warnings.length > 0 && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <h4 className="text-sm font-medium text-yellow-800 mb-1">⚠️ 警告</h4>
+              <ul className="text-sm text-yellow-700 space-y-1">
+                {blendResult.warnings.map((warning, index) => (
+                  <li key={index}>• {warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
 
-          <button
-            onClick={() => {
-              setSelectedPoseA('');
-              setSelectedPoseB('');
-              setInterpolationValue(0.5);
-              setWarnings([]);
-              setInterpolatedPose(null);
-            }}
-            className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
-          >
-            リセット
-          </button>
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={handleSaveBlendPose}
+              disabled={!blendResult?.isValid}
+              className="bg-green-500 hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              ブレンドポーズを保存
+            </button>
+            <button
+              onClick={() => {
+                setBlendEntries([]);
+                setLayerEntries([]);
+                setBlendResult(null);
+              }}
+              className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              リセット
+            </button>
+          </div>
         </div>
+      )}
 
-        {/* 現在の補間状態 */}
-        {selectedPoseA && selectedPoseB && (
-          <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
-            <h4 className="text-sm font-medium text-blue-900 mb-2">🎯 現在の補間</h4>
-            <div className="text-sm text-blue-800">
-              <p>
-                <strong>{getPoseName(selectedPoseA)}</strong> → <strong>{getPoseName(selectedPoseB)}</strong>
-              </p>
-              <p className="mt-1">
-                補間度合い: {getInterpolationProgress()} ({interpolationMethod})
+      {/* BVHモーション */}
+      <div className="border-t p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold">BVHモーション</h3>
+          <label className="text-sm bg-green-100 text-green-800 px-3 py-1.5 rounded-lg hover:bg-green-200 transition-colors cursor-pointer">
+            BVHを読み込む
+            <input
+              type="file"
+              accept=".bvh"
+              onChange={handleBvhFileChange}
+              className="hidden"
+            />
+          </label>
+        </div>
+
+        {bvh ? (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm text-gray-700">
+              <span>
+                {bvh.fileName}（{bvh.motion.frames.length}フレーム、{Math.round(1 / bvh.motion.frameTime)}fps）
+              </span>
+              <span>フレーム {bvhFrame}</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max={bvh.motion.frames.length - 1}
+              step="1"
+              value={bvhFrame}
+              onChange={(e) => handleBvhFrameChange(parseInt(e.target.value))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+            />
+            {bvh.retarget.unmappedJoints.length > 0 && (
+              <p className="text-xs text-yellow-700">
+                ⚠️ 対応付けできなかった関節: {bvh.retarget.unmappedJoints.join(', ')}
               </p>
-              {interpolatedPose && (
-                <p className="mt-1 text-blue-600">
-                  ✅ 補間ポーズ生成完了（{Object.keys(interpolatedPose).length}個のボーン）
-                </p>
-              )}
+            )}
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={() => handleBvhFrameChange(bvhFrame)}
+                className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+              >
+                このフレームをポーズに使う
+              </button>
+              <button
+                onClick={handleSaveBvhFrame}
+                className="bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+              >
+                このフレームを保存
+              </button>
             </div>
           </div>
+        ) : (
+          <p className="text-sm text-gray-500">モーションキャプチャのBVHファイルから好きなフレームをポーズとして取り出せます</p>
         )}
+
+        <div className="pt-4 border-t space-y-3">
+          <h4 className="text-sm font-medium text-gray-700">シーケンスをBVHで書き出し</h4>
+          {sequencePoseIds.length === 0 ? (
+            <p className="text-sm text-gray-500">保存済みポーズの「＋列」でシーケンスにポーズを追加してください</p>
+          ) : (
+            <ol className="flex flex-wrap gap-2 text-sm">
+              {sequencePoseIds.map((poseId, index) => (
+                <li key={`${poseId}-${index}`} className="flex items-center space-x-1 bg-gray-100 px-2 py-1 rounded">
+                  <span>{index + 1}. {getPoseName(poseId)}</span>
+                  <button
+                    onClick={() => setSequencePoseIds(prev => prev.filter((_, i) => i !== index))}
+                    className="text-gray-500 hover:text-red-600"
+                    title="シーケンスから外す"
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+            <label className="flex items-center space-x-2">
+              <span>長さ</span>
+              <input
+                type="number"
+                min={0.1}
+                max={60}
+                step={0.1}
+                value={sequenceDuration}
+                onChange={(e) => setSequenceDuration(Math.max(0.1, parseFloat(e.target.value) || 0.1))}
+                className="w-20 border border-gray-300 rounded px-2 py-1"
+              />
+              <span>秒</span>
+            </label>
+            <select
+              value={sequenceFps}
+              onChange={(e) => setSequenceFps(parseInt(e.target.value))}
+              className="border border-gray-300 rounded px-2 py-1"
+            >
+              {SEQUENCE_FPS_OPTIONS.map(fps => (
+                <option key={fps} value={fps}>{fps}fps</option>
+              ))}
+            </select>
+            <button
+              onClick={handleExportSequence}
+              disabled={sequencePoseIds.length < 2}
+              className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              BVHを書き出す
+            </button>
+          </div>
+        </div>
       </div>
 
       {/* 保存済みポーズ一覧 */}
       <div className="border-t p-6">
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-lg font-semibold">保存済みポーズ一覧</h3>
-          <span className="text-sm text-gray-500">{savedPoses.length}個のポーズ</span>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => currentPose && setSimilarQuery({ label: '現在のポーズ', pose: currentPose })}
+              disabled={!currentPose}
+              className="text-sm text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+            >
+              現在のポーズに似たポーズを探す
+            </button>
+            <span className="text-sm text-gray-500">{savedPoses.length}個のポーズ</span>
+          </div>
         </div>
 
+        {similarQuery && (
+          <div className="mb-4">
+            <SimilarPoses
+              query={similarQuery.pose}
+              queryLabel={similarQuery.label}
+              excludeKeys={similarQuery.id ? [getPoseIndexKey('saved', similarQuery.id)] : undefined}
+              onSelect={(result) => onPoseChange(result.entry.pose)}
+              onClose={() => setSimilarQuery(null)}
+            />
+          </div>
+        )}
+
         {savedPoses.length === 0 ? (
           <div className="text-center py-8 text-gray-500">
             <div className="text-4xl mb-2">🎭</div>
@@ -415,6 +918,27 @@ export default function PoseInterpolatorComponent({
                   >
                     ポーズB
                   </button>
+                  <button
+                    onClick={() => setSequencePoseIds(prev => [...prev, pose.id])}
+                    className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded hover:bg-gray-200 transition-colors"
+                    title="BVHに書き出すシーケンスの末尾に追加"
+                  >
+                    ＋列
+                  </button>
+                  <button
+                    onClick={() => handleMirrorPose(pose.id)}
+                    className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded hover:bg-gray-200 transition-colors"
+                    title="左右反転したコピーを保存"
+                  >
+                    反転
+                  </button>
+                  <button
+                    onClick={() => setSimilarQuery({ id: pose.id, label: pose.name, pose: pose.poseData })}
+                    className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded hover:bg-gray-200 transition-colors"
+                    title="似ているポーズを探す"
+                  >
+                    類似
+                  </button>
                   {!pose.id.startsWith('preset_') && (
                     <button
                       onClick={() => handleDeletePose(pose.id)}
@@ -0,0 +1,500 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { SavedPoseManager, type PoseData, type SavedPose } from '@/lib/poseInterpolation';
+import {
+  BEZIER_PRESETS,
+  DEFAULT_BEZIER_CURVE,
+  DEFAULT_TIMELINE_DURATION,
+  TimelineManager,
+  createTimelineKeyframe,
+  evaluateTimeline,
+  sortKeyframes,
+  type BezierCurve,
+  type PoseTimeline,
+  type TimelineEasing,
+  type TimelineKeyframe
+} from '@/lib/poseTimeline';
+
+interface PoseTimelineProps {
+  onPoseChange: (pose: PoseData) => void; // 再生・スクラブ中（表示のみ更新）
+  onPoseCommit: (pose: PoseData) => void; // 再生の停止やキーフレームの操作など、操作の確定時
+}
+
+const EASING_LABELS: Record<TimelineEasing, string> = {
+  linear: '線形補間（Linear）',
+  slerp: '球面線形補間（Slerp）',
+  squad: '球面4角形補間（Squad）',
+  smoothstep: 'スムーズステップ',
+  cubic: '3次補間（Cubic）',
+  bezier: 'ベジェ曲線'
+};
+
+const createEmptyTimeline = (): PoseTimeline => ({
+  id: '',
+  name: '',
+  duration: DEFAULT_TIMELINE_DURATION,
+  loop: true,
+  keyframes: [],
+  createdAt: ''
+});
+
+const formatTime = (time: number) => `${time.toFixed(2)}秒`;
+
+export default function PoseTimelineComponent({ onPoseChange, onPoseCommit }: PoseTimelineProps) {
+  const [timeline, setTimeline] = useState<PoseTimeline>(createEmptyTimeline);
+  const [savedTimelines, setSavedTimelines] = useState<PoseTimeline[]>([]);
+  const [savedPoses, setSavedPoses] = useState<SavedPose[]>([]);
+  const [poseToAdd, setPoseToAdd] = useState<string>('');
+  const [selectedKeyframeId, setSelectedKeyframeId] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState<number>(0);
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+
+  // 再生ループとドラッグ中のハンドラーから最新の値を参照する
+  const timelineRef = useRef(timeline);
+  const currentTimeRef = useRef(currentTime);
+  const onPoseChangeRef = useRef(onPoseChange);
+  const onPoseCommitRef = useRef(onPoseCommit);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const draggingKeyframeIdRef = useRef<string | null>(null);
+  const hasLivePoseRef = useRef(false); // 表示のみ更新し、まだ履歴に確定していないポーズがある
+
+  timelineRef.current = timeline;
+  currentTimeRef.current = currentTime;
+  onPoseChangeRef.current = onPoseChange;
+  onPoseCommitRef.current = onPoseCommit;
+
+  useEffect(() => {
+    setSavedPoses(SavedPoseManager.getSavedPoses());
+    setSavedTimelines(TimelineManager.getTimelines());
+  }, []);
+
+  // 指定時刻のポーズを3Dビューに反映（再生・スクラブ中は commit を false にして履歴に追加しない）
+  const showTime = useCallback((time: number, target: PoseTimeline = timelineRef.current, commit = true) => {
+    const clamped = Math.max(0, Math.min(time, target.duration));
+    setCurrentTime(clamped);
+    currentTimeRef.current = clamped;
+
+    const result = evaluateTimeline(target, clamped);
+    if (result?.isValid) {
+      (commit ? onPoseCommitRef.current : onPoseChangeRef.current)(result.interpolatedPose);
+      hasLivePoseRef.current = !commit;
+    }
+  }, []);
+
+  // 再生・スクラブ中に表示したポーズを1つの履歴として確定する
+  const commitLivePose = useCallback(() => {
+    if (hasLivePoseRef.current) {
+      showTime(currentTimeRef.current);
+    }
+  }, [showTime]);
+
+  // 再生（ループしない場合は最後で停止）
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frameId = 0;
+    let previous = performance.now();
+
+    const step = (now: number) => {
+      const { duration, loop } = timelineRef.current;
+      let time = currentTimeRef.current + (now - previous) / 1000;
+      previous = now;
+
+      if (time >= duration) {
+        if (!loop) {
+          showTime(duration);
+          setIsPlaying(false);
+          return;
+        }
+        time = duration > 0 ? time % duration : 0;
+      }
+
+      showTime(time, timelineRef.current, false);
+      frameId = requestAnimationFrame(step);
+    };
+
+    frameId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, showTime]);
+
+  const updateTimeline = (updates: Partial<PoseTimeline>) => {
+    const updated = { ...timelineRef.current, ...updates };
+    setTimeline(updated);
+    timelineRef.current = updated;
+    return updated;
+  };
+
+  const updateKeyframe = (keyframeId: string, updates: Partial<TimelineKeyframe>, commit = true) => {
+    const updated = updateTimeline({
+      keyframes: sortKeyframes(timelineRef.current.keyframes.map(keyframe =>
+        keyframe.id === keyframeId ? { ...keyframe, ...updates } : keyframe
+      ))
+    });
+    showTime(currentTimeRef.current, updated, commit);
+  };
+
+  const stopPlayback = () => {
+    setIsPlaying(false);
+    commitLivePose();
+  };
+
+  const handleTogglePlay = () => {
+    if (timeline.keyframes.length === 0) {
+      alert('キーフレームを追加してください');
+      return;
+    }
+    if (isPlaying) {
+      stopPlayback();
+      return;
+    }
+    if (currentTime >= timeline.duration) {
+      showTime(0, timelineRef.current, false);
+    }
+    setIsPlaying(true);
+  };
+
+  const handleAddKeyframe = () => {
+    const pose = savedPoses.find(item => item.id === poseToAdd);
+    if (!pose) {
+      alert('追加するポーズを選択してください');
+      return;
+    }
+
+    const keyframe = createTimelineKeyframe(pose, currentTime);
+    // 同じ時刻のキーフレームは置き換える
+    const updated = updateTimeline({
+      keyframes: sortKeyframes([
+        ...timeline.keyframes.filter(item => Math.abs(item.time - currentTime) > 1e-3),
+        keyframe
+      ])
+    });
+    setSelectedKeyframeId(keyframe.id);
+    showTime(currentTime, updated);
+  };
+
+  const handleDeleteKeyframe = (keyframeId: string) => {
+    const updated = updateTimeline({ keyframes: timeline.keyframes.filter(item => item.id !== keyframeId) });
+    setSelectedKeyframeId(null);
+    showTime(currentTime, updated);
+  };
+
+  const handleDurationChange = (duration: number) => {
+    const clamped = Math.max(0.1, Math.min(duration, 600));
+    // 長さを超えるキーフレームは最後に寄せる
+    const updated = updateTimeline({
+      duration: clamped,
+      keyframes: timeline.keyframes.map(keyframe => ({ ...keyframe, time: Math.min(keyframe.time, clamped) }))
+    });
+    showTime(Math.min(currentTime, clamped), updated);
+  };
+
+  // トラック上の位置から時刻を求める
+  const getTrackTime = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    const ratio = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    return Math.round(ratio * timelineRef.current.duration * 100) / 100;
+  };
+
+  const handleKeyframePointerDown = (event: React.PointerEvent<HTMLButtonElement>, keyframeId: string) => {
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    draggingKeyframeIdRef.current = keyframeId;
+    setSelectedKeyframeId(keyframeId);
+    stopPlayback();
+  };
+
+  const handleKeyframePointerMove = (event: React.PointerEvent<HTMLButtonElement>) => {
+    const keyframeId = draggingKeyframeIdRef.current;
+    if (!keyframeId) return;
+    const time = getTrackTime(event.clientX);
+    // ドラッグ中のキーフレームの時刻を再生位置にする
+    currentTimeRef.current = time;
+    updateKeyframe(keyframeId, { time }, false);
+  };
+
+  const handleKeyframePointerUp = (event: React.PointerEvent<HTMLButtonElement>) => {
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    draggingKeyframeIdRef.current = null;
+    commitLivePose();
+  };
+
+  const handleTrackPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    setIsPlaying(false);
+    showTime(getTrackTime(event.clientX));
+  };
+
+  const handleSaveTimeline = () => {
+    if (timeline.keyframes.length < 2) {
+      alert('タイムラインには2つ以上のキーフレームが必要です');
+      return;
+    }
+    const name = timeline.name.trim() || `タイムライン ${new Date().toLocaleString('ja-JP')}`;
+    const { id, duration, loop, keyframes } = timeline;
+    const saved = TimelineManager.saveTimeline({ id: id || undefined, name, duration, loop, keyframes });
+    updateTimeline(saved);
+    setSavedTimelines(TimelineManager.getTimelines());
+    alert(`「${saved.name}」を保存しました`);
+  };
+
+  const handleLoadTimeline = (timelineId: string) => {
+    const loaded = TimelineManager.getTimelineById(timelineId);
+    if (!loaded) return;
+    setIsPlaying(false);
+    setSelectedKeyframeId(null);
+    const updated = updateTimeline(loaded);
+    showTime(0, updated);
+  };
+
+  const handleDeleteTimeline = () => {
+    if (!timeline.id || !confirm(`「${timeline.name}」を削除しますか？`)) return;
+    TimelineManager.deleteTimeline(timeline.id);
+    setSavedTimelines(TimelineManager.getTimelines());
+    stopPlayback();
+    setSelectedKeyframeId(null);
+    updateTimeline(createEmptyTimeline());
+    setCurrentTime(0);
+  };
+
+  const handleNewTimeline = () => {
+    stopPlayback();
+    setSelectedKeyframeId(null);
+    updateTimeline(createEmptyTimeline());
+    setCurrentTime(0);
+  };
+
+  const selectedKeyframe = timeline.keyframes.find(keyframe => keyframe.id === selectedKeyframeId);
+  const getPosition = (time: number) => `${timeline.duration > 0 ? (time / timeline.duration) * 100 : 0}%`;
+
+  return (
+    <div className="mt-4 p-4 border rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">🎞️ タイムライン</h3>
+        <div className="flex items-center space-x-2 text-sm">
+          <select
+            value={timeline.id}
+            onChange={(e) => (e.target.value ? handleLoadTimeline(e.target.value) : handleNewTimeline())}
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            <option value="">新しいタイムライン</option>
+            {savedTimelines.map(item => (
+              <option key={item.id} value={item.id}>{item.name}</option>
+            ))}
+          </select>
+          {timeline.id && (
+            <button
+              onClick={handleDeleteTimeline}
+              className="text-red-600 hover:text-red-700"
+              title="タイムラインを削除"
+            >
+              削除
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* キーフレームの追加 */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={poseToAdd}
+          onChange={(e) => setPoseToAdd(e.target.value)}
+          onFocus={() => setSavedPoses(SavedPoseManager.getSavedPoses())}
+          className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1"
+        >
+          <option value="">保存済みポーズを選択...</option>
+          {savedPoses.map(pose => (
+            <option key={pose.id} value={pose.id}>{pose.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleAddKeyframe}
+          disabled={!poseToAdd}
+          className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-3 py-1 rounded transition-colors"
+        >
+          {formatTime(currentTime)}にキーフレームを追加
+        </button>
+      </div>
+
+      {/* トラック */}
+      <div
+        ref={trackRef}
+        onPointerDown={handleTrackPointerDown}
+        className="relative h-10 bg-gray-100 rounded cursor-pointer select-none"
+      >
+        {timeline.keyframes.map(keyframe => (
+          <button
+            key={keyframe.id}
+            onPointerDown={(e) => handleKeyframePointerDown(e, keyframe.id)}
+            onPointerMove={handleKeyframePointerMove}
+            onPointerUp={handleKeyframePointerUp}
+            className={`absolute top-1/2 w-3 h-3 -ml-1.5 -mt-1.5 rotate-45 touch-none ${
+              keyframe.id === selectedKeyframeId ? 'bg-orange-500' : 'bg-blue-500 hover:bg-blue-600'
+            }`}
+            style={{ left: getPosition(keyframe.time) }}
+            title={`${keyframe.name}（${formatTime(keyframe.time)}）`}
+          />
+        ))}
+        <div
+          className="absolute top-0 bottom-0 w-0.5 bg-red-500 pointer-events-none"
+          style={{ left: getPosition(currentTime) }}
+        />
+      </div>
+
+      <input
+        type="range"
+        min="0"
+        max={timeline.duration}
+        step="0.01"
+        value={currentTime}
+        onChange={(e) => {
+          setIsPlaying(false);
+          showTime(parseFloat(e.target.value), timelineRef.current, false);
+        }}
+        onPointerUp={commitLivePose}
+        onKeyUp={commitLivePose}
+        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+      />
+
+      {/* 再生コントロール */}
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+        <button
+          onClick={() => {
+            setIsPlaying(false);
+            showTime(0);
+          }}
+          className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+          title="先頭へ"
+        >
+          ⏮
+        </button>
+        <button
+          onClick={handleTogglePlay}
+          className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+        >
+          {isPlaying ? '⏸ 一時停止' : '▶ 再生'}
+        </button>
+        <span>{formatTime(currentTime)} / {formatTime(timeline.duration)}</span>
+        <label className="flex items-center space-x-1">
+          <input
+            type="checkbox"
+            checked={timeline.loop}
+            onChange={(e) => updateTimeline({ loop: e.target.checked })}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>ループ</span>
+        </label>
+        <label className="flex items-center space-x-1">
+          <span>長さ</span>
+          <input
+            type="number"
+            min={0.1}
+            max={600}
+            step={0.1}
+            value={timeline.duration}
+            onChange={(e) => handleDurationChange(parseFloat(e.target.value) || 0.1)}
+            className="w-20 border border-gray-300 rounded px-2 py-1"
+          />
+          <span>秒</span>
+        </label>
+      </div>
+
+      {/* 選択中のキーフレーム */}
+      {selectedKeyframe && (
+        <div className="p-3 bg-gray-50 rounded space-y-2 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">{selectedKeyframe.name}</span>
+            <button
+              onClick={() => handleDeleteKeyframe(selectedKeyframe.id)}
+              className="text-red-600 hover:text-red-700"
+            >
+              キーフレームを削除
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center space-x-1">
+              <span>時刻</span>
+              <input
+                type="number"
+                min={0}
+                max={timeline.duration}
+                step={0.01}
+                value={selectedKeyframe.time}
+                onChange={(e) => updateKeyframe(selectedKeyframe.id, {
+                  time: Math.max(0, Math.min(parseFloat(e.target.value) || 0, timeline.duration))
+                })}
+                className="w-20 border border-gray-300 rounded px-2 py-1"
+              />
+              <span>秒</span>
+            </label>
+            <label className="flex items-center space-x-1">
+              <span>次のキーまでの補間</span>
+              <select
+                value={selectedKeyframe.easing}
+                onChange={(e) => updateKeyframe(selectedKeyframe.id, { easing: e.target.value as TimelineEasing })}
+                className="border border-gray-300 rounded px-2 py-1"
+              >
+                {(Object.keys(EASING_LABELS) as TimelineEasing[]).map(easing => (
+                  <option key={easing} value={easing}>{EASING_LABELS[easing]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {selectedKeyframe.easing === 'bezier' && (
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value=""
+                onChange={(e) => e.target.value && updateKeyframe(selectedKeyframe.id, {
+                  bezier: BEZIER_PRESETS[e.target.value].curve
+                })}
+                className="border border-gray-300 rounded px-2 py-1"
+              >
+                <option value="">プリセット...</option>
+                {Object.entries(BEZIER_PRESETS).map(([key, preset]) => (
+                  <option key={key} value={key}>{preset.label}</option>
+                ))}
+              </select>
+              <span className="text-gray-600">cubic-bezier(</span>
+              {(selectedKeyframe.bezier || DEFAULT_BEZIER_CURVE).map((value, index) => (
+                <input
+                  key={index}
+                  type="number"
+                  step={0.01}
+                  // x座標（制御点の時間）は0-1の範囲に限る
+                  min={index % 2 === 0 ? 0 : undefined}
+                  max={index % 2 === 0 ? 1 : undefined}
+                  value={value}
+                  onChange={(e) => {
+                    const curve = [...(selectedKeyframe.bezier || DEFAULT_BEZIER_CURVE)] as BezierCurve;
+                    const next = parseFloat(e.target.value) || 0;
+                    curve[index] = index % 2 === 0 ? Math.max(0, Math.min(1, next)) : next;
+                    updateKeyframe(selectedKeyframe.id, { bezier: curve });
+                  }}
+                  className="w-16 border border-gray-300 rounded px-2 py-1"
+                />
+              ))}
+              <span className="text-gray-600">)</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* 保存 */}
+      <div className="flex items-center space-x-2 text-sm">
+        <input
+          type="text"
+          value={timeline.name}
+          onChange={(e) => updateTimeline({ name: e.target.value })}
+          placeholder="タイムライン名"
+          className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1"
+        />
+        <button
+          onClick={handleSaveTimeline}
+          className="bg-green-500 hover:bg-green-600 text-white px-3 py-1 rounded transition-colors"
+        >
+          タイムラインを保存
+        </button>
+      </div>
+    </div>
+  );
+}
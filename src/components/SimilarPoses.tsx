@@ -0,0 +1,117 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { SavedPoseManager, type PoseData } from '@/lib/poseInterpolation';
+import {
+  POSE_INDEX_SOURCE_LABELS,
+  buildPoseIndex,
+  findSimilarPoses,
+  type PoseIndexEntry,
+  type SimilarPose
+} from '@/lib/poseSimilarity';
+import { getGuestTemplates, type PoseTemplate } from '@/lib/templates';
+import { getGuestGallery } from '@/lib/gallery';
+
+interface SimilarPosesProps {
+  query: PoseData;
+  queryLabel: string;
+  excludeKeys?: string[]; // 検索元のポーズ自身など（getPoseIndexKey で作成）
+  templates?: PoseTemplate[]; // 省略時はゲストのテンプレート
+  selectLabel?: string;
+  onSelect?: (result: SimilarPose) => void;
+  onClose: () => void;
+}
+
+const RESULT_LIMITS = [5, 10, 20];
+
+const SOURCE_BADGE_COLORS: Record<PoseIndexEntry['source'], string> = {
+  saved: 'bg-blue-100 text-blue-800',
+  template: 'bg-purple-100 text-purple-800',
+  gallery: 'bg-green-100 text-green-800'
+};
+
+export default function SimilarPoses({
+  query,
+  queryLabel,
+  excludeKeys = [],
+  templates,
+  selectLabel = '適用',
+  onSelect,
+  onClose
+}: SimilarPosesProps) {
+  const [index, setIndex] = useState<PoseIndexEntry[]>([]);
+  const [limit, setLimit] = useState<number>(RESULT_LIMITS[0]);
+  const [mirror, setMirror] = useState<boolean>(true);
+
+  // 検索対象はlocalStorageから読み込むため、表示の度に作り直す
+  useEffect(() => {
+    setIndex(buildPoseIndex({
+      savedPoses: SavedPoseManager.getSavedPoses(),
+      templates: templates || getGuestTemplates(),
+      gallery: getGuestGallery()
+    }));
+  }, [templates]);
+
+  const results = useMemo(
+    () => findSimilarPoses(index, query, { limit, mirror, excludeKeys }),
+    [index, query, limit, mirror, excludeKeys]
+  );
+
+  return (
+    <div className="p-4 border border-blue-200 bg-blue-50 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-blue-900">🔍 「{queryLabel}」に似ているポーズ</h4>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="閉じる">
+          ×
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+        <select
+          value={limit}
+          onChange={(e) => setLimit(parseInt(e.target.value))}
+          className="border border-gray-300 rounded px-2 py-1"
+        >
+          {RESULT_LIMITS.map(value => (
+            <option key={value} value={value}>上位{value}件</option>
+          ))}
+        </select>
+        <label className="flex items-center space-x-1">
+          <input
+            type="checkbox"
+            checked={mirror}
+            onChange={(e) => setMirror(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>左右反転も一致とみなす</span>
+        </label>
+        <span className="text-xs text-gray-500">{index.length}件から検索（ボーンの回転を持つポーズのみ）</span>
+      </div>
+
+      {results.length === 0 ? (
+        <p className="text-sm text-gray-500">比較できるポーズがありません</p>
+      ) : (
+        <ol className="space-y-2">
+          {results.map(result => (
+            <li key={result.entry.key} className="flex items-center space-x-3 bg-white rounded p-2 text-sm">
+              <span className="w-12 text-right font-semibold text-blue-700">{Math.round(result.score * 100)}%</span>
+              <span className={`text-xs px-1.5 py-0.5 rounded ${SOURCE_BADGE_COLORS[result.entry.source]}`}>
+                {POSE_INDEX_SOURCE_LABELS[result.entry.source]}
+              </span>
+              <span className="flex-1 truncate" title={result.entry.name}>{result.entry.name}</span>
+              {result.mirrored && <span className="text-xs text-gray-500">左右反転</span>}
+              {onSelect && (
+                <button
+                  onClick={() => onSelect(result)}
+                  className="text-xs bg-blue-500 hover:bg-blue-600 text-white px-2 py-1 rounded transition-colors"
+                >
+                  {selectLabel}
+                </button>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
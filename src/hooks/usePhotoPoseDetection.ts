@@ -0,0 +1,140 @@
+'use client';
+
+// 写真からのポーズ検出（プレビュー・ポーズ検出APIの呼び出し・ポーズ抽出回数の制限）を管理するReactフック
+// ビューアーの写真読み込みとアップロードページで共用する
+
+import { useState, useEffect, useCallback } from 'react';
+import { useUsage } from '@/components/UsageContext';
+import type { DetectedPerson } from '@/lib/detectedPeople';
+import { MAX_SCENE_CHARACTERS } from '@/lib/poseScene';
+
+// ポーズ検出APIと同じ制限
+export const PHOTO_ACCEPT_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const PHOTO_MAX_SIZE = 10 * 1024 * 1024; // 10MB
+
+interface UsePhotoPoseDetectionReturn {
+  imageUrl: string | null;
+  people: DetectedPerson[];
+  setPeople: (people: DetectedPerson[]) => void;
+  selectedIds: string[];
+  setSelectedIds: (selectedIds: string[]) => void;
+  aspectRatio: number;
+  isDetecting: boolean;
+  remainingCount: number;
+  detectFile: (file: File) => Promise<void>;
+}
+
+// 写真の縦横比（キーポイントは幅・高さで別々に正規化されているため、3Dポーズの推定に使う）
+function loadAspectRatio(url: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image.naturalWidth / image.naturalHeight);
+    image.onerror = () => reject(new Error('画像を読み込めませんでした'));
+    image.src = url;
+  });
+}
+
+// ログイン中のSupabaseのトークン（ポーズ検出APIがユーザー毎の使用回数を数えるのに使う）
+async function getAuthToken(): Promise<string> {
+  try {
+    const { createClient } = await import('@supabase/supabase-js');
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+    );
+
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.access_token || '';
+  } catch (error) {
+    console.error('認証トークンの取得に失敗:', error);
+    return '';
+  }
+}
+
+/**
+ * 写真を選ぶとプレビューを表示し、ポーズ検出APIで人物を検出するカスタムフック
+ */
+export function usePhotoPoseDetection(): UsePhotoPoseDetectionReturn {
+  const { usage, limits, checkUsage, incrementUsage } = useUsage();
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [people, setPeople] = useState<DetectedPerson[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [aspectRatio, setAspectRatio] = useState(1);
+  const [isDetecting, setIsDetecting] = useState(false);
+
+  // プレビュー用のURLは差し替え・閉じる時に解放する
+  useEffect(() => {
+    return () => {
+      if (imageUrl) URL.revokeObjectURL(imageUrl);
+    };
+  }, [imageUrl]);
+
+  const detectFile = useCallback(async (file: File) => {
+    if (!PHOTO_ACCEPT_TYPES.includes(file.type)) {
+      alert('サポートされていないファイル形式です。JPEG, PNG, WebPのみ対応しています。');
+      return;
+    }
+    if (file.size > PHOTO_MAX_SIZE) {
+      alert('ファイルサイズが大きすぎます。10MB以下のファイルをアップロードしてください。');
+      return;
+    }
+
+    const usageCheck = checkUsage('poseExtraction');
+    if (!usageCheck.canUse) {
+      alert(`本日のポーズ抽出制限（${usageCheck.limit}回）に達しました。明日00:00にリセットされます。`);
+      return;
+    }
+
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+    setPeople([]);
+    setSelectedIds([]);
+    setIsDetecting(true);
+
+    try {
+      setAspectRatio(await loadAspectRatio(url));
+
+      const formData = new FormData();
+      formData.append('image', file);
+
+      const token = await getAuthToken();
+      const response = await fetch('/api/pose', {
+        method: 'POST',
+        headers: token ? { 'Authorization': `Bearer ${token}` } : undefined,
+        body: formData
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.message || 'ポーズ検出に失敗しました');
+      }
+
+      await incrementUsage('poseExtraction');
+
+      const detected: DetectedPerson[] = result.people || [];
+      setPeople(detected);
+      // スコアの高い順に、シーンに入る人数まで選択しておく
+      setSelectedIds(detected.slice(0, MAX_SCENE_CHARACTERS).map(person => person.id));
+      if (detected.length === 0) {
+        alert('写真から人物が見つかりませんでした');
+      }
+    } catch (error) {
+      console.error('Pose detection error:', error);
+      alert(error instanceof Error ? error.message : 'ポーズ検出に失敗しました');
+    } finally {
+      setIsDetecting(false);
+    }
+  }, [checkUsage, incrementUsage]);
+
+  return {
+    imageUrl,
+    people,
+    setPeople,
+    selectedIds,
+    setSelectedIds,
+    aspectRatio,
+    isDetecting,
+    remainingCount: Math.max(0, limits.poseExtraction - usage.poseExtraction),
+    detectFile
+  };
+}
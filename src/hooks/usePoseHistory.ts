@@ -0,0 +1,134 @@
+'use client';
+
+// ポーズ編集の元に戻す／やり直しを管理するReactフック
+// ドラッグ中の変化は表示のみ更新し、操作の確定時にシーン全体を履歴へ追加する
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { PoseScene } from '@/lib/poseScene';
+import { PoseHistory, type PoseHistoryPushOptions } from '@/lib/poseHistory';
+
+interface UsePoseHistoryOptions {
+  enableShortcuts?: boolean;
+}
+
+interface UsePoseHistoryReturn {
+  scene: PoseScene | null;
+  setLiveScene: (scene: PoseScene) => void;
+  commitScene: (scene: PoseScene, options?: PoseHistoryPushOptions) => void;
+  updateScene: (updater: (current: PoseScene | null) => PoseScene, options?: PoseHistoryPushOptions) => void;
+  updateLiveScene: (updater: (current: PoseScene | null) => PoseScene) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * 入力欄にフォーカスがある場合はブラウザ標準の取り消しを優先する
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable;
+}
+
+/**
+ * ポーズの操作履歴を管理するカスタムフック
+ */
+export function usePoseHistory(options: UsePoseHistoryOptions = {}): UsePoseHistoryReturn {
+  const { enableShortcuts = true } = options;
+
+  const historyRef = useRef<PoseHistory>(new PoseHistory());
+  const [scene, setScene] = useState<PoseScene | null>(null);
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  /**
+   * 履歴の状態をReactの状態とセッションストレージに反映
+   */
+  const syncState = useCallback(() => {
+    const history = historyRef.current;
+    setCanUndo(history.canUndo());
+    setCanRedo(history.canRedo());
+    history.save();
+  }, []);
+
+  // 再読み込み前の履歴を復元
+  useEffect(() => {
+    historyRef.current = PoseHistory.load();
+    setScene(historyRef.current.present);
+    setCanUndo(historyRef.current.canUndo());
+    setCanRedo(historyRef.current.canRedo());
+  }, []);
+
+  const setLiveScene = useCallback((newScene: PoseScene) => {
+    setScene(newScene);
+  }, []);
+
+  const commitScene = useCallback((newScene: PoseScene, pushOptions?: PoseHistoryPushOptions) => {
+    historyRef.current.push(newScene, pushOptions);
+    setScene(newScene);
+    syncState();
+  }, [syncState]);
+
+  /**
+   * 確定済みのシーンを元に新しいシーンを作成して確定（テンプレート読み込みや補間用）
+   */
+  const updateScene = useCallback((
+    updater: (current: PoseScene | null) => PoseScene,
+    pushOptions?: PoseHistoryPushOptions
+  ) => {
+    commitScene(updater(historyRef.current.present), pushOptions);
+  }, [commitScene]);
+
+  /**
+   * 確定済みのシーンを元に表示のみ更新（タイムラインの再生中など、毎フレームの変化は履歴に追加しない）
+   */
+  const updateLiveScene = useCallback((updater: (current: PoseScene | null) => PoseScene) => {
+    setScene(updater(historyRef.current.present));
+  }, []);
+
+  const undo = useCallback(() => {
+    if (!historyRef.current.canUndo()) return;
+    setScene(historyRef.current.undo());
+    syncState();
+  }, [syncState]);
+
+  const redo = useCallback(() => {
+    if (!historyRef.current.canRedo()) return;
+    setScene(historyRef.current.redo());
+    syncState();
+  }, [syncState]);
+
+  // Ctrl+Z / Ctrl+Shift+Z（Ctrl+Y）のショートカット
+  useEffect(() => {
+    if (!enableShortcuts) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enableShortcuts, undo, redo]);
+
+  return {
+    scene,
+    setLiveScene,
+    commitScene,
+    updateScene,
+    updateLiveScene,
+    undo,
+    redo,
+    canUndo,
+    canRedo
+  };
+}
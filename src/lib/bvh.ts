@@ -0,0 +1,289 @@
+'use client';
+
+// BVH（モーションキャプチャ）の読み書き
+// BVHの関節は回転を持たない（初期姿勢では全て世界座標と同じ向き）ため、エディターのリグと同じ考え方で回転を扱える
+// 初期姿勢がTポーズでない場合（Aポーズなど）は、ボーンの向きの差を補正して対応付ける
+
+import * as THREE from 'three';
+import { HUMANOID_BONES, type PoseData } from './humanoidRig';
+import { autoMapBones } from './modelLoader';
+
+export type BvhChannel = 'Xposition' | 'Yposition' | 'Zposition' | 'Xrotation' | 'Yrotation' | 'Zrotation';
+
+export interface BvhJoint {
+  name: string;
+  offset: [number, number, number];
+  channels: BvhChannel[];
+  channelIndex: number; // フレームデータ内の先頭チャンネルの位置
+  children: BvhJoint[];
+  endSite?: [number, number, number];
+}
+
+export interface BvhMotion {
+  root: BvhJoint;
+  joints: BvhJoint[]; // 階層順
+  frameTime: number; // 1フレームの秒数
+  frames: number[][];
+}
+
+// BVHの関節とエディターのボーンの対応（モーション毎に一度だけ計算する）
+export interface BvhRetarget {
+  boneByJoint: Record<string, string>;
+  unmappedJoints: string[];
+  scale: number; // BVHの1単位あたりのメートル
+}
+
+const BVH_CHANNELS: BvhChannel[] = ['Xposition', 'Yposition', 'Zposition', 'Xrotation', 'Yrotation', 'Zrotation'];
+
+// 書き出し時の単位（cm）
+const BVH_UNITS_PER_METER = 100;
+const DEFAULT_BVH_SCALE = 1 / BVH_UNITS_PER_METER;
+
+const AXES: Record<string, THREE.Vector3> = {
+  X: new THREE.Vector3(1, 0, 0),
+  Y: new THREE.Vector3(0, 1, 0),
+  Z: new THREE.Vector3(0, 0, 1)
+};
+
+const BONE_DEFINITIONS = new Map(HUMANOID_BONES.map(definition => [definition.name, definition]));
+
+function parseError(message: string): Error {
+  return new Error(`BVHファイルの形式が不正です: ${message}`);
+}
+
+export function parseBvh(text: string): BvhMotion {
+  const tokens = text.split(/\s+/).filter(token => token.length > 0);
+  let position = 0;
+  const joints: BvhJoint[] = [];
+  let channelCount = 0;
+
+  const next = () => {
+    if (position >= tokens.length) throw parseError('ファイルが途中で終わっています');
+    return tokens[position++];
+  };
+  const expect = (token: string) => {
+    const actual = next();
+    if (actual !== token) throw parseError(`「${token}」が必要です（「${actual}」）`);
+  };
+  const readNumber = () => {
+    const value = parseFloat(next());
+    if (!Number.isFinite(value)) throw parseError('数値が不正です');
+    return value;
+  };
+  const readVector = (): [number, number, number] => [readNumber(), readNumber(), readNumber()];
+
+  const parseJoint = (name: string): BvhJoint => {
+    const joint: BvhJoint = { name, offset: [0, 0, 0], channels: [], channelIndex: channelCount, children: [] };
+    joints.push(joint);
+    expect('{');
+
+    for (let token = next(); token !== '}'; token = next()) {
+      if (token === 'OFFSET') {
+        joint.offset = readVector();
+      } else if (token === 'CHANNELS') {
+        const count = readNumber();
+        for (let i = 0; i < count; i++) {
+          const channel = next() as BvhChannel;
+          if (!BVH_CHANNELS.includes(channel)) throw parseError(`未対応のチャンネル ${channel}`);
+          joint.channels.push(channel);
+        }
+        joint.channelIndex = channelCount;
+        channelCount += count;
+      } else if (token === 'JOINT') {
+        joint.children.push(parseJoint(next()));
+      } else if (token === 'End') {
+        expect('Site');
+        expect('{');
+        expect('OFFSET');
+        joint.endSite = readVector();
+        expect('}');
+      } else {
+        throw parseError(`不明な項目 ${token}`);
+      }
+    }
+
+    return joint;
+  };
+
+  expect('HIERARCHY');
+  expect('ROOT');
+  const root = parseJoint(next());
+
+  expect('MOTION');
+  expect('Frames:');
+  const frameCount = readNumber();
+  expect('Frame');
+  expect('Time:');
+  const frameTime = readNumber();
+
+  const frames: number[][] = [];
+  for (let i = 0; i < frameCount; i++) {
+    const frame: number[] = [];
+    for (let j = 0; j < channelCount; j++) {
+      frame.push(readNumber());
+    }
+    frames.push(frame);
+  }
+
+  if (frames.length === 0) {
+    throw parseError('フレームがありません');
+  }
+
+  return { root, joints, frameTime, frames };
+}
+
+const vectorLength = (vector: [number, number, number]) => Math.hypot(...vector);
+
+// 関節名をボーン名に対応付け、足の長さからBVHの単位を推定
+export function createBvhRetarget(motion: BvhMotion): BvhRetarget {
+  const boneByJoint: Record<string, string> = {};
+  Object.entries(autoMapBones(motion.joints.map(joint => joint.name))).forEach(([boneName, jointName]) => {
+    boneByJoint[jointName] = boneName;
+  });
+  // エディターから書き出したBVHはRootを持つ
+  if (motion.root.name === 'Root') {
+    boneByJoint.Root = 'Root';
+  }
+
+  const jointByBone = new Map(Object.entries(boneByJoint).map(([jointName, boneName]) => [boneName, jointName]));
+  const getJoint = (boneName: string) => motion.joints.find(joint => joint.name === jointByBone.get(boneName));
+  const legBones = ['LeftLeg', 'LeftFoot'];
+  const bvhLegLength = legBones.reduce((sum, boneName) => sum + vectorLength(getJoint(boneName)?.offset || [0, 0, 0]), 0);
+  const legLength = legBones.reduce((sum, boneName) => sum + vectorLength(BONE_DEFINITIONS.get(boneName)!.offset), 0);
+
+  return {
+    boneByJoint,
+    unmappedJoints: motion.joints.map(joint => joint.name).filter(name => !boneByJoint[name]),
+    scale: legBones.every(getJoint) && bvhLegLength > 0 ? legLength / bvhLegLength : DEFAULT_BVH_SCALE
+  };
+}
+
+// ボーンの初期姿勢での向き（末端の長さ、または唯一の子ボーンの方向）
+function getBoneDirection(boneName: string): THREE.Vector3 | null {
+  const definition = BONE_DEFINITIONS.get(boneName);
+  if (definition?.tip) return new THREE.Vector3(...definition.tip);
+
+  const children = HUMANOID_BONES.filter(bone => bone.parent === boneName);
+  return children.length === 1 ? new THREE.Vector3(...children[0].offset) : null;
+}
+
+function getJointDirection(joint: BvhJoint): THREE.Vector3 | null {
+  if (joint.children.length === 1) return new THREE.Vector3(...joint.children[0].offset);
+  if (joint.children.length === 0 && joint.endSite) return new THREE.Vector3(...joint.endSite);
+  return null;
+}
+
+// 関節の回転（チャンネルの記載順に掛け合わせる）
+function getJointRotation(joint: BvhJoint, frame: number[]): THREE.Quaternion {
+  const rotation = new THREE.Quaternion();
+  joint.channels.forEach((channel, index) => {
+    if (!channel.endsWith('rotation')) return;
+    const angle = THREE.MathUtils.degToRad(frame[joint.channelIndex + index] || 0);
+    rotation.multiply(new THREE.Quaternion().setFromAxisAngle(AXES[channel[0]], angle));
+  });
+  return rotation;
+}
+
+function getJointPosition(joint: BvhJoint, frame: number[]): THREE.Vector3 | null {
+  const indices = (['Xposition', 'Yposition', 'Zposition'] as BvhChannel[]).map(channel => joint.channels.indexOf(channel));
+  if (indices.every(index => index < 0)) return null;
+
+  return new THREE.Vector3(
+    ...indices.map((index, axis) => (index < 0 ? joint.offset[axis] : frame[joint.channelIndex + index]))
+  );
+}
+
+/**
+ * 指定したフレームをエディターのポーズに変換
+ * 対応付けできない関節の回転は、対応付けできた子孫のボーンに含める
+ */
+export function getBvhFramePose(motion: BvhMotion, retarget: BvhRetarget, frameIndex: number): PoseData {
+  const frame = motion.frames[Math.max(0, Math.min(frameIndex, motion.frames.length - 1))];
+  const pose: PoseData = {};
+
+  const visit = (joint: BvhJoint, pending: THREE.Quaternion, parentCorrection: THREE.Quaternion) => {
+    const rotation = pending.clone().multiply(getJointRotation(joint, frame));
+    const boneName = retarget.boneByJoint[joint.name];
+
+    if (!boneName) {
+      joint.children.forEach(child => visit(child, rotation, parentCorrection));
+      return;
+    }
+
+    // 初期姿勢のボーンの向きの差（向きが決まらない場合は親の補正を引き継ぐ）
+    const boneDirection = getBoneDirection(boneName);
+    const jointDirection = getJointDirection(joint);
+    const correction = boneDirection && jointDirection && boneDirection.lengthSq() > 0 && jointDirection.lengthSq() > 0
+      ? new THREE.Quaternion().setFromUnitVectors(boneDirection.normalize(), jointDirection.normalize())
+      : parentCorrection.clone();
+
+    const local = parentCorrection.clone().invert().multiply(rotation).multiply(correction);
+    const euler = new THREE.Euler().setFromQuaternion(local);
+    pose[boneName] = { rotation: [euler.x, euler.y, euler.z] };
+
+    joint.children.forEach(child => visit(child, new THREE.Quaternion(), correction));
+  };
+
+  visit(motion.root, new THREE.Quaternion(), new THREE.Quaternion());
+
+  // ルート関節の移動をRootの位置にする（Hipsがルートの場合は腰の高さを差し引く）
+  const rootPosition = getJointPosition(motion.root, frame);
+  if (rootPosition) {
+    const position = rootPosition.multiplyScalar(retarget.scale);
+    const rootBone = retarget.boneByJoint[motion.root.name];
+    if (rootBone !== 'Root') {
+      position.sub(new THREE.Vector3(...BONE_DEFINITIONS.get('Hips')!.offset));
+    }
+    pose.Root = { rotation: pose.Root?.rotation || [0, 0, 0], position: position.toArray() as [number, number, number] };
+  }
+
+  return pose;
+}
+
+/**
+ * ポーズの列をエディターのリグの階層でBVHに書き出す
+ * 回転はEuler角（XYZ順）をそのまま Xrotation Yrotation Zrotation の順で書き出す
+ */
+export function writeBvh(poses: PoseData[], fps: number): string {
+  const format = (value: number) => (Math.abs(value) < 1e-9 ? 0 : value).toFixed(6);
+  const lines: string[] = ['HIERARCHY'];
+  const order: string[] = [];
+
+  const writeJoint = (boneName: string, depth: number) => {
+    const definition = BONE_DEFINITIONS.get(boneName)!;
+    const indent = '  '.repeat(depth);
+    const offset = definition.offset.map(value => format(value * BVH_UNITS_PER_METER)).join(' ');
+    const children = HUMANOID_BONES.filter(bone => bone.parent === boneName);
+    order.push(boneName);
+
+    lines.push(`${indent}${depth === 0 ? 'ROOT' : 'JOINT'} ${boneName}`);
+    lines.push(`${indent}{`);
+    lines.push(`${indent}  OFFSET ${offset}`);
+    lines.push(depth === 0
+      ? `${indent}  CHANNELS 6 Xposition Yposition Zposition Xrotation Yrotation Zrotation`
+      : `${indent}  CHANNELS 3 Xrotation Yrotation Zrotation`);
+
+    children.forEach(child => writeJoint(child.name, depth + 1));
+
+    if (children.length === 0) {
+      const tip = (definition.tip || [0, 0, 0]).map(value => format(value * BVH_UNITS_PER_METER)).join(' ');
+      lines.push(`${indent}  End Site`, `${indent}  {`, `${indent}    OFFSET ${tip}`, `${indent}  }`);
+    }
+    lines.push(`${indent}}`);
+  };
+
+  writeJoint('Root', 0);
+
+  lines.push('MOTION', `Frames: ${poses.length}`, `Frame Time: ${format(1 / fps)}`);
+  poses.forEach(pose => {
+    const values = order.flatMap(boneName => {
+      const rotation = (pose[boneName]?.rotation || [0, 0, 0]).map(THREE.MathUtils.radToDeg);
+      if (boneName !== 'Root') return rotation;
+      const position = (pose.Root?.position || [0, 0, 0]).map(value => value * BVH_UNITS_PER_METER);
+      return [...position, ...rotation];
+    });
+    lines.push(values.map(format).join(' '));
+  });
+
+  return lines.join('\n') + '\n';
+}
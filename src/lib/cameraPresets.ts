@@ -0,0 +1,70 @@
+// エディターのカメラ（シーンと一緒に保存し、生成用の2D投影にも使う）
+
+export interface CameraState {
+  position: [number, number, number];
+  target: [number, number, number]; // 注視点（オービット操作の中心）
+  fov: number; // 縦方向の画角（度）
+}
+
+export type CameraPresetId = 'front' | 'side' | 'back' | 'top' | 'lowAngle' | 'highAngle' | 'threeQuarter';
+
+// キャラクターの腰のあたりを注視する
+const BODY_TARGET: [number, number, number] = [0, 0.9, 0];
+
+export const DEFAULT_CAMERA_FOV = 50;
+export const MIN_CAMERA_FOV = 10;
+export const MAX_CAMERA_FOV = 100;
+
+// キャラクターは+Z方向を向いているため、正面のカメラは+Z側に置く
+export const CAMERA_PRESETS: Record<CameraPresetId, { label: string; camera: CameraState }> = {
+  front: {
+    label: '正面',
+    camera: { position: [0, 1.1, 3], target: BODY_TARGET, fov: DEFAULT_CAMERA_FOV }
+  },
+  side: {
+    label: '側面',
+    camera: { position: [3, 1.1, 0], target: BODY_TARGET, fov: DEFAULT_CAMERA_FOV }
+  },
+  back: {
+    label: '背面',
+    camera: { position: [0, 1.1, -3], target: BODY_TARGET, fov: DEFAULT_CAMERA_FOV }
+  },
+  top: {
+    label: '真上',
+    // 真上だと向きが定まらないため、わずかに正面側へずらす
+    camera: { position: [0, 4, 0.01], target: BODY_TARGET, fov: DEFAULT_CAMERA_FOV }
+  },
+  lowAngle: {
+    label: 'アオリ',
+    camera: { position: [0, 0.2, 2.6], target: [0, 1.1, 0], fov: DEFAULT_CAMERA_FOV }
+  },
+  highAngle: {
+    label: '俯瞰',
+    camera: { position: [0, 2.8, 2.2], target: [0, 0.8, 0], fov: DEFAULT_CAMERA_FOV }
+  },
+  threeQuarter: {
+    label: '斜め前',
+    camera: { position: [2.1, 1.3, 2.1], target: BODY_TARGET, fov: DEFAULT_CAMERA_FOV }
+  }
+};
+
+export const DEFAULT_CAMERA_STATE = CAMERA_PRESETS.front.camera;
+
+// 35mm判（フィルム幅36mm）換算の焦点距離と画角の変換（縦横比1:1の生成画像を基準にする）
+const FILM_GAUGE = 36;
+
+export function fovToFocalLength(fov: number): number {
+  return FILM_GAUGE / 2 / Math.tan((fov * Math.PI) / 360);
+}
+
+export function focalLengthToFov(focalLength: number): number {
+  return (Math.atan(FILM_GAUGE / 2 / focalLength) * 360) / Math.PI;
+}
+
+export function isCameraState(data: unknown): data is CameraState {
+  if (!data || typeof data !== 'object') return false;
+  const camera = data as Partial<CameraState>;
+  return Array.isArray(camera.position) && camera.position.length === 3 &&
+    Array.isArray(camera.target) && camera.target.length === 3 &&
+    typeof camera.fov === 'number';
+}
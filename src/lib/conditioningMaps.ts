@@ -0,0 +1,188 @@
+// ControlNet用の条件画像（深度・法線・シルエット）をエディターのカメラから描画
+// 種類の定義は画像生成APIと共有し、描画はブラウザのWebGLRendererで行う
+
+import * as THREE from 'three';
+
+export type ConditioningMapType = 'depth' | 'normal' | 'silhouette';
+
+export const CONDITIONING_MAP_TYPES: ConditioningMapType[] = ['depth', 'normal', 'silhouette'];
+
+export const CONDITIONING_MAP_LABELS: Record<ConditioningMapType, string> = {
+  depth: '深度マップ',
+  normal: '法線マップ',
+  silhouette: 'シルエット'
+};
+
+export const CONDITIONING_MAP_RESOLUTIONS = [512, 768, 1024];
+
+// 画像生成APIのFormDataで使うフィールド名
+export function getConditioningMapField(type: ConditioningMapType): string {
+  return `conditioning_${type}`;
+}
+
+// 描画対象のメッシュだけを有効にするレイヤー（ボーンヘルパーやグリッドは写さない）
+const CONDITIONING_LAYER = 31;
+
+// 深度マップの手前・奥に持たせる余白（m）
+const DEPTH_MARGIN = 0.05;
+
+// 背景色（深度・シルエットは黒、法線はカメラ正面を向いた面と同じ色）
+// レンダーターゲットには色空間の変換をせずに書き込まれるため、値をそのまま指定する
+const BACKGROUND_COLORS: Record<ConditioningMapType, THREE.Color> = {
+  depth: new THREE.Color().setRGB(0, 0, 0, THREE.LinearSRGBColorSpace),
+  normal: new THREE.Color().setRGB(0.5, 0.5, 1, THREE.LinearSRGBColorSpace),
+  silhouette: new THREE.Color().setRGB(0, 0, 0, THREE.LinearSRGBColorSpace)
+};
+
+// 視点からの距離を線形に正規化した深度（手前が白、奥が黒）
+function createDepthMaterial(near: number, far: number): THREE.ShaderMaterial {
+  return new THREE.ShaderMaterial({
+    uniforms: {
+      nearDistance: { value: near },
+      farDistance: { value: far }
+    },
+    vertexShader: `
+      #include <common>
+      #include <skinning_pars_vertex>
+      varying float vViewDepth;
+      void main() {
+        #include <skinbase_vertex>
+        #include <begin_vertex>
+        #include <skinning_vertex>
+        #include <project_vertex>
+        vViewDepth = -mvPosition.z;
+      }
+    `,
+    fragmentShader: `
+      uniform float nearDistance;
+      uniform float farDistance;
+      varying float vViewDepth;
+      void main() {
+        float depth = 1.0 - clamp((vViewDepth - nearDistance) / (farDistance - nearDistance), 0.0, 1.0);
+        gl_FragColor = vec4(vec3(depth), 1.0);
+      }
+    `
+  });
+}
+
+function createPassMaterial(type: ConditioningMapType, near: number, far: number): THREE.Material {
+  switch (type) {
+    case 'depth':
+      return createDepthMaterial(near, far);
+    case 'normal':
+      // カメラ空間の法線（右: R、上: G、手前: B）
+      return new THREE.MeshNormalMaterial();
+    case 'silhouette':
+      return new THREE.MeshBasicMaterial({ color: 0xffffff });
+  }
+}
+
+// 描画対象のメッシュ（非表示のものとボーンヘルパーは除く）
+function collectTargetMeshes(targets: THREE.Object3D[], exclude: THREE.Object3D[]): THREE.Mesh[] {
+  const excluded = new Set(exclude);
+  const meshes: THREE.Mesh[] = [];
+
+  targets.forEach(target => {
+    if (!target.visible) return;
+    target.traverseVisible(object => {
+      if ((object as THREE.Mesh).isMesh && !excluded.has(object)) {
+        meshes.push(object as THREE.Mesh);
+      }
+    });
+  });
+
+  return meshes;
+}
+
+// 対象メッシュがカメラから見て収まる距離の範囲（スキニング後の形状で計算）
+function computeDepthRange(meshes: THREE.Mesh[], camera: THREE.Camera): { near: number; far: number } {
+  const box = new THREE.Box3();
+  meshes.forEach(mesh => {
+    if ((mesh as THREE.SkinnedMesh).isSkinnedMesh) {
+      (mesh as THREE.SkinnedMesh).computeBoundingBox();
+    }
+    box.expandByObject(mesh);
+  });
+
+  let near = Infinity;
+  let far = -Infinity;
+  const corner = new THREE.Vector3();
+  [0, 1].forEach(i => [0, 1].forEach(j => [0, 1].forEach(k => {
+    corner.set(i ? box.max.x : box.min.x, j ? box.max.y : box.min.y, k ? box.max.z : box.min.z);
+    const depth = -corner.applyMatrix4(camera.matrixWorldInverse).z;
+    near = Math.min(near, depth);
+    far = Math.max(far, depth);
+  })));
+
+  return { near: Math.max(near - DEPTH_MARGIN, 0), far: far + DEPTH_MARGIN };
+}
+
+/**
+ * ポーズを付けたモデルを現在のカメラから描画し、PNGのData URLを返す
+ * 生成画像と同じく縦横比1:1で描画する
+ */
+export function renderConditioningMap(options: {
+  renderer: THREE.WebGLRenderer;
+  scene: THREE.Scene;
+  camera: THREE.PerspectiveCamera;
+  targets: THREE.Object3D[]; // キャラクターのグループ
+  exclude?: THREE.Object3D[]; // 写さないメッシュ（ボーンヘルパーなど）
+  type: ConditioningMapType;
+  size: number;
+}): string {
+  const { renderer, scene, camera, targets, exclude = [], type, size } = options;
+
+  const passCamera = camera.clone();
+  passCamera.aspect = 1;
+  passCamera.updateProjectionMatrix();
+  passCamera.updateMatrixWorld();
+  passCamera.layers.set(CONDITIONING_LAYER);
+
+  const meshes = collectTargetMeshes(targets, exclude);
+  if (meshes.length === 0) {
+    throw new Error('描画するモデルがありません');
+  }
+
+  const { near, far } = computeDepthRange(meshes, passCamera);
+  const material = createPassMaterial(type, near, far);
+  const renderTarget = new THREE.WebGLRenderTarget(size, size);
+  const previousBackground = scene.background;
+  const previousOverrideMaterial = scene.overrideMaterial;
+  const previousRenderTarget = renderer.getRenderTarget();
+  const pixels = new Uint8Array(size * size * 4);
+
+  try {
+    meshes.forEach(mesh => mesh.layers.enable(CONDITIONING_LAYER));
+    scene.background = BACKGROUND_COLORS[type];
+    scene.overrideMaterial = material;
+
+    renderer.setRenderTarget(renderTarget);
+    renderer.render(scene, passCamera);
+    renderer.readRenderTargetPixels(renderTarget, 0, 0, size, size, pixels);
+  } finally {
+    meshes.forEach(mesh => mesh.layers.disable(CONDITIONING_LAYER));
+    scene.background = previousBackground;
+    scene.overrideMaterial = previousOverrideMaterial;
+    renderer.setRenderTarget(previousRenderTarget);
+    renderTarget.dispose();
+    material.dispose();
+  }
+
+  // WebGLの読み出しは下から上の順のため、上下を反転してcanvasに書き込む
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('画像の作成に失敗しました');
+  }
+
+  const imageData = ctx.createImageData(size, size);
+  const rowLength = size * 4;
+  for (let y = 0; y < size; y++) {
+    imageData.data.set(pixels.subarray((size - 1 - y) * rowLength, (size - y) * rowLength), y * rowLength);
+  }
+  ctx.putImageData(imageData, 0, 0);
+
+  return canvas.toDataURL('image/png');
+}
@@ -241,6 +241,63 @@ export async function incrementDailyGenerationCount(userId: string): Promise<{
   }
 }
 
+/**
+ * ポーズ抽出制限をチェック（上限はプラン毎のポーズ抽出回数）
+ */
+export async function checkDailyPoseExtractionLimit(userId: string): Promise<DailyLimitResult> {
+  const limit = getUserSubscription(userId).limits.poseExtraction;
+
+  try {
+    // 無制限の場合（Proプラン）
+    if (limit === -1) {
+      return {
+        canGenerate: true,
+        currentCount: 0,
+        limit: -1,
+        remainingCount: -1,
+        resetTime: getTomorrowResetTime()
+      };
+    }
+
+    const stats = await getTodayUsageStats(userId);
+    if (!stats) {
+      return {
+        canGenerate: false,
+        currentCount: 0,
+        limit,
+        remainingCount: 0,
+        resetTime: getTomorrowResetTime(),
+        message: '使用統計の取得に失敗しました'
+      };
+    }
+
+    const currentCount = stats.poseExtractionCount;
+    const canGenerate = currentCount < limit;
+
+    return {
+      canGenerate,
+      currentCount,
+      limit,
+      remainingCount: Math.max(0, limit - currentCount),
+      resetTime: getTomorrowResetTime(),
+      message: canGenerate
+        ? undefined
+        : `本日のポーズ抽出制限（${limit}回）に達しました。明日00:00にリセットされます。`
+    };
+
+  } catch (error) {
+    console.error('ポーズ抽出制限チェック中にエラーが発生:', error);
+    return {
+      canGenerate: false,
+      currentCount: 0,
+      limit,
+      remainingCount: 0,
+      resetTime: getTomorrowResetTime(),
+      message: '制限チェック中にエラーが発生しました'
+    };
+  }
+}
+
 /**
  * ポーズ抽出回数をインクリメント
  */
@@ -0,0 +1,96 @@
+// 写真から検出した人物（バウンディングボックス・スコア・キーポイント）
+// サーバー（ポーズ検出API）とクライアント（人物の選択）の両方から利用する
+
+import type { Keypoint } from './poseDocument';
+import { MAX_SCENE_CHARACTERS } from './poseScene';
+
+// 画像の幅・高さで正規化した矩形（左上が原点）
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedPerson {
+  id: string;
+  bbox: BoundingBox;
+  score: number; // 人物としての信頼度（0-1）
+  keypoints: Keypoint[];
+}
+
+// これ未満の信頼度のキーポイントはバウンディングボックスに含めない
+export const BBOX_MIN_CONFIDENCE = 0.2;
+
+// これ未満のスコアの人物は検出結果に含めない
+export const MIN_PERSON_SCORE = 0.2;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// キーポイントを囲む矩形（頭や手足の先が切れないよう、少し広げる）
+export function getKeypointsBoundingBox(keypoints: Keypoint[], minConfidence = BBOX_MIN_CONFIDENCE): BoundingBox {
+  const visible = keypoints.filter(keypoint => (keypoint.confidence ?? 1) >= minConfidence);
+  const points = visible.length > 0 ? visible : keypoints;
+  if (points.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const marginX = (Math.max(...xs) - Math.min(...xs)) * 0.1;
+  const marginY = (Math.max(...ys) - Math.min(...ys)) * 0.1;
+  const x = clamp01(Math.min(...xs) - marginX);
+  const y = clamp01(Math.min(...ys) - marginY);
+
+  return {
+    x,
+    y,
+    width: clamp01(Math.max(...xs) + marginX) - x,
+    height: clamp01(Math.max(...ys) + marginY) - y
+  };
+}
+
+// キーポイントの信頼度の平均（人物のスコアを出力しない検出器用）
+export function getKeypointsScore(keypoints: Keypoint[]): number {
+  if (keypoints.length === 0) return 0;
+  return keypoints.reduce((sum, keypoint) => sum + (keypoint.confidence ?? 1), 0) / keypoints.length;
+}
+
+export function createDetectedPerson(index: number, keypoints: Keypoint[], score?: number, bbox?: BoundingBox): DetectedPerson {
+  return {
+    id: `person_${index + 1}`,
+    bbox: bbox || getKeypointsBoundingBox(keypoints),
+    score: score ?? getKeypointsScore(keypoints),
+    keypoints
+  };
+}
+
+// 画像の左から順に並べる（キャラクターの並び順を写真と揃える）
+export function sortPeopleLeftToRight(people: DetectedPerson[]): DetectedPerson[] {
+  return [...people].sort((a, b) => (a.bbox.x + a.bbox.width / 2) - (b.bbox.x + b.bbox.width / 2));
+}
+
+// 選択した人物を画像生成APIの pose_data（人物毎のキーポイント）に変換
+export function toGenerationPoses(people: DetectedPerson[]): Keypoint[][] {
+  return sortPeopleLeftToRight(people)
+    .slice(0, MAX_SCENE_CHARACTERS)
+    .map(person => person.keypoints);
+}
+
+// 補正画面で描く骨格の接続（COCO 17点）
+export const KEYPOINT_EDGES: Array<[string, string]> = [
+  ['left_shoulder', 'right_shoulder'], ['left_hip', 'right_hip'],
+  ['left_shoulder', 'left_hip'], ['right_shoulder', 'right_hip'],
+  ['left_shoulder', 'left_elbow'], ['left_elbow', 'left_wrist'],
+  ['right_shoulder', 'right_elbow'], ['right_elbow', 'right_wrist'],
+  ['left_hip', 'left_knee'], ['left_knee', 'left_ankle'],
+  ['right_hip', 'right_knee'], ['right_knee', 'right_ankle'],
+  ['nose', 'left_eye'], ['nose', 'right_eye'],
+  ['left_eye', 'left_ear'], ['right_eye', 'right_ear']
+];
+
+// キーポイントを手で移動（補正した点は確かな点として扱い、枠も更新する）
+export function moveKeypoint(person: DetectedPerson, name: string, x: number, y: number): DetectedPerson {
+  const keypoints = person.keypoints.map(keypoint =>
+    keypoint.name === name ? { ...keypoint, x: clamp01(x), y: clamp01(y), confidence: 1 } : keypoint
+  );
+  return { ...person, keypoints, bbox: getKeypointsBoundingBox(keypoints) };
+}
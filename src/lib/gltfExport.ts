@@ -0,0 +1,125 @@
+'use client';
+
+// ポーズを付けたキャラクターをglTF（.glb）として書き出し
+// ポーズの列を渡すと、各フレームの関節の回転・位置をアニメーションとして含める
+
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { clone as cloneSkeleton } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import type { PoseData } from './humanoidRig';
+
+export interface PoseAnimationOptions {
+  name: string;
+  frames: PoseData[];
+  fps: number;
+  applyPose: (pose: PoseData) => void; // 表示中のキャラクターにポーズを適用する
+}
+
+export interface GlbExportOptions {
+  root: THREE.Object3D; // キャラクターのグループ
+  exclude?: THREE.Object3D[]; // 書き出さないオブジェクト（ボーンヘルパーなど）
+  opaque?: boolean; // 半透明表示のマテリアルを不透明にする
+  animation?: PoseAnimationOptions;
+  restorePose: PoseData; // アニメーションの取得後に戻すポーズ
+}
+
+const DEFAULT_ROOT_NAME = 'Character';
+
+// 値が変化しないトラックは書き出さない
+const CHANGE_EPSILON = 1e-6;
+
+// 各フレームのポーズを適用し、名前のあるノードの回転・位置を記録してキーフレームにする
+function samplePoseAnimation(
+  root: THREE.Object3D,
+  excluded: Set<THREE.Object3D>,
+  animation: PoseAnimationOptions,
+  rootName: string
+): THREE.AnimationClip {
+  const nodes: THREE.Object3D[] = [];
+  root.traverse(node => {
+    if (!excluded.has(node) && (node === root || node.name)) nodes.push(node);
+  });
+
+  const quaternions = nodes.map(() => [] as number[]);
+  const positions = nodes.map(() => [] as number[]);
+
+  animation.frames.forEach(frame => {
+    animation.applyPose(frame);
+    nodes.forEach((node, index) => {
+      quaternions[index].push(...node.quaternion.toArray());
+      positions[index].push(...node.position.toArray());
+    });
+  });
+
+  const times = animation.frames.map((_, index) => index / animation.fps);
+  const isAnimated = (values: number[], stride: number) =>
+    values.some((value, index) => Math.abs(value - values[index % stride]) > CHANGE_EPSILON);
+
+  const tracks: THREE.KeyframeTrack[] = [];
+  nodes.forEach((node, index) => {
+    const name = node === root ? rootName : node.name;
+    if (isAnimated(quaternions[index], 4)) {
+      tracks.push(new THREE.QuaternionKeyframeTrack(`${name}.quaternion`, times, quaternions[index]));
+    }
+    if (isAnimated(positions[index], 3)) {
+      tracks.push(new THREE.VectorKeyframeTrack(`${name}.position`, times, positions[index]));
+    }
+  });
+
+  return new THREE.AnimationClip(animation.name, -1, tracks);
+}
+
+/**
+ * 現在のポーズのキャラクターを.glbのバイナリに変換
+ * 表示中のシーンを変更しないよう、スケルトンごと複製したものを書き出す
+ */
+export async function exportPoseGlb(options: GlbExportOptions): Promise<ArrayBuffer> {
+  const { root, exclude = [], opaque = false, animation, restorePose } = options;
+  const excluded = new Set(exclude);
+  const rootName = root.name || DEFAULT_ROOT_NAME;
+
+  let clip: THREE.AnimationClip | null = null;
+  if (animation && animation.frames.length > 1) {
+    try {
+      clip = samplePoseAnimation(root, excluded, animation, rootName);
+    } finally {
+      animation.applyPose(restorePose);
+    }
+  }
+
+  const clone = cloneSkeleton(root);
+  clone.name = rootName;
+  clone.visible = true;
+
+  // 複製元と同じ順序で走査し、除外するオブジェクトに対応する複製を取り除く
+  const originals: THREE.Object3D[] = [];
+  const copies: THREE.Object3D[] = [];
+  root.traverse(node => originals.push(node));
+  clone.traverse(node => copies.push(node));
+  copies.filter((_, index) => excluded.has(originals[index])).forEach(node => node.removeFromParent());
+
+  if (opaque) {
+    clone.traverse(node => {
+      const mesh = node as THREE.Mesh;
+      if (!mesh.isMesh) return;
+      const materials = (Array.isArray(mesh.material) ? mesh.material : [mesh.material]).map(material => {
+        const copy = material.clone();
+        copy.transparent = false;
+        copy.opacity = 1;
+        return copy;
+      });
+      mesh.material = Array.isArray(mesh.material) ? materials : materials[0];
+    });
+  }
+
+  const exporter = new GLTFExporter();
+  const result = await exporter.parseAsync(clone, {
+    binary: true,
+    animations: clip ? [clip] : []
+  });
+
+  if (!(result instanceof ArrayBuffer)) {
+    throw new Error('glTFの書き出しに失敗しました');
+  }
+  return result;
+}
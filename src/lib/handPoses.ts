@@ -0,0 +1,102 @@
+'use client';
+
+import {
+  FINGER_NAMES,
+  FINGER_SEGMENT_COUNT,
+  getFingerBoneName,
+  type FingerName,
+  type PoseData
+} from './humanoidRig';
+
+// 手の形のプリセット
+export type HandShape = 'relaxed' | 'fist' | 'open' | 'peace' | 'pointing' | 'holding';
+export type HandSide = 'Left' | 'Right';
+
+interface HandShapePreset {
+  label: string;
+  curls: Record<FingerName, [number, number, number]>; // 各関節の曲げ角（度、付け根→指先）
+  spread: number; // 指の開き具合（度）
+}
+
+const STRAIGHT: [number, number, number] = [0, 0, 0];
+const CURLED: [number, number, number] = [90, 100, 70];
+const THUMB_TUCKED: [number, number, number] = [40, 30, 30];
+
+export const HAND_SHAPES: Record<HandShape, HandShapePreset> = {
+  relaxed: {
+    label: '自然',
+    curls: {
+      Thumb: [10, 10, 5],
+      Index: [15, 20, 10],
+      Middle: [20, 25, 10],
+      Ring: [25, 30, 15],
+      Little: [30, 35, 15]
+    },
+    spread: 3
+  },
+  fist: {
+    label: 'グー',
+    curls: { Thumb: THUMB_TUCKED, Index: CURLED, Middle: CURLED, Ring: CURLED, Little: CURLED },
+    spread: 0
+  },
+  open: {
+    label: 'パー',
+    curls: { Thumb: STRAIGHT, Index: STRAIGHT, Middle: STRAIGHT, Ring: STRAIGHT, Little: STRAIGHT },
+    spread: 12
+  },
+  peace: {
+    label: 'ピース',
+    curls: { Thumb: THUMB_TUCKED, Index: STRAIGHT, Middle: STRAIGHT, Ring: CURLED, Little: CURLED },
+    spread: 10
+  },
+  pointing: {
+    label: '指差し',
+    curls: { Thumb: THUMB_TUCKED, Index: STRAIGHT, Middle: CURLED, Ring: CURLED, Little: CURLED },
+    spread: 0
+  },
+  holding: {
+    label: '物を持つ',
+    curls: {
+      Thumb: [25, 15, 10],
+      Index: [50, 45, 30],
+      Middle: [55, 45, 30],
+      Ring: [55, 45, 30],
+      Little: [55, 45, 30]
+    },
+    spread: 0
+  }
+};
+
+// 指を開く方向（人差し指は手の甲側から見て親指側、小指は反対側へ開く）
+const SPREAD_FACTORS: Record<FingerName, number> = {
+  Thumb: 0,
+  Index: -1,
+  Middle: 0,
+  Ring: 0.5,
+  Little: 1
+};
+
+const DEG_TO_RAD = Math.PI / 180;
+
+// 手の形のプリセットを指ボーンの回転として適用
+// 親指はX軸、その他の指は左手が-Z・右手が+Z方向に曲げる（右手は左手の鏡像）
+export function applyHandShape(poseData: PoseData, side: HandSide, shape: HandShape): PoseData {
+  const { curls, spread } = HAND_SHAPES[shape];
+  const sign = side === 'Left' ? 1 : -1;
+  const result: PoseData = { ...poseData };
+
+  FINGER_NAMES.forEach(finger => {
+    for (let segment = 1; segment <= FINGER_SEGMENT_COUNT; segment++) {
+      const curl = curls[finger][segment - 1] * DEG_TO_RAD;
+      const fingerSpread = segment === 1 ? SPREAD_FACTORS[finger] * spread * DEG_TO_RAD : 0;
+
+      result[getFingerBoneName(side, finger, segment)] = {
+        rotation: finger === 'Thumb'
+          ? [curl, 0, 0]
+          : [0, sign * fingerSpread, -sign * curl]
+      };
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,303 @@
+'use client';
+
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+
+// エディター用ポーズデータの型定義（回転は親ボーン基準のEuler角）
+export interface PoseData {
+  [boneName: string]: {
+    rotation: [number, number, number];
+    position?: [number, number, number];
+  };
+}
+
+// ボーン定義
+export interface HumanoidBoneDefinition {
+  name: string;
+  parent: string | null;
+  offset: [number, number, number]; // 親ボーンからの相対位置（Tポーズ時）
+  tip?: [number, number, number]; // 末端ボーンの長さ（子ボーンが無い場合）
+  radius: number; // 表示用メッシュの太さ
+}
+
+export interface HumanoidRig {
+  group: THREE.Group;
+  skeleton: THREE.Skeleton;
+  mesh: THREE.SkinnedMesh;
+  bones: THREE.Bone[];
+  boneHelpers: THREE.Mesh[];
+}
+
+// 指の名前（ボーン名は Mixamo と同じ LeftHandThumb1〜3 の形式）
+export const FINGER_NAMES = ['Thumb', 'Index', 'Middle', 'Ring', 'Little'] as const;
+export type FingerName = typeof FINGER_NAMES[number];
+export const FINGER_SEGMENT_COUNT = 3;
+
+export function getFingerBoneName(side: 'Left' | 'Right', finger: FingerName, segment: number): string {
+  return `${side}Hand${finger}${segment}`;
+}
+
+export function isFingerBone(boneName: string): boolean {
+  return /^(Left|Right)Hand(Thumb|Index|Middle|Ring|Little)\d$/.test(boneName);
+}
+
+// 左手の指の付け根（手首からの相対位置）・向き・各節の長さ。手のひらは-Y方向
+const FINGER_LAYOUT: Record<FingerName, {
+  base: [number, number, number];
+  direction: [number, number, number];
+  lengths: [number, number, number];
+  radius: number;
+}> = {
+  Thumb: { base: [0.02, -0.015, 0.03], direction: [0.74, -0.15, 0.66], lengths: [0.035, 0.03, 0.025], radius: 0.011 },
+  Index: { base: [0.085, 0, 0.03], direction: [1, 0, 0], lengths: [0.04, 0.025, 0.02], radius: 0.009 },
+  Middle: { base: [0.09, 0, 0.01], direction: [1, 0, 0], lengths: [0.045, 0.03, 0.022], radius: 0.009 },
+  Ring: { base: [0.085, 0, -0.01], direction: [1, 0, 0], lengths: [0.04, 0.027, 0.02], radius: 0.009 },
+  Little: { base: [0.075, 0, -0.03], direction: [1, 0, 0], lengths: [0.032, 0.02, 0.018], radius: 0.008 }
+};
+
+// 片手分（5指×3関節）の指ボーン定義を作成（右手はX座標を反転）
+function createFingerBones(side: 'Left' | 'Right'): HumanoidBoneDefinition[] {
+  const sign = side === 'Left' ? 1 : -1;
+  const definitions: HumanoidBoneDefinition[] = [];
+
+  FINGER_NAMES.forEach(finger => {
+    const { base, direction, lengths, radius } = FINGER_LAYOUT[finger];
+    const scaled = (length: number): [number, number, number] =>
+      [sign * direction[0] * length, direction[1] * length, direction[2] * length];
+
+    for (let segment = 1; segment <= FINGER_SEGMENT_COUNT; segment++) {
+      definitions.push({
+        name: getFingerBoneName(side, finger, segment),
+        parent: segment === 1 ? `${side}Hand` : getFingerBoneName(side, finger, segment - 1),
+        offset: segment === 1 ? [sign * base[0], base[1], base[2]] : scaled(lengths[segment - 2]),
+        tip: segment === FINGER_SEGMENT_COUNT ? scaled(lengths[segment - 1]) : undefined,
+        radius
+      });
+    }
+  });
+
+  return definitions;
+}
+
+// ヒューマノイドのボーン階層（モデルは+Z方向を向き、キャラクターの左が+X）
+export const HUMANOID_BONES: HumanoidBoneDefinition[] = [
+  { name: 'Root', parent: null, offset: [0, 0, 0], radius: 0 },
+  { name: 'Hips', parent: 'Root', offset: [0, 0.95, 0], radius: 0.12 },
+  { name: 'Spine', parent: 'Hips', offset: [0, 0.1, 0], radius: 0.12 },
+  { name: 'Chest', parent: 'Spine', offset: [0, 0.2, 0], radius: 0.14 },
+  { name: 'Neck', parent: 'Chest', offset: [0, 0.22, 0], radius: 0.05 },
+  { name: 'Head', parent: 'Neck', offset: [0, 0.1, 0], tip: [0, 0.22, 0], radius: 0.1 },
+
+  { name: 'LeftShoulder', parent: 'Chest', offset: [0.05, 0.18, 0], radius: 0.05 },
+  { name: 'LeftArm', parent: 'LeftShoulder', offset: [0.13, 0, 0], radius: 0.045 },
+  { name: 'LeftForeArm', parent: 'LeftArm', offset: [0.28, 0, 0], radius: 0.04 },
+  { name: 'LeftHand', parent: 'LeftForeArm', offset: [0.25, 0, 0], tip: [0.08, 0, 0], radius: 0.035 },
+
+  { name: 'RightShoulder', parent: 'Chest', offset: [-0.05, 0.18, 0], radius: 0.05 },
+  { name: 'RightArm', parent: 'RightShoulder', offset: [-0.13, 0, 0], radius: 0.045 },
+  { name: 'RightForeArm', parent: 'RightArm', offset: [-0.28, 0, 0], radius: 0.04 },
+  { name: 'RightHand', parent: 'RightForeArm', offset: [-0.25, 0, 0], tip: [-0.08, 0, 0], radius: 0.035 },
+
+  { name: 'LeftUpLeg', parent: 'Hips', offset: [0.1, -0.05, 0], radius: 0.07 },
+  { name: 'LeftLeg', parent: 'LeftUpLeg', offset: [0, -0.42, 0], radius: 0.055 },
+  { name: 'LeftFoot', parent: 'LeftLeg', offset: [0, -0.42, 0], tip: [0, -0.05, 0.15], radius: 0.045 },
+
+  { name: 'RightUpLeg', parent: 'Hips', offset: [-0.1, -0.05, 0], radius: 0.07 },
+  { name: 'RightLeg', parent: 'RightUpLeg', offset: [0, -0.42, 0], radius: 0.055 },
+  { name: 'RightFoot', parent: 'RightLeg', offset: [0, -0.42, 0], tip: [0, -0.05, 0.15], radius: 0.045 },
+
+  ...createFingerBones('Left'),
+  ...createFingerBones('Right')
+];
+
+export const FINGER_BONE_NAMES = HUMANOID_BONES.map(bone => bone.name).filter(isFingerBone);
+
+const SKIN_COLOR = 0xffdbac;
+const BODY_COLOR = 0x4a90e2;
+export const BONE_HELPER_COLOR = 0xff0000;
+export const BONE_HELPER_SELECTED_COLOR = 0x00ff00;
+// 写真から推定できず、手動での調整が必要なボーン
+export const BONE_HELPER_UNCERTAIN_COLOR = 0xffcc00;
+
+// 2点間を結ぶ円柱ジオメトリを作成（全頂点を1つのボーンにウェイト1で割り当て）
+function createSegmentGeometry(
+  start: THREE.Vector3,
+  end: THREE.Vector3,
+  radius: number,
+  boneIndex: number
+): THREE.BufferGeometry {
+  const direction = new THREE.Vector3().subVectors(end, start);
+  const length = direction.length();
+
+  const geometry = new THREE.CylinderGeometry(radius, radius * 0.85, length, 12, 1);
+  const quaternion = new THREE.Quaternion().setFromUnitVectors(
+    new THREE.Vector3(0, 1, 0),
+    direction.clone().normalize()
+  );
+  geometry.applyQuaternion(quaternion);
+  geometry.translate(
+    (start.x + end.x) / 2,
+    (start.y + end.y) / 2,
+    (start.z + end.z) / 2
+  );
+
+  return assignSkinning(geometry, boneIndex);
+}
+
+// 関節部分の球ジオメトリを作成
+function createJointGeometry(center: THREE.Vector3, radius: number, boneIndex: number): THREE.BufferGeometry {
+  const geometry = new THREE.SphereGeometry(radius, 12, 8);
+  geometry.translate(center.x, center.y, center.z);
+  return assignSkinning(geometry, boneIndex);
+}
+
+function assignSkinning(geometry: THREE.BufferGeometry, boneIndex: number): THREE.BufferGeometry {
+  const vertexCount = geometry.attributes.position.count;
+  const skinIndices = new Uint16Array(vertexCount * 4);
+  const skinWeights = new Float32Array(vertexCount * 4);
+
+  for (let i = 0; i < vertexCount; i++) {
+    skinIndices[i * 4] = boneIndex;
+    skinWeights[i * 4] = 1;
+  }
+
+  geometry.setAttribute('skinIndex', new THREE.Uint16BufferAttribute(skinIndices, 4));
+  geometry.setAttribute('skinWeight', new THREE.Float32BufferAttribute(skinWeights, 4));
+  return geometry;
+}
+
+// 関節選択用のヘルパー球を作成
+export function createBoneHelper(boneName: string): THREE.Mesh {
+  const helper = new THREE.Mesh(
+    new THREE.SphereGeometry(isFingerBone(boneName) ? 0.012 : 0.035, 8, 8),
+    new THREE.MeshBasicMaterial({
+      color: BONE_HELPER_COLOR,
+      transparent: true,
+      opacity: 0.7,
+      depthTest: false
+    })
+  );
+  helper.name = `${boneName}_bone`;
+  helper.renderOrder = 1;
+  helper.userData = { boneName };
+  return helper;
+}
+
+// スキニングされたヒューマノイドモデルを作成
+export function createHumanoidRig(): HumanoidRig {
+  const group = new THREE.Group();
+  group.name = 'HumanModel';
+
+  const bones: THREE.Bone[] = [];
+  const boneMap = new Map<string, THREE.Bone>();
+
+  HUMANOID_BONES.forEach(definition => {
+    const bone = new THREE.Bone();
+    bone.name = definition.name;
+    bone.position.set(...definition.offset);
+
+    if (definition.parent) {
+      boneMap.get(definition.parent)?.add(bone);
+    }
+
+    bones.push(bone);
+    boneMap.set(definition.name, bone);
+  });
+
+  const rootBone = bones[0];
+  rootBone.updateMatrixWorld(true);
+
+  // バインドポーズのワールド座標からメッシュを組み立てる
+  const skinGeometries: THREE.BufferGeometry[] = [];
+  const headGeometries: THREE.BufferGeometry[] = [];
+
+  HUMANOID_BONES.forEach((definition, boneIndex) => {
+    if (definition.radius === 0) return;
+
+    const bone = bones[boneIndex];
+    const start = new THREE.Vector3().setFromMatrixPosition(bone.matrixWorld);
+    const children = HUMANOID_BONES.filter(child => child.parent === definition.name);
+    const target = definition.name === 'Head' ? headGeometries : skinGeometries;
+
+    target.push(createJointGeometry(start, definition.radius, boneIndex));
+
+    if (definition.tip) {
+      const end = start.clone().add(new THREE.Vector3(...definition.tip));
+      target.push(createSegmentGeometry(start, end, definition.radius, boneIndex));
+      return;
+    }
+
+    // 左右に分岐する子（肩・脚の付け根）は体幹メッシュで覆われるため中央の子のみ繋ぐ
+    const child = children.find(c => c.offset[0] === 0) || (children.length === 1 ? children[0] : null);
+    if (child) {
+      const childBone = boneMap.get(child.name)!;
+      const end = new THREE.Vector3().setFromMatrixPosition(childBone.matrixWorld);
+      target.push(createSegmentGeometry(start, end, definition.radius, boneIndex));
+    }
+  });
+
+  const geometry = mergeGeometries([...skinGeometries, ...headGeometries], true);
+  const materials = [
+    new THREE.MeshLambertMaterial({ color: BODY_COLOR, transparent: true, opacity: 0.85 }),
+    new THREE.MeshLambertMaterial({ color: SKIN_COLOR, transparent: true, opacity: 0.85 })
+  ];
+
+  // グループ毎にマテリアルを割り当て（頭部のみ肌色）
+  geometry.groups.forEach((geometryGroup, index) => {
+    geometryGroup.materialIndex = index < skinGeometries.length ? 0 : 1;
+  });
+
+  const mesh = new THREE.SkinnedMesh(geometry, materials);
+  mesh.name = 'HumanMesh';
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  mesh.add(rootBone);
+
+  const skeleton = new THREE.Skeleton(bones);
+  mesh.bind(skeleton);
+  group.add(mesh);
+
+  // 選択用のボーンヘルパー（ボーンの子として追加し、ポーズに追従させる）
+  const boneHelpers: THREE.Mesh[] = [];
+  bones.forEach(bone => {
+    const helper = createBoneHelper(bone.name);
+    bone.add(helper);
+    boneHelpers.push(helper);
+  });
+
+  return { group, skeleton, mesh, bones, boneHelpers };
+}
+
+// ポーズデータをスケルトンに適用
+// 位置はRootボーンのみ反映する（他のボーンの長さはリグで固定）
+export function applyPoseToSkeleton(skeleton: THREE.Skeleton, poseData: PoseData): void {
+  skeleton.bones.forEach(bone => {
+    const data = poseData[bone.name];
+    if (!data) return;
+
+    if (data.rotation) {
+      bone.rotation.set(data.rotation[0], data.rotation[1], data.rotation[2]);
+    }
+
+    if (bone.name === 'Root' && data.position) {
+      bone.position.set(data.position[0], data.position[1], data.position[2]);
+    }
+  });
+}
+
+// スケルトンの現在の状態をポーズデータとして取得
+export function readPoseFromSkeleton(skeleton: THREE.Skeleton): PoseData {
+  const poseData: PoseData = {};
+
+  skeleton.bones.forEach(bone => {
+    poseData[bone.name] = {
+      rotation: [bone.rotation.x, bone.rotation.y, bone.rotation.z]
+    };
+
+    if (bone.name === 'Root') {
+      poseData[bone.name].position = [bone.position.x, bone.position.y, bone.position.z];
+    }
+  });
+
+  return poseData;
+}
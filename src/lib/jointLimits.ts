@@ -0,0 +1,186 @@
+'use client';
+
+import * as THREE from 'three';
+import { FINGER_NAMES, FINGER_SEGMENT_COUNT, getFingerBoneName, type PoseData } from './humanoidRig';
+
+// 関節の可動域（度数法、親ボーン基準のEuler角 XYZ）
+// モデルは+Z方向を向き、左腕は+X、右腕は-X方向に伸びるTポーズが基準
+export interface JointLimit {
+  x: [number, number];
+  y: [number, number];
+  z: [number, number];
+}
+
+// 指の可動域：親指は+Xで手のひら側へ、他の指は左手が-Z・右手が+Zで曲がる。付け根のみ開閉（Y軸）できる
+function createFingerLimits(): Record<string, JointLimit> {
+  const limits: Record<string, JointLimit> = {};
+
+  (['Left', 'Right'] as const).forEach(side => {
+    FINGER_NAMES.forEach(finger => {
+      for (let segment = 1; segment <= FINGER_SEGMENT_COUNT; segment++) {
+        const spread: [number, number] = segment === 1 ? [-20, 20] : [-5, 5];
+        limits[getFingerBoneName(side, finger, segment)] = finger === 'Thumb'
+          ? { x: [-20, 70], y: [-30, 30], z: [-30, 30] }
+          : { x: [-5, 5], y: spread, z: side === 'Left' ? [-100, 15] : [-15, 100] };
+      }
+    });
+  });
+
+  return limits;
+}
+
+export const JOINT_LIMITS: Record<string, JointLimit> = {
+  Spine: { x: [-30, 45], y: [-30, 30], z: [-25, 25] },
+  Chest: { x: [-25, 35], y: [-30, 30], z: [-20, 20] },
+  Neck: { x: [-40, 50], y: [-60, 60], z: [-35, 35] },
+  Head: { x: [-40, 40], y: [-70, 70], z: [-35, 35] },
+
+  // 鎖骨は腕を上げる方向（左は+Z、右は-Z）に大きく動く
+  LeftShoulder: { x: [-10, 10], y: [-20, 20], z: [-10, 30] },
+  RightShoulder: { x: [-10, 10], y: [-20, 20], z: [-30, 10] },
+
+  // 肘は前方（+Z）にのみ曲がる
+  LeftArm: { x: [-90, 90], y: [-100, 45], z: [-95, 90] },
+  LeftForeArm: { x: [-90, 90], y: [-150, 0], z: [-10, 10] },
+  RightArm: { x: [-90, 90], y: [-45, 100], z: [-90, 95] },
+  RightForeArm: { x: [-90, 90], y: [0, 150], z: [-10, 10] },
+  LeftHand: { x: [-10, 10], y: [-30, 20], z: [-80, 70] },
+  RightHand: { x: [-10, 10], y: [-20, 30], z: [-70, 80] },
+
+  // 膝は後方（-Z）にのみ曲がる
+  LeftUpLeg: { x: [-120, 40], y: [-45, 45], z: [-20, 70] },
+  LeftLeg: { x: [0, 150], y: [-10, 10], z: [-5, 5] },
+  RightUpLeg: { x: [-120, 40], y: [-45, 45], z: [-70, 20] },
+  RightLeg: { x: [0, 150], y: [-10, 10], z: [-5, 5] },
+
+  // 足首は+Xでつま先が下がる
+  LeftFoot: { x: [-20, 50], y: [-30, 30], z: [-20, 20] },
+  RightFoot: { x: [-20, 50], y: [-30, 30], z: [-20, 20] },
+
+  ...createFingerLimits()
+};
+
+// 可動域外の関節の情報（角度は度数法）
+export interface JointLimitViolation {
+  boneName: string;
+  axis: 'x' | 'y' | 'z';
+  value: number;
+  min: number;
+  max: number;
+}
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+const AXES = ['x', 'y', 'z'] as const;
+
+// 数値誤差で境界値がはみ出したと判定されないための許容量（度）
+const VIOLATION_TOLERANCE = 0.01;
+
+// 可動域内に回転をクランプ（可動域の定義が無いボーンはそのまま）
+export function clampRotation(
+  boneName: string,
+  rotation: [number, number, number]
+): [number, number, number] {
+  const limit = JOINT_LIMITS[boneName];
+  if (!limit) return rotation;
+
+  const clampAxis = (value: number, [min, max]: [number, number]) =>
+    Math.max(min * DEG_TO_RAD, Math.min(max * DEG_TO_RAD, value));
+
+  return [
+    clampAxis(rotation[0], limit.x),
+    clampAxis(rotation[1], limit.y),
+    clampAxis(rotation[2], limit.z)
+  ];
+}
+
+// 角度を基準の角度に最も近い同じ向き（2πの倍数ずらした値）にそろえる
+function wrapAngleNear(angle: number, reference: number): number {
+  return angle + 2 * Math.PI * Math.round((reference - angle) / (2 * Math.PI));
+}
+
+/**
+ * 同じ回転を表すEuler角の2つの解
+ * 1番目は中間の軸の回転が±90°以内の解（three.js の標準）、2番目は最初と最後の軸を180°回した解
+ * reference を指定すると、各軸を基準に最も近い値にそろえる
+ */
+export function getEulerSolutions(
+  quaternion: THREE.Quaternion,
+  order: THREE.EulerOrder = 'XYZ',
+  reference: [number, number, number] = [0, 0, 0]
+): Array<[number, number, number]> {
+  const euler = new THREE.Euler().setFromQuaternion(quaternion, order);
+  const standard: [number, number, number] = [euler.x, euler.y, euler.z];
+  const axisIndex = (axis: string) => 'XYZ'.indexOf(axis);
+  const [first, middle, last] = order.split('').map(axisIndex);
+
+  const alternate: [number, number, number] = [...standard];
+  alternate[first] += Math.PI;
+  alternate[middle] = Math.PI - alternate[middle];
+  alternate[last] += Math.PI;
+
+  return [standard, alternate].map(solution =>
+    solution.map((angle, index) => wrapAngleNear(angle, reference[index])) as [number, number, number]
+  );
+}
+
+// 2つのEuler角の差の大きさ
+export function eulerDistance(a: [number, number, number], b: [number, number, number]): number {
+  return a.reduce((sum, angle, index) => sum + (angle - b[index]) ** 2, 0);
+}
+
+/**
+ * 回転を可動域内のEuler角（XYZ順）に変換
+ * 各軸を別々にクランプするため、2つの解のうち可動域を超える量が少ない方を選んでからクランプする
+ * どちらも可動域内の場合は reference（元のEuler角など）に近い方を選ぶ
+ */
+export function clampQuaternionRotation(
+  boneName: string,
+  quaternion: THREE.Quaternion,
+  reference?: [number, number, number]
+): [number, number, number] {
+  const limit = JOINT_LIMITS[boneName];
+  const center: [number, number, number] = limit
+    ? AXES.map(axis => (limit[axis][0] + limit[axis][1]) / 2 * DEG_TO_RAD) as [number, number, number]
+    : [0, 0, 0];
+
+  const candidates = getEulerSolutions(quaternion, 'XYZ', reference || center).map(solution => {
+    const clamped = clampRotation(boneName, solution);
+    return { clamped, excess: eulerDistance(solution, clamped), distance: reference ? eulerDistance(solution, reference) : 0 };
+  });
+  candidates.sort((a, b) => (Math.abs(a.excess - b.excess) > 1e-9 ? a.excess - b.excess : a.distance - b.distance));
+  return candidates[0].clamped;
+}
+
+// ポーズ内の可動域を超えている関節を列挙
+export function validatePose(poseData: PoseData): JointLimitViolation[] {
+  const violations: JointLimitViolation[] = [];
+
+  Object.entries(poseData).forEach(([boneName, data]) => {
+    const limit = JOINT_LIMITS[boneName];
+    if (!limit || !data?.rotation) return;
+
+    AXES.forEach((axis, index) => {
+      const value = data.rotation[index] * RAD_TO_DEG;
+      const [min, max] = limit[axis];
+      if (value < min - VIOLATION_TOLERANCE || value > max + VIOLATION_TOLERANCE) {
+        violations.push({ boneName, axis, value, min, max });
+      }
+    });
+  });
+
+  return violations;
+}
+
+// ポーズ全体を可動域内に補正
+export function clampPose(poseData: PoseData): PoseData {
+  const result: PoseData = {};
+
+  Object.entries(poseData).forEach(([boneName, data]) => {
+    result[boneName] = data?.rotation
+      ? { ...data, rotation: clampRotation(boneName, data.rotation) }
+      : data;
+  });
+
+  return result;
+}
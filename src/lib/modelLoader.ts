@@ -0,0 +1,507 @@
+'use client';
+
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import {
+  HUMANOID_BONES,
+  FINGER_NAMES,
+  FINGER_SEGMENT_COUNT,
+  createBoneHelper,
+  getFingerBoneName,
+  isFingerBone,
+  type PoseData
+} from './humanoidRig';
+import type { BoneOffsets } from './poseIK';
+
+// ポーズボーン名 → モデル内のノード名
+export interface BoneMapping {
+  [poseBoneName: string]: string;
+}
+
+export type CharacterModelFormat = 'gltf' | 'vrm0' | 'vrm1';
+
+interface MappedBoneRest {
+  node: THREE.Object3D;
+  rest: THREE.Quaternion; // ローカルの初期回転
+  parentRestWorld: THREE.Quaternion; // 親ノードの初期ワールド回転（モデル基準）
+}
+
+export interface LoadedCharacterModel {
+  key: string; // マッピング保存用のキー
+  name: string;
+  format: CharacterModelFormat;
+  group: THREE.Group; // Rootボーンとして扱うラッパー
+  nodeNames: string[]; // マッピング候補となるノード名
+  mapping: BoneMapping;
+  unmappedBones: string[];
+  boneHelpers: THREE.Mesh[];
+  restStates: Map<string, MappedBoneRest>;
+  boneOffsets: BoneOffsets; // モデルの体型での関節の位置（IKハンドル・ギズモ・キーポイントの計算用）
+  initialQuaternions: Map<THREE.Object3D, THREE.Quaternion>; // 読み込み時の姿勢
+}
+
+export const SUPPORTED_MODEL_EXTENSIONS = ['.glb', '.gltf', '.vrm'];
+
+// 標準的なモデルの身長（メートル）に正規化する
+const TARGET_MODEL_HEIGHT = 1.7;
+
+// VRMの指ボーン（Proximal → Intermediate → Distal の順に1〜3）
+function createVrmFingerMap(): Record<string, string> {
+  const map: Record<string, string> = {};
+  const segments = ['Proximal', 'Intermediate', 'Distal'];
+
+  (['Left', 'Right'] as const).forEach(side => {
+    FINGER_NAMES.forEach(finger => {
+      segments.forEach((segment, index) => {
+        map[`${side.toLowerCase()}${finger}${segment}`] = getFingerBoneName(side, finger, index + 1);
+      });
+    });
+  });
+
+  return map;
+}
+
+// VRMのhumanBone名 → ポーズボーン名
+const VRM_HUMAN_BONE_MAP: Record<string, string> = {
+  hips: 'Hips',
+  spine: 'Spine',
+  chest: 'Chest',
+  neck: 'Neck',
+  head: 'Head',
+  leftShoulder: 'LeftShoulder',
+  leftUpperArm: 'LeftArm',
+  leftLowerArm: 'LeftForeArm',
+  leftHand: 'LeftHand',
+  rightShoulder: 'RightShoulder',
+  rightUpperArm: 'RightArm',
+  rightLowerArm: 'RightForeArm',
+  rightHand: 'RightHand',
+  leftUpperLeg: 'LeftUpLeg',
+  leftLowerLeg: 'LeftLeg',
+  leftFoot: 'LeftFoot',
+  rightUpperLeg: 'RightUpLeg',
+  rightLowerLeg: 'RightLeg',
+  rightFoot: 'RightFoot',
+  ...createVrmFingerMap()
+};
+
+// VRM 1.0 の親指は Metacarpal → Proximal → Distal
+const VRM1_THUMB_MAP: Record<string, string> = {
+  leftThumbMetacarpal: 'LeftHandThumb1',
+  leftThumbProximal: 'LeftHandThumb2',
+  leftThumbDistal: 'LeftHandThumb3',
+  rightThumbMetacarpal: 'RightHandThumb1',
+  rightThumbProximal: 'RightHandThumb2',
+  rightThumbDistal: 'RightHandThumb3'
+};
+
+// 指の別名（Mixamo: HandIndex1, VRoid: Index1, Rigify: f_index.01, UE: index_01）
+function createFingerAliases(): Record<string, string[]> {
+  const aliases: Record<string, string[]> = {};
+  const fingerAliases: Record<string, string[]> = {
+    Thumb: ['thumb'],
+    Index: ['index', 'findex'],
+    Middle: ['middle', 'fmiddle'],
+    Ring: ['ring', 'fring'],
+    Little: ['little', 'pinky', 'fpinky']
+  };
+
+  FINGER_NAMES.forEach(finger => {
+    for (let segment = 1; segment <= FINGER_SEGMENT_COUNT; segment++) {
+      aliases[`Hand${finger}${segment}`] = fingerAliases[finger].flatMap(alias => [
+        `hand${alias}${segment}`,
+        `${alias}${segment}`,
+        `${alias}0${segment}`
+      ]);
+    }
+  });
+
+  return aliases;
+}
+
+// 一般的なリグ（Mixamo, VRoid, Blender Rigify等）のボーン名の別名（左右の接頭辞・接尾辞は除去済み）
+const BONE_NAME_ALIASES: Record<string, string[]> = {
+  Hips: ['hips', 'pelvis', 'hip'],
+  Spine: ['spine', 'spine01', 'abdomen'],
+  Chest: ['chest', 'upperchest', 'spine2', 'spine1', 'spine02'],
+  Neck: ['neck', 'neck01'],
+  Head: ['head'],
+  Shoulder: ['shoulder', 'clavicle', 'collar'],
+  Arm: ['arm', 'upperarm', 'uparm'],
+  ForeArm: ['forearm', 'lowerarm', 'elbow'],
+  Hand: ['hand', 'wrist'],
+  UpLeg: ['upleg', 'upperleg', 'thigh'],
+  Leg: ['leg', 'lowerleg', 'shin', 'calf', 'knee'],
+  Foot: ['foot', 'ankle'],
+  ...createFingerAliases()
+};
+
+// ボーン名を左右と基本名に分解
+// GLTFLoaderはノード名から「.」「:」を除去するため、"upper_arm.L" は "upper_armL" として届く
+function normalizeBoneName(name: string): { side: 'Left' | 'Right' | ''; core: string } {
+  let side: 'Left' | 'Right' | '' = '';
+  let source = name;
+
+  const caseSensitiveSide = source.match(/[a-z0-9_](L|R)$/);
+  if (caseSensitiveSide) {
+    side = caseSensitiveSide[1] === 'L' ? 'Left' : 'Right';
+    source = source.slice(0, -1);
+  }
+
+  let normalized = source
+    .toLowerCase()
+    .replace(/^.*:/, '')
+    .replace(/^(mixamorig|j_bip_|def[-_]|bip0?1[_\s]?)/, '');
+
+  const sidePatterns: Array<[RegExp, 'Left' | 'Right']> = [
+    [/^left/, 'Left'],
+    [/^right/, 'Right'],
+    [/^l[_.\s-]/, 'Left'],
+    [/^r[_.\s-]/, 'Right'],
+    [/[_.\s-]l$/, 'Left'],
+    [/[_.\s-]r$/, 'Right'],
+    [/left$/, 'Left'],
+    [/right$/, 'Right']
+  ];
+
+  for (const [pattern, patternSide] of sidePatterns) {
+    if (side) break;
+    if (pattern.test(normalized)) {
+      side = patternSide;
+      normalized = normalized.replace(pattern, '');
+      break;
+    }
+  }
+
+  normalized = normalized.replace(/^c[_.\s-]/, '');
+
+  return { side, core: normalized.replace(/[^a-z0-9]/g, '') };
+}
+
+// ノード名からポーズボーン名を自動推定
+export function autoMapBones(nodeNames: string[]): BoneMapping {
+  const mapping: BoneMapping = {};
+  const parsed = nodeNames.map(nodeName => ({ nodeName, ...normalizeBoneName(nodeName) }));
+
+  HUMANOID_BONES.forEach(({ name: poseBoneName }) => {
+    if (poseBoneName === 'Root') return;
+
+    const sideMatch = poseBoneName.match(/^(Left|Right)(.+)$/);
+    const side = sideMatch ? sideMatch[1] : '';
+    const aliasKey = sideMatch ? sideMatch[2] : poseBoneName;
+    const aliases = BONE_NAME_ALIASES[aliasKey] || [];
+
+    // 別名の優先順に探索（例: Chest は chest → upperchest → spine2 の順）
+    for (const alias of aliases) {
+      const candidate = parsed.find(node => node.side === side && node.core === alias);
+      if (candidate && !Object.values(mapping).includes(candidate.nodeName)) {
+        mapping[poseBoneName] = candidate.nodeName;
+        break;
+      }
+    }
+  });
+
+  return mapping;
+}
+
+// マッピングされていないポーズボーンを取得
+// 指ボーンを持たないモデルも多いため、指が1本も対応付けられていない場合は指を対象外にする
+export function getUnmappedBones(mapping: BoneMapping): string[] {
+  const hasFingers = Object.keys(mapping).some(isFingerBone);
+
+  return HUMANOID_BONES
+    .map(bone => bone.name)
+    .filter(boneName => boneName !== 'Root' && !mapping[boneName])
+    .filter(boneName => hasFingers || !isFingerBone(boneName));
+}
+
+// VRM拡張からhumanoidボーンのマッピングを取得
+async function readVrmMapping(gltf: any): Promise<{ format: CharacterModelFormat; mapping: BoneMapping } | null> {
+  const extensions = gltf.parser?.json?.extensions || {};
+  const humanBones: Array<{ bone: string; node: number }> = [];
+  let format: CharacterModelFormat;
+
+  if (extensions.VRMC_vrm?.humanoid?.humanBones) {
+    // VRM 1.0: { hips: { node: 0 }, ... }
+    format = 'vrm1';
+    Object.entries(extensions.VRMC_vrm.humanoid.humanBones).forEach(([bone, value]: [string, any]) => {
+      humanBones.push({ bone, node: value.node });
+    });
+  } else if (extensions.VRM?.humanoid?.humanBones) {
+    // VRM 0.x: [{ bone: 'hips', node: 0 }, ...]
+    format = 'vrm0';
+    extensions.VRM.humanoid.humanBones.forEach((value: any) => {
+      humanBones.push({ bone: value.bone, node: value.node });
+    });
+  } else {
+    return null;
+  }
+
+  const mapping: BoneMapping = {};
+
+  // chest が無いモデルでは upperChest を Chest として扱う
+  const hasChest = humanBones.some(humanBone => humanBone.bone === 'chest');
+
+  for (const humanBone of humanBones) {
+    const poseBoneName = (format === 'vrm1' && VRM1_THUMB_MAP[humanBone.bone])
+      || VRM_HUMAN_BONE_MAP[humanBone.bone]
+      || (!hasChest && humanBone.bone === 'upperChest' ? 'Chest' : undefined);
+    if (!poseBoneName) continue;
+
+    const node: THREE.Object3D = await gltf.parser.getDependency('node', humanBone.node);
+    if (node?.name) {
+      mapping[poseBoneName] = node.name;
+    }
+  }
+
+  return { format, mapping };
+}
+
+// ポーズ適用時に必要な初期回転を記録（回転はRootラッパー基準）
+function captureRestStates(root: THREE.Object3D, mapping: BoneMapping): Map<string, MappedBoneRest> {
+  const restStates = new Map<string, MappedBoneRest>();
+  root.updateMatrixWorld(true);
+
+  const rootInverse = new THREE.Quaternion();
+  root.getWorldQuaternion(rootInverse).invert();
+
+  Object.entries(mapping).forEach(([poseBoneName, nodeName]) => {
+    const node = root.getObjectByName(nodeName);
+    if (!node) return;
+
+    const parentRestWorld = new THREE.Quaternion();
+    if (node.parent) {
+      node.parent.getWorldQuaternion(parentRestWorld);
+      parentRestWorld.premultiply(rootInverse);
+    }
+
+    restStates.set(poseBoneName, {
+      node,
+      rest: node.quaternion.clone(),
+      parentRestWorld
+    });
+  });
+
+  return restStates;
+}
+
+// 初期姿勢のモデルの関節位置から、親ボーン基準のオフセットを求める
+// ポーズはリグと同じワールド回転で適用されるため、このオフセットで順運動学を計算するとモデルの関節位置と一致する
+// 対応付けのないボーンは内蔵リグのオフセットで親ボーンに付ける
+function measureBoneOffsets(model: LoadedCharacterModel): BoneOffsets {
+  const groupInverse = model.group.matrixWorld.clone().invert();
+  const positions: Record<string, THREE.Vector3> = {};
+  const offsets: BoneOffsets = {};
+
+  HUMANOID_BONES.forEach(definition => {
+    if (!definition.parent) {
+      positions[definition.name] = new THREE.Vector3();
+      return;
+    }
+
+    const parentPosition = positions[definition.parent];
+    const node = model.restStates.get(definition.name)?.node;
+    const position = node
+      ? node.getWorldPosition(new THREE.Vector3()).applyMatrix4(groupInverse)
+      : parentPosition.clone().add(new THREE.Vector3(...definition.offset));
+
+    positions[definition.name] = position;
+    offsets[definition.name] = position.clone().sub(parentPosition).toArray();
+  });
+
+  return offsets;
+}
+
+// マッピングされたボーンにヘルパーを付け直す
+export function rebuildModelBoneHelpers(model: LoadedCharacterModel): void {
+  model.boneHelpers.forEach(helper => {
+    helper.removeFromParent();
+    helper.geometry.dispose();
+    (helper.material as THREE.Material).dispose();
+  });
+
+  // ポーズ適用済みの場合があるため読み込み時の姿勢に戻してから記録する
+  model.initialQuaternions.forEach((quaternion, node) => node.quaternion.copy(quaternion));
+  model.restStates = captureRestStates(model.group, model.mapping);
+  model.unmappedBones = getUnmappedBones(model.mapping);
+  model.group.updateMatrixWorld(true);
+  model.boneOffsets = measureBoneOffsets(model);
+
+  const worldScale = new THREE.Vector3();
+  model.boneHelpers = [];
+
+  model.restStates.forEach(({ node }, poseBoneName) => {
+    const helper = createBoneHelper(poseBoneName);
+
+    // モデル内部のスケールに関わらず一定の大きさで表示する
+    node.getWorldScale(worldScale);
+    helper.scale.set(1 / worldScale.x, 1 / worldScale.y, 1 / worldScale.z);
+
+    node.add(helper);
+    model.boneHelpers.push(helper);
+  });
+
+  // Root はモデル全体の移動・回転用
+  const rootHelper = createBoneHelper('Root');
+  model.group.add(rootHelper);
+  model.boneHelpers.push(rootHelper);
+}
+
+// glTF/GLB/VRMファイルを読み込む
+export async function loadCharacterModel(file: File): Promise<LoadedCharacterModel> {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+  if (!SUPPORTED_MODEL_EXTENSIONS.includes(extension)) {
+    throw new Error('サポートされていないモデル形式です。glTF, GLB, VRMのみ対応しています。');
+  }
+
+  const buffer = await file.arrayBuffer();
+  const loader = new GLTFLoader();
+  const gltf = await loader.parseAsync(buffer, '');
+
+  const scene = gltf.scene;
+  const nodeNames: string[] = [];
+  scene.traverse(object => {
+    if (object.name && ((object as THREE.Bone).isBone || object.children.length > 0)) {
+      nodeNames.push(object.name);
+    }
+  });
+
+  const key = `${file.name}:${file.size}`;
+  const vrm = await readVrmMapping(gltf);
+  const format: CharacterModelFormat = vrm ? vrm.format : 'gltf';
+  const savedMapping = BoneMappingManager.getMapping(key);
+  const mapping = savedMapping || (vrm ? vrm.mapping : autoMapBones(nodeNames));
+
+  // 身長を揃えて地面に立たせる（VRM 0.xは-Z向きのため反転）
+  const container = new THREE.Group();
+  container.name = 'ModelContainer';
+  container.add(scene);
+
+  if (format === 'vrm0') {
+    container.rotation.y = Math.PI;
+  }
+
+  const box = new THREE.Box3().setFromObject(scene);
+  const height = box.max.y - box.min.y;
+  const scale = height > 0 ? TARGET_MODEL_HEIGHT / height : 1;
+  container.scale.setScalar(scale);
+  container.position.y = -box.min.y * scale;
+
+  scene.traverse(object => {
+    if ((object as THREE.Mesh).isMesh) {
+      object.castShadow = true;
+      object.receiveShadow = true;
+      // スキンメッシュはポーズ変更で境界が変わるためカリングしない
+      object.frustumCulled = false;
+    }
+  });
+
+  const group = new THREE.Group();
+  group.name = 'CharacterModel';
+  group.add(container);
+
+  const model: LoadedCharacterModel = {
+    key,
+    name: file.name,
+    format,
+    group,
+    nodeNames,
+    mapping,
+    unmappedBones: [],
+    boneHelpers: [],
+    restStates: new Map(),
+    boneOffsets: {},
+    initialQuaternions: new Map()
+  };
+
+  scene.traverse(object => {
+    model.initialQuaternions.set(object, object.quaternion.clone());
+  });
+
+  rebuildModelBoneHelpers(model);
+  return model;
+}
+
+// 読み込んだモデルにポーズを適用
+// 親ボーンの初期姿勢で回転軸を変換し、リグ毎のボーン軸の違いを吸収する
+export function applyPoseToCharacterModel(model: LoadedCharacterModel, poseData: PoseData): void {
+  const poseQuaternion = new THREE.Quaternion();
+  const euler = new THREE.Euler();
+
+  model.restStates.forEach(({ node, rest, parentRestWorld }, poseBoneName) => {
+    const data = poseData[poseBoneName];
+    const rotation = data?.rotation || [0, 0, 0];
+
+    poseQuaternion.setFromEuler(euler.set(rotation[0], rotation[1], rotation[2]));
+
+    node.quaternion
+      .copy(parentRestWorld)
+      .invert()
+      .multiply(poseQuaternion)
+      .multiply(parentRestWorld)
+      .multiply(rest);
+  });
+
+  const root = poseData['Root'];
+  if (root) {
+    model.group.rotation.set(root.rotation[0], root.rotation[1], root.rotation[2]);
+    if (root.position) {
+      model.group.position.set(root.position[0], root.position[1], root.position[2]);
+    }
+  }
+}
+
+// 読み込んだモデルのリソースを解放
+export function disposeCharacterModel(model: LoadedCharacterModel): void {
+  model.group.removeFromParent();
+  model.group.traverse(object => {
+    const mesh = object as THREE.Mesh;
+    if (mesh.geometry) {
+      mesh.geometry.dispose();
+    }
+    if (mesh.material) {
+      const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+      materials.forEach(material => material.dispose());
+    }
+  });
+}
+
+// モデル毎のボーンマッピング管理
+export class BoneMappingManager {
+  private static readonly STORAGE_KEY = 'ai-pose-editor-bone-mappings';
+
+  private static getAll(): Record<string, BoneMapping> {
+    if (typeof window === 'undefined') return {};
+
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error loading bone mappings:', error);
+      return {};
+    }
+  }
+
+  // モデルのマッピングを取得
+  static getMapping(modelKey: string): BoneMapping | null {
+    return this.getAll()[modelKey] || null;
+  }
+
+  // モデルのマッピングを保存
+  static saveMapping(modelKey: string, mapping: BoneMapping): void {
+    if (typeof window === 'undefined') return;
+
+    const mappings = this.getAll();
+    mappings[modelKey] = mapping;
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(mappings));
+  }
+
+  // モデルのマッピングを削除
+  static deleteMapping(modelKey: string): void {
+    if (typeof window === 'undefined') return;
+
+    const mappings = this.getAll();
+    delete mappings[modelKey];
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(mappings));
+  }
+}
@@ -0,0 +1,114 @@
+// ローカルのONNXモデル（MoveNet形式）によるCPUでのポーズ検出
+// 入力: [1, サイズ, サイズ, 3] のRGB画像（int32 または float32 の0-255）
+// 出力: SinglePose は [1, 1, 17, 3]（入力画像で正規化した y, x と信頼度）
+//       MultiPose は [1, 6, 56]（17点の y, x, 信頼度 と、人物の ymin, xmin, ymax, xmax, スコア）
+
+import path from 'path';
+import * as ort from 'onnxruntime-node';
+import sharp from 'sharp';
+import { COCO_KEYPOINT_NAMES, type PoseDetectionResult, type PoseDetector } from './poseDetector';
+import { MIN_PERSON_SCORE, createDetectedPerson, type DetectedPerson } from './detectedPeople';
+
+// 入力サイズがモデルに定義されていない場合（MultiPoseなどの可変サイズ）の既定値（32の倍数）
+const DEFAULT_INPUT_SIZE = 192;
+
+const VALUES_PER_KEYPOINT = 3;
+const KEYPOINT_VALUE_COUNT = COCO_KEYPOINT_NAMES.length * VALUES_PER_KEYPOINT;
+// MultiPoseの人物毎の値の数（キーポイント + バウンディングボックスとスコア）
+const MULTI_POSE_VALUE_COUNT = KEYPOINT_VALUE_COUNT + 5;
+
+export class OnnxPoseDetector implements PoseDetector {
+  readonly name = 'onnx-movenet';
+
+  private constructor(
+    private readonly session: ort.InferenceSession,
+    readonly modelVersion: string,
+    private readonly inputSize: number,
+    private readonly inputType: 'int32' | 'float32'
+  ) {}
+
+  // モデルの読み込み（バージョンの指定が無い場合はファイル名を使う）
+  static async load(modelPath: string, modelVersion?: string): Promise<OnnxPoseDetector> {
+    const session = await ort.InferenceSession.create(modelPath, { executionProviders: ['cpu'] });
+
+    const input = session.inputMetadata[0];
+    if (!input?.isTensor) {
+      throw new Error('モデルの入力形式が対応していません');
+    }
+
+    const [, height] = input.shape;
+    const inputSize = typeof height === 'number' && height > 0 ? height : DEFAULT_INPUT_SIZE;
+    const inputType = input.type === 'float32' ? 'float32' : 'int32';
+
+    return new OnnxPoseDetector(
+      session,
+      modelVersion || path.basename(modelPath, path.extname(modelPath)),
+      inputSize,
+      inputType
+    );
+  }
+
+  async detect(image: Buffer): Promise<PoseDetectionResult> {
+    const size = this.inputSize;
+
+    // 縦横比を保ったまま正方形に収め、余白は黒で埋める（EXIFの向きは補正する）
+    const metadata = await sharp(image).metadata();
+    const isRotated = (metadata.orientation || 1) >= 5;
+    const width = (isRotated ? metadata.height : metadata.width) || size;
+    const height = (isRotated ? metadata.width : metadata.height) || size;
+
+    const { data } = await sharp(image)
+      .rotate()
+      .resize(size, size, { fit: 'contain', background: { r: 0, g: 0, b: 0 } })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const pixels = this.inputType === 'float32' ? Float32Array.from(data) : Int32Array.from(data);
+    const tensor = new ort.Tensor(this.inputType, pixels, [1, size, size, 3]);
+
+    const outputs = await this.session.run({ [this.session.inputNames[0]]: tensor });
+    const values = outputs[this.session.outputNames[0]].data as Float32Array;
+
+    // 余白を除いた元画像の範囲で正規化し直す
+    const scale = size / Math.max(width, height);
+    const contentWidth = width * scale;
+    const contentHeight = height * scale;
+    const offsetX = (size - contentWidth) / 2;
+    const offsetY = (size - contentHeight) / 2;
+    const clamp = (value: number) => Math.max(0, Math.min(1, value));
+    const toImageX = (x: number) => clamp((x * size - offsetX) / contentWidth);
+    const toImageY = (y: number) => clamp((y * size - offsetY) / contentHeight);
+
+    const readKeypoints = (start: number) => COCO_KEYPOINT_NAMES.map((name, index) => {
+      const offset = start + index * VALUES_PER_KEYPOINT;
+      const [y, x, confidence] = values.slice(offset, offset + VALUES_PER_KEYPOINT);
+      return { name, x: toImageX(x), y: toImageY(y), confidence };
+    });
+
+    if (values.length === KEYPOINT_VALUE_COUNT) {
+      return { people: [createDetectedPerson(0, readKeypoints(0))] };
+    }
+
+    if (values.length === 0 || values.length % MULTI_POSE_VALUE_COUNT !== 0) {
+      throw new Error('モデルの出力形式が対応していません');
+    }
+
+    const people: DetectedPerson[] = [];
+    for (let start = 0; start < values.length; start += MULTI_POSE_VALUE_COUNT) {
+      const [ymin, xmin, ymax, xmax, score] = values.slice(start + KEYPOINT_VALUE_COUNT, start + MULTI_POSE_VALUE_COUNT);
+      if (score < MIN_PERSON_SCORE) continue;
+
+      const x = toImageX(xmin);
+      const y = toImageY(ymin);
+      people.push(createDetectedPerson(people.length, readKeypoints(start), score, {
+        x,
+        y,
+        width: toImageX(xmax) - x,
+        height: toImageY(ymax) - y
+      }));
+    }
+
+    return { people: people.sort((a, b) => b.score - a.score) };
+  }
+}
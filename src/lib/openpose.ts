@@ -0,0 +1,199 @@
+// OpenPose（ControlNet）形式の骨格画像の描画
+// ブラウザのcanvasとサーバーのnode-canvasの両方で使えるよう、描画コンテキストのみに依存する
+
+import { migratePoseDocument, type Keypoint } from './poseDocument';
+
+// 描画に必要なcanvasの機能（ブラウザとnode-canvasの共通部分）
+export interface PoseDrawingContext {
+  fillStyle: unknown;
+  strokeStyle: unknown;
+  lineWidth: number;
+  lineCap: unknown;
+  beginPath(): void;
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number): void;
+  ellipse(x: number, y: number, radiusX: number, radiusY: number, rotation: number, startAngle: number, endAngle: number): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  fill(): void;
+  stroke(): void;
+  fillRect(x: number, y: number, width: number, height: number): void;
+}
+
+export interface OpenPoseDrawOptions {
+  width: number;
+  height: number;
+  minConfidence?: number; // これ未満の信頼度のキーポイントは描画しない
+  personColors?: string[]; // 人物毎に骨格の色を上書き（プレビュー用。未指定はOpenPoseの標準色）
+}
+
+// OpenPose（COCO 18点）の並び順。neckは両肩の中点から求める
+export const OPENPOSE_BODY_KEYPOINTS = [
+  'nose', 'neck',
+  'right_shoulder', 'right_elbow', 'right_wrist',
+  'left_shoulder', 'left_elbow', 'left_wrist',
+  'right_hip', 'right_knee', 'right_ankle',
+  'left_hip', 'left_knee', 'left_ankle',
+  'right_eye', 'left_eye', 'right_ear', 'left_ear'
+];
+
+// 体の接続（OpenPoseの描画順と同じ）
+const BODY_LIMBS: Array<[number, number]> = [
+  [1, 2], [1, 5], [2, 3], [3, 4], [5, 6], [6, 7], [1, 8], [8, 9], [9, 10],
+  [1, 11], [11, 12], [12, 13], [1, 0], [0, 14], [14, 16], [0, 15], [15, 17]
+];
+
+const BODY_COLORS: Array<[number, number, number]> = [
+  [255, 0, 0], [255, 85, 0], [255, 170, 0], [255, 255, 0], [170, 255, 0], [85, 255, 0],
+  [0, 255, 0], [0, 255, 85], [0, 255, 170], [0, 255, 255], [0, 170, 255], [0, 85, 255],
+  [0, 0, 255], [85, 0, 255], [170, 0, 255], [255, 0, 255], [255, 0, 170], [255, 0, 85]
+];
+
+// 手の21点（手首 + 各指4点、COCO-WholeBody形式の指の名前）
+const HAND_FINGER_NAMES = ['thumb', 'forefinger', 'middle_finger', 'ring_finger', 'pinky_finger'];
+
+const HAND_EDGES: Array<[number, number]> = HAND_FINGER_NAMES.flatMap((_, finger) => {
+  const base = finger * 4 + 1;
+  return [[0, base], [base, base + 1], [base + 1, base + 2], [base + 2, base + 3]] as Array<[number, number]>;
+});
+
+const HAND_POINT_COLOR = 'rgb(0, 0, 255)';
+const FACE_POINT_COLOR = 'rgb(255, 255, 255)';
+const FACE_KEYPOINT_PREFIX = 'face_';
+
+// 512pxの画像での太さ（解像度に合わせて拡大縮小する）
+const BASE_RESOLUTION = 512;
+const STICK_WIDTH = 4;
+const BODY_POINT_RADIUS = 4;
+const HAND_LINE_WIDTH = 2;
+const HAND_POINT_RADIUS = 2;
+const FACE_POINT_RADIUS = 2;
+
+export const DEFAULT_MIN_CONFIDENCE = 0.1;
+
+function getHandKeypointNames(side: 'left' | 'right'): string[] {
+  return [
+    `${side}_wrist`,
+    ...HAND_FINGER_NAMES.flatMap(finger => [1, 2, 3, 4].map(index => `${side}_${finger}${index}`))
+  ];
+}
+
+// 色相（0-1）からRGBの文字列（彩度・明度は最大）
+function hueToRgb(hue: number): string {
+  const channel = (offset: number) => {
+    const k = (offset + hue * 6) % 6;
+    return Math.round(255 * (1 - Math.max(0, Math.min(k, 4 - k, 1))));
+  };
+  return `rgb(${channel(5)}, ${channel(3)}, ${channel(1)})`;
+}
+
+const toRgb = ([r, g, b]: [number, number, number], scale = 1) =>
+  `rgb(${Math.floor(r * scale)}, ${Math.floor(g * scale)}, ${Math.floor(b * scale)})`;
+
+// APIで受け取ったポーズ（Keypoint[]、Keypoint[][]、PoseDocument、{ keypoints }）を人物毎のキーポイントに揃える
+export function toKeypointSets(data: unknown): Keypoint[][] {
+  if (Array.isArray(data) && data.length > 0 && Array.isArray(data[0])) {
+    return (data as unknown[]).map(pose => migratePoseDocument(pose).keypoints || []);
+  }
+  return [migratePoseDocument(data).keypoints || []];
+}
+
+// 1人分の体の18点（見つからない・信頼度の低いキーポイントは null）
+function getBodyPoints(pose: Keypoint[], minConfidence: number, width: number, height: number) {
+  const find = (name: string) => {
+    const point = pose.find(keypoint => keypoint.name === name);
+    return point && (point.confidence ?? 1) >= minConfidence ? { x: point.x * width, y: point.y * height } : null;
+  };
+
+  return OPENPOSE_BODY_KEYPOINTS.map(name => {
+    if (name !== 'neck') return find(name);
+
+    const neck = find('neck');
+    if (neck) return neck;
+
+    const left = find('left_shoulder');
+    const right = find('right_shoulder');
+    return left && right ? { x: (left.x + right.x) / 2, y: (left.y + right.y) / 2 } : null;
+  });
+}
+
+// 背景を黒で塗りつぶし、全員の骨格を描画
+export function drawOpenPose(ctx: PoseDrawingContext, poses: Keypoint[][], options: OpenPoseDrawOptions): void {
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, options.width, options.height);
+  drawOpenPoseSkeletons(ctx, poses, options);
+}
+
+// 既存の画像の上に骨格のみを描画
+export function drawOpenPoseSkeletons(ctx: PoseDrawingContext, poses: Keypoint[][], options: OpenPoseDrawOptions): void {
+  const { width, height, minConfidence = DEFAULT_MIN_CONFIDENCE, personColors } = options;
+  const scale = Math.max(width, height) / BASE_RESOLUTION;
+
+  poses.forEach((pose, personIndex) => {
+    const personColor = personColors?.[personIndex];
+    const body = getBodyPoints(pose, minConfidence, width, height);
+
+    // 手足は楕円で描画（OpenPoseと同じく標準色の60%の明るさ）
+    BODY_LIMBS.forEach(([start, end], index) => {
+      const a = body[start];
+      const b = body[end];
+      if (!a || !b) return;
+
+      const length = Math.hypot(b.x - a.x, b.y - a.y);
+      const angle = Math.atan2(b.y - a.y, b.x - a.x);
+      ctx.beginPath();
+      ctx.ellipse((a.x + b.x) / 2, (a.y + b.y) / 2, length / 2, STICK_WIDTH * scale, angle, 0, 2 * Math.PI);
+      ctx.fillStyle = personColor || toRgb(BODY_COLORS[index], 0.6);
+      ctx.fill();
+    });
+
+    body.forEach((point, index) => {
+      if (!point) return;
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, BODY_POINT_RADIUS * scale, 0, 2 * Math.PI);
+      ctx.fillStyle = personColor || toRgb(BODY_COLORS[index]);
+      ctx.fill();
+    });
+
+    // 手（指のキーポイントがある場合のみ）
+    (['left', 'right'] as const).forEach(side => {
+      const names = getHandKeypointNames(side);
+      const hand = names.map(name => {
+        const point = pose.find(keypoint => keypoint.name === name);
+        return point && (point.confidence ?? 1) >= minConfidence ? { x: point.x * width, y: point.y * height } : null;
+      });
+      if (hand.slice(1).every(point => !point)) return;
+
+      ctx.lineWidth = HAND_LINE_WIDTH * scale;
+      ctx.lineCap = 'round';
+      HAND_EDGES.forEach(([start, end], index) => {
+        const a = hand[start];
+        const b = hand[end];
+        if (!a || !b) return;
+
+        ctx.beginPath();
+        ctx.moveTo(a.x, a.y);
+        ctx.lineTo(b.x, b.y);
+        ctx.strokeStyle = personColor || hueToRgb(index / HAND_EDGES.length);
+        ctx.stroke();
+      });
+
+      hand.forEach(point => {
+        if (!point) return;
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, HAND_POINT_RADIUS * scale, 0, 2 * Math.PI);
+        ctx.fillStyle = HAND_POINT_COLOR;
+        ctx.fill();
+      });
+    });
+
+    // 顔のランドマーク（face_0〜face_69 の形式）
+    pose
+      .filter(point => point.name.startsWith(FACE_KEYPOINT_PREFIX) && (point.confidence ?? 1) >= minConfidence)
+      .forEach(point => {
+        ctx.beginPath();
+        ctx.arc(point.x * width, point.y * height, FACE_POINT_RADIUS * scale, 0, 2 * Math.PI);
+        ctx.fillStyle = FACE_POINT_COLOR;
+        ctx.fill();
+      });
+  });
+}
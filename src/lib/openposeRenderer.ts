@@ -0,0 +1,15 @@
+// サーバー側でOpenPose形式の骨格画像（PNG）を生成する
+
+import { createCanvas } from 'canvas';
+import { drawOpenPose } from './openpose';
+import type { Keypoint } from './poseDocument';
+
+export const MIN_RENDER_SIZE = 64;
+export const MAX_RENDER_SIZE = 2048;
+export const DEFAULT_RENDER_SIZE = 512;
+
+export function renderOpenPosePng(poses: Keypoint[][], width: number = DEFAULT_RENDER_SIZE, height: number = width): Buffer {
+  const canvas = createCanvas(width, height);
+  drawOpenPose(canvas.getContext('2d'), poses, { width, height });
+  return canvas.toBuffer('image/png');
+}
@@ -0,0 +1,166 @@
+// 画像からポーズ（2Dキーポイント）を検出するバックエンドの切り替え
+// POSE_DETECTOR で使う検出器を選ぶ（onnx: ローカルのONNXモデル、mock: テスト用のランダムなポーズ）
+
+import type { Keypoint } from './poseDocument';
+import { createDetectedPerson, type DetectedPerson } from './detectedPeople';
+
+// COCO 17点の並び順（MoveNetなどの出力順）
+export const COCO_KEYPOINT_NAMES = [
+  'nose', 'left_eye', 'right_eye', 'left_ear', 'right_ear',
+  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow',
+  'left_wrist', 'right_wrist', 'left_hip', 'right_hip',
+  'left_knee', 'right_knee', 'left_ankle', 'right_ankle'
+];
+
+export interface PoseDetectionResult {
+  // スコアの高い順。キーポイントは画像の幅・高さで正規化した座標（0-1）と、モデルが出力した信頼度
+  people: DetectedPerson[];
+}
+
+export interface PoseDetector {
+  readonly name: string;
+  readonly modelVersion: string;
+  detect(image: Buffer): Promise<PoseDetectionResult>;
+}
+
+export type PoseDetectorType = 'onnx' | 'mock';
+
+// モックのポーズデータ（正規化済み座標 0.0-1.0）
+const MOCK_POSE_DATA: Keypoint[] = [
+  // 頭部・首
+  { name: "nose", x: 0.5, y: 0.15, confidence: 0.95 },
+  { name: "left_eye", x: 0.48, y: 0.12, confidence: 0.92 },
+  { name: "right_eye", x: 0.52, y: 0.12, confidence: 0.93 },
+  { name: "left_ear", x: 0.45, y: 0.13, confidence: 0.88 },
+  { name: "right_ear", x: 0.55, y: 0.13, confidence: 0.89 },
+
+  // 肩
+  { name: "left_shoulder", x: 0.4, y: 0.25, confidence: 0.96 },
+  { name: "right_shoulder", x: 0.6, y: 0.25, confidence: 0.97 },
+
+  // ひじ
+  { name: "left_elbow", x: 0.35, y: 0.35, confidence: 0.91 },
+  { name: "right_elbow", x: 0.65, y: 0.35, confidence: 0.92 },
+
+  // 手首
+  { name: "left_wrist", x: 0.32, y: 0.45, confidence: 0.87 },
+  { name: "right_wrist", x: 0.68, y: 0.45, confidence: 0.89 },
+
+  // 腰
+  { name: "left_hip", x: 0.45, y: 0.55, confidence: 0.94 },
+  { name: "right_hip", x: 0.55, y: 0.55, confidence: 0.95 },
+
+  // ひざ
+  { name: "left_knee", x: 0.43, y: 0.75, confidence: 0.93 },
+  { name: "right_knee", x: 0.57, y: 0.75, confidence: 0.94 },
+
+  // 足首
+  { name: "left_ankle", x: 0.41, y: 0.95, confidence: 0.90 },
+  { name: "right_ankle", x: 0.59, y: 0.95, confidence: 0.91 }
+];
+
+// バリエーション用のランダムポーズデータ
+const POSE_VARIATIONS = [
+  // 基本姿勢
+  MOCK_POSE_DATA,
+
+  // 片手を上げたポーズ
+  [
+    ...MOCK_POSE_DATA.slice(0, 7),
+    { name: "left_elbow", x: 0.3, y: 0.2, confidence: 0.91 },
+    { name: "right_elbow", x: 0.65, y: 0.35, confidence: 0.92 },
+    { name: "left_wrist", x: 0.25, y: 0.1, confidence: 0.87 },
+    { name: "right_wrist", x: 0.68, y: 0.45, confidence: 0.89 },
+    ...MOCK_POSE_DATA.slice(11)
+  ],
+
+  // 片足を上げたポーズ
+  [
+    ...MOCK_POSE_DATA.slice(0, 13),
+    { name: "left_knee", x: 0.4, y: 0.6, confidence: 0.93 },
+    { name: "right_knee", x: 0.57, y: 0.75, confidence: 0.94 },
+    { name: "left_ankle", x: 0.38, y: 0.5, confidence: 0.90 },
+    { name: "right_ankle", x: 0.59, y: 0.95, confidence: 0.91 }
+  ]
+];
+
+// ランダムなポーズバリエーションを生成
+function generateRandomPose(): Keypoint[] {
+  const baseVariation = POSE_VARIATIONS[Math.floor(Math.random() * POSE_VARIATIONS.length)];
+
+  // 小さなランダム変動を追加
+  return baseVariation.map(point => ({
+    ...point,
+    x: Math.max(0, Math.min(1, point.x + (Math.random() - 0.5) * 0.1)),
+    y: Math.max(0, Math.min(1, point.y + (Math.random() - 0.5) * 0.1)),
+    confidence: Math.max(0.7, Math.min(1, point.confidence! + (Math.random() - 0.5) * 0.2))
+  }));
+}
+
+// 人物を横に並べる（正規化座標での中心のずれ）
+const MOCK_PERSON_OFFSETS = [[0], [-0.22, 0.22], [-0.3, 0, 0.3]];
+
+// テスト用の検出器（画像の内容に関係なく、1〜3人のランダムなポーズを返す）
+export class MockPoseDetector implements PoseDetector {
+  readonly name = 'mock';
+  readonly modelVersion = 'mock';
+
+  async detect(): Promise<PoseDetectionResult> {
+    // 処理時間をシミュレート（500ms-2000ms）
+    const processingDelay = 500 + Math.random() * 1500;
+    await new Promise(resolve => setTimeout(resolve, processingDelay));
+
+    const offsets = MOCK_PERSON_OFFSETS[Math.floor(Math.random() * MOCK_PERSON_OFFSETS.length)];
+    // 複数人の場合は重ならないよう横に縮める
+    const scale = offsets.length > 1 ? 0.5 : 1;
+    const people = offsets.map((offset, index) => createDetectedPerson(
+      index,
+      generateRandomPose().map(point => ({
+        ...point,
+        x: Math.max(0, Math.min(1, 0.5 + (point.x - 0.5) * scale + offset))
+      }))
+    ));
+
+    return { people: people.sort((a, b) => b.score - a.score) };
+  }
+}
+
+// 環境変数から使う検出器を決める（指定が無い場合はモデルのパスがあればONNX）
+export function getPoseDetectorType(): PoseDetectorType {
+  const type = process.env.POSE_DETECTOR || (process.env.POSE_MODEL_PATH ? 'onnx' : 'mock');
+  if (type !== 'onnx' && type !== 'mock') {
+    throw new Error(`未対応のポーズ検出器です: ${type}`);
+  }
+  return type;
+}
+
+let detectorPromise: Promise<PoseDetector> | null = null;
+
+async function createPoseDetector(): Promise<PoseDetector> {
+  if (getPoseDetectorType() === 'mock') {
+    return new MockPoseDetector();
+  }
+
+  const modelPath = process.env.POSE_MODEL_PATH;
+  if (!modelPath) {
+    throw new Error('POSE_MODEL_PATH にONNXモデルのパスを設定してください');
+  }
+
+  // ネイティブモジュールはONNXを使う場合のみ読み込む
+  const { OnnxPoseDetector } = await import('./onnxPoseDetector');
+  return OnnxPoseDetector.load(modelPath, process.env.POSE_MODEL_VERSION);
+}
+
+/**
+ * 設定された検出器を取得（モデルの読み込みは最初の1回のみ）
+ * 読み込みに失敗した場合は、次の呼び出しで読み込み直す
+ */
+export function getPoseDetector(): Promise<PoseDetector> {
+  if (!detectorPromise) {
+    detectorPromise = createPoseDetector().catch(error => {
+      detectorPromise = null;
+      throw error;
+    });
+  }
+  return detectorPromise;
+}
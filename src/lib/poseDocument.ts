@@ -0,0 +1,213 @@
+// ポーズの保存形式（バージョン付き）と、旧形式からの変換
+// 旧形式: エディター形式 { rotation, position? }、補間形式 { x, y, z, w? }（snake_caseのボーン名を含む）、
+//         Keypoint[]、テンプレートの { keypoints: Keypoint[] }
+// クライアント（エディター）とサーバー（API）の両方から利用する
+
+import * as THREE from 'three';
+import type { PoseData } from './humanoidRig';
+import type { PoseData as InterpolationPoseData, PoseRotation } from './poseInterpolation';
+
+// 画像生成APIに送る2Dキーポイント（正規化済み座標 0.0-1.0）
+export interface Keypoint {
+  name: string;
+  x: number;
+  y: number;
+  confidence?: number;
+}
+
+export interface PoseDocument {
+  format: typeof POSE_DOCUMENT_FORMAT;
+  version: number;
+  bones: PoseData; // 親ボーン基準のEuler角（XYZ順、ラジアン）とRootの位置
+  keypoints?: Keypoint[]; // 2Dキーポイント（テンプレートや検出結果）
+}
+
+export type PoseShape = 'document' | 'editor' | 'interpolation' | 'keypoints' | 'keypointContainer' | 'unknown';
+
+export const POSE_DOCUMENT_FORMAT = 'ai-pose-editor-pose';
+export const POSE_DOCUMENT_VERSION = 1;
+
+// 補間形式で使われていたsnake_caseのボーン名 → エディターのボーン名
+const LEGACY_BONE_NAMES: Record<string, string> = {
+  root: 'Root',
+  hips: 'Hips',
+  spine: 'Spine',
+  chest: 'Chest',
+  neck: 'Neck',
+  head: 'Head',
+  left_clavicle: 'LeftShoulder',
+  right_clavicle: 'RightShoulder',
+  left_shoulder: 'LeftArm',
+  right_shoulder: 'RightArm',
+  left_elbow: 'LeftForeArm',
+  right_elbow: 'RightForeArm',
+  left_wrist: 'LeftHand',
+  right_wrist: 'RightHand',
+  left_hip: 'LeftUpLeg',
+  right_hip: 'RightUpLeg',
+  left_knee: 'LeftLeg',
+  right_knee: 'RightLeg',
+  left_ankle: 'LeftFoot',
+  right_ankle: 'RightFoot'
+};
+
+export function normalizeBoneName(boneName: string): string {
+  return LEGACY_BONE_NAMES[boneName] || boneName;
+}
+
+export function createPoseDocument(bones: PoseData, keypoints?: Keypoint[]): PoseDocument {
+  return {
+    format: POSE_DOCUMENT_FORMAT,
+    version: POSE_DOCUMENT_VERSION,
+    bones,
+    ...(keypoints && { keypoints })
+  };
+}
+
+const isObject = (data: unknown): data is Record<string, unknown> =>
+  !!data && typeof data === 'object' && !Array.isArray(data);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isVector3 = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber);
+
+const isKeypoint = (data: unknown): data is Keypoint =>
+  isObject(data) && typeof data.name === 'string' && isFiniteNumber(data.x) && isFiniteNumber(data.y) &&
+  (data.confidence === undefined || isFiniteNumber(data.confidence));
+
+const isEditorBone = (data: unknown): boolean =>
+  isObject(data) && isVector3(data.rotation) && (data.position === undefined || isVector3(data.position));
+
+const isInterpolationBone = (data: unknown): boolean =>
+  isObject(data) && isFiniteNumber(data.x) && isFiniteNumber(data.y) && isFiniteNumber(data.z) &&
+  (data.w === undefined || isFiniteNumber(data.w));
+
+// JSONがどの形式のポーズかを判定（空のオブジェクトはボーン無しのエディター形式として扱う）
+export function detectPoseShape(data: unknown): PoseShape {
+  if (Array.isArray(data)) {
+    return data.every(isKeypoint) ? 'keypoints' : 'unknown';
+  }
+  if (!isObject(data)) return 'unknown';
+
+  if (data.format === POSE_DOCUMENT_FORMAT) return 'document';
+  if (Array.isArray(data.keypoints)) return 'keypointContainer';
+
+  const bones = Object.values(data);
+  if (bones.every(isEditorBone)) return 'editor';
+  if (bones.every(isInterpolationBone)) return 'interpolation';
+
+  return 'unknown';
+}
+
+// 実行時のバリデーション（ファイルやAPIから受け取ったデータの確認用）
+export function validatePoseDocument(data: unknown): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!isObject(data) || data.format !== POSE_DOCUMENT_FORMAT) {
+    return { isValid: false, errors: ['ポーズ形式ではありません'] };
+  }
+
+  if (!Number.isInteger(data.version) || (data.version as number) < 1) {
+    errors.push('バージョンが不正です');
+  } else if ((data.version as number) > POSE_DOCUMENT_VERSION) {
+    errors.push(`新しいバージョン(${data.version})のポーズには対応していません`);
+  }
+
+  if (!isObject(data.bones)) {
+    errors.push('ボーンデータが必要です');
+  } else {
+    Object.entries(data.bones).forEach(([boneName, bone]) => {
+      if (!isEditorBone(bone)) {
+        errors.push(`ボーン ${boneName} の回転・位置が不正です`);
+      }
+    });
+  }
+
+  if (data.keypoints !== undefined && (!Array.isArray(data.keypoints) || !data.keypoints.every(isKeypoint))) {
+    errors.push('キーポイントが不正です');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+export function isPoseDocument(data: unknown): data is PoseDocument {
+  return validatePoseDocument(data).isValid;
+}
+
+function quaternionToEuler(x: number, y: number, z: number, w: number): [number, number, number] {
+  const euler = new THREE.Euler().setFromQuaternion(new THREE.Quaternion(x, y, z, w));
+  return [euler.x, euler.y, euler.z];
+}
+
+// 補間形式 → エディター形式（Quaternionは同じ回転のEuler角に変換し、位置はそのまま引き継ぐ）
+export function fromInterpolationPose(pose: InterpolationPoseData): PoseData {
+  const result: PoseData = {};
+
+  Object.entries(pose).forEach(([boneName, { x, y, z, w, position }]) => {
+    result[normalizeBoneName(boneName)] = {
+      rotation: w === undefined ? [x, y, z] : quaternionToEuler(x, y, z, w),
+      ...(position && { position: [...position] as [number, number, number] })
+    };
+  });
+
+  return result;
+}
+
+// エディター形式 → 補間形式（位置も保持する）
+export function toInterpolationPose(pose: PoseData): InterpolationPoseData {
+  const result: InterpolationPoseData = {};
+
+  Object.entries(pose).forEach(([boneName, { rotation, position }]) => {
+    const [x, y, z] = rotation;
+    result[boneName] = {
+      x,
+      y,
+      z,
+      ...(position && { position: [...position] as [number, number, number] })
+    };
+  });
+
+  return result;
+}
+
+// 補間形式のままボーン名のみエディターの名前に揃える（Quaternionの保存形式は維持）
+export function normalizeInterpolationPose(pose: InterpolationPoseData): InterpolationPoseData {
+  const result: InterpolationPoseData = {};
+  Object.entries(pose).forEach(([boneName, rotation]: [string, PoseRotation]) => {
+    result[normalizeBoneName(boneName)] = rotation;
+  });
+  return result;
+}
+
+// 旧形式を含む任意のポーズJSONを現在のバージョンのPoseDocumentに変換
+export function migratePoseDocument(data: unknown): PoseDocument {
+  switch (detectPoseShape(data)) {
+    case 'document': {
+      const validation = validatePoseDocument(data);
+      if (!validation.isValid) {
+        throw new Error(`ポーズデータが不正です: ${validation.errors.join(', ')}`);
+      }
+      // バージョン1が最初の形式のため、現時点で変換が必要なバージョンは無い
+      return { ...(data as PoseDocument), version: POSE_DOCUMENT_VERSION };
+    }
+    case 'editor':
+      return createPoseDocument(data as PoseData);
+    case 'interpolation':
+      return createPoseDocument(fromInterpolationPose(data as InterpolationPoseData));
+    case 'keypoints':
+      return createPoseDocument({}, data as Keypoint[]);
+    case 'keypointContainer': {
+      const { keypoints, ...rest } = data as { keypoints: unknown[] };
+      const validKeypoints = keypoints.filter(isKeypoint);
+      const bones = detectPoseShape(rest) === 'unknown' ? {} : migratePoseDocument(rest).bones;
+      return createPoseDocument(bones, validKeypoints);
+    }
+    default:
+      throw new Error('対応していないポーズ形式です');
+  }
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { createPoseScene, createSceneCharacter, isPoseScene, migratePoseScene, type PoseScene } from './poseScene';
+import { migratePoseDocument } from './poseDocument';
+
+// ポーズ編集の操作履歴（元に戻す／やり直し）。シーン全体（全キャラクターのポーズ）を記録する
+// null は編集前の初期シーンを表す
+export interface PoseHistoryState {
+  past: Array<PoseScene | null>;
+  present: PoseScene | null;
+  future: Array<PoseScene | null>;
+}
+
+export interface PoseHistoryPushOptions {
+  // 同じキーの操作が続いた場合は1つの履歴にまとめる（数値入力やスライダー操作用）
+  mergeKey?: string;
+}
+
+const HISTORY_STORAGE_KEY = 'ai-pose-editor-scene-history';
+// シーン導入前の履歴（1体分のポーズを記録していた）
+const LEGACY_HISTORY_STORAGE_KEY = 'ai-pose-editor-pose-history';
+const MAX_HISTORY_LENGTH = 100;
+const MERGE_WINDOW_MS = 1000;
+
+// 保存された履歴の1件を現在の形式のシーンに変換（旧形式のポーズは1体のキャラクターのシーンにする）
+function migrateHistoryEntry(entry: unknown): PoseScene | null {
+  if (entry === null || entry === undefined) return null;
+  if (isPoseScene(entry)) return migratePoseScene(entry);
+  return createPoseScene([createSceneCharacter(migratePoseDocument(entry).bones, 'キャラクター1')]);
+}
+
+export class PoseHistory {
+  private state: PoseHistoryState;
+  private lastMergeKey: string | null = null;
+  private lastPushedAt = 0;
+
+  constructor(state: PoseHistoryState = { past: [], present: null, future: [] }) {
+    this.state = state;
+  }
+
+  get present(): PoseScene | null {
+    return this.state.present;
+  }
+
+  canUndo(): boolean {
+    return this.state.past.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.state.future.length > 0;
+  }
+
+  // 新しいシーンを確定して履歴に追加（やり直し履歴は破棄）
+  push(scene: PoseScene, options: PoseHistoryPushOptions = {}): void {
+    const now = Date.now();
+    const shouldMerge = options.mergeKey !== undefined &&
+      options.mergeKey === this.lastMergeKey &&
+      now - this.lastPushedAt < MERGE_WINDOW_MS;
+
+    if (!shouldMerge) {
+      this.state.past = [...this.state.past, this.state.present].slice(-MAX_HISTORY_LENGTH);
+    }
+
+    this.state.present = scene;
+    this.state.future = [];
+    this.lastMergeKey = options.mergeKey ?? null;
+    this.lastPushedAt = now;
+  }
+
+  undo(): PoseScene | null {
+    if (!this.canUndo()) return this.state.present;
+
+    const previous = this.state.past[this.state.past.length - 1];
+    this.state.future = [this.state.present, ...this.state.future];
+    this.state.past = this.state.past.slice(0, -1);
+    this.state.present = previous;
+    this.lastMergeKey = null;
+
+    return previous;
+  }
+
+  redo(): PoseScene | null {
+    if (!this.canRedo()) return this.state.present;
+
+    const next = this.state.future[0];
+    this.state.past = [...this.state.past, this.state.present];
+    this.state.future = this.state.future.slice(1);
+    this.state.present = next;
+    this.lastMergeKey = null;
+
+    return next;
+  }
+
+  // 現在のセッション中のみ保持（ページ再読み込みで復元）
+  save(): void {
+    try {
+      sessionStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.error('Error saving pose history:', error);
+    }
+  }
+
+  static load(): PoseHistory {
+    try {
+      const stored = sessionStorage.getItem(HISTORY_STORAGE_KEY) ?? sessionStorage.getItem(LEGACY_HISTORY_STORAGE_KEY);
+      sessionStorage.removeItem(LEGACY_HISTORY_STORAGE_KEY);
+      if (stored) {
+        // 旧形式のポーズ・シーンはテンプレートや保存済みポーズと同じく読み込み時に変換する
+        const state = JSON.parse(stored) as { past?: unknown; present?: unknown; future?: unknown };
+        if (Array.isArray(state.past) && Array.isArray(state.future)) {
+          return new PoseHistory({
+            past: state.past.map(migrateHistoryEntry),
+            present: migrateHistoryEntry(state.present),
+            future: state.future.map(migrateHistoryEntry)
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Error loading pose history:', error);
+    }
+
+    return new PoseHistory();
+  }
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import * as THREE from 'three';
+import { HUMANOID_BONES, type PoseData } from './humanoidRig';
+import { clampRotation } from './jointLimits';
+
+// IKで操作できるエンドエフェクター
+export type IKEffector = 'LeftHand' | 'RightHand' | 'LeftFoot' | 'RightFoot' | 'Head';
+
+interface IKChain {
+  joints: string[]; // 根元 → 先端の順に回転させる関節
+  // 肘・膝の蝶番関節（指定がある場合は2ボーンIKとして解析的に解く）
+  hinge?: { axis: 0 | 1 | 2; direction: 1 | -1; twistAxis?: 0 | 1 | 2 };
+}
+
+export const IK_CHAINS: Record<IKEffector, IKChain> = {
+  LeftHand: { joints: ['LeftArm', 'LeftForeArm'], hinge: { axis: 1, direction: -1, twistAxis: 0 } },
+  RightHand: { joints: ['RightArm', 'RightForeArm'], hinge: { axis: 1, direction: 1, twistAxis: 0 } },
+  LeftFoot: { joints: ['LeftUpLeg', 'LeftLeg'], hinge: { axis: 0, direction: 1 } },
+  RightFoot: { joints: ['RightUpLeg', 'RightLeg'], hinge: { axis: 0, direction: 1 } },
+  Head: { joints: ['Spine', 'Chest', 'Neck'] }
+};
+
+export const IK_EFFECTORS = Object.keys(IK_CHAINS) as IKEffector[];
+
+export interface JointTransform {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion; // ワールド回転
+}
+
+// ボーン名 → 親ボーン基準の位置（読み込んだモデルの体型。未指定のボーンは内蔵リグのオフセットを使う）
+export type BoneOffsets = Record<string, [number, number, number]>;
+
+export interface IKOptions {
+  iterations?: number;
+  tolerance?: number;
+  boneOffsets?: BoneOffsets;
+}
+
+export type FootPins = Partial<Record<'LeftFoot' | 'RightFoot', THREE.Vector3>>;
+
+const ZERO_ROTATION: [number, number, number] = [0, 0, 0];
+
+// 順運動学：ポーズデータから各関節のワールド位置と回転を計算（オフセットを渡すと読み込んだモデルの体型で計算）
+export function computeJointTransforms(poseData: PoseData, boneOffsets: BoneOffsets = {}): Record<string, JointTransform> {
+  const transforms: Record<string, JointTransform> = {};
+  const euler = new THREE.Euler();
+
+  HUMANOID_BONES.forEach(definition => {
+    const data = poseData[definition.name];
+    const rotation = data?.rotation || ZERO_ROTATION;
+    const localQuaternion = new THREE.Quaternion().setFromEuler(euler.set(rotation[0], rotation[1], rotation[2]));
+
+    if (!definition.parent) {
+      const position = new THREE.Vector3(...definition.offset);
+      if (data?.position) {
+        position.set(data.position[0], data.position[1], data.position[2]);
+      }
+      transforms[definition.name] = { position, quaternion: localQuaternion };
+      return;
+    }
+
+    const parent = transforms[definition.parent];
+    transforms[definition.name] = {
+      position: new THREE.Vector3(...(boneOffsets[definition.name] || definition.offset)).applyQuaternion(parent.quaternion).add(parent.position),
+      quaternion: parent.quaternion.clone().multiply(localQuaternion)
+    };
+  });
+
+  return transforms;
+}
+
+// 関節をエフェクターが目標方向を向くように回転（ワールド空間の差分を親ボーン基準に変換）
+function rotateJointTowards(
+  result: PoseData,
+  jointName: string,
+  effector: IKEffector,
+  target: THREE.Vector3,
+  boneOffsets?: BoneOffsets
+): void {
+  const transforms = computeJointTransforms(result, boneOffsets);
+  const joint = transforms[jointName];
+
+  const toEffector = new THREE.Vector3().subVectors(transforms[effector].position, joint.position);
+  const toTarget = new THREE.Vector3().subVectors(target, joint.position);
+  if (toEffector.lengthSq() === 0 || toTarget.lengthSq() === 0) return;
+
+  const delta = new THREE.Quaternion().setFromUnitVectors(toEffector.normalize(), toTarget.normalize());
+
+  const parentName = HUMANOID_BONES.find(bone => bone.name === jointName)?.parent;
+  const parentQuaternion = parentName ? transforms[parentName].quaternion : new THREE.Quaternion();
+  const localQuaternion = parentQuaternion.clone().invert()
+    .multiply(delta)
+    .multiply(joint.quaternion);
+
+  const euler = new THREE.Euler().setFromQuaternion(localQuaternion);
+  result[jointName] = {
+    ...result[jointName],
+    rotation: clampRotation(jointName, [euler.x, euler.y, euler.z])
+  };
+}
+
+// 2ボーンIK：余弦定理で肘・膝の曲げ角を求め、根元の関節で目標へ向ける
+function solveLimb(
+  result: PoseData,
+  chain: IKChain,
+  effector: IKEffector,
+  target: THREE.Vector3,
+  boneOffsets?: BoneOffsets
+): void {
+  const [upperName, lowerName] = chain.joints;
+  const hinge = chain.hinge!;
+  const transforms = computeJointTransforms(result, boneOffsets);
+
+  const upperLength = transforms[upperName].position.distanceTo(transforms[lowerName].position);
+  const lowerLength = transforms[lowerName].position.distanceTo(transforms[effector].position);
+  const distance = Math.max(
+    Math.abs(upperLength - lowerLength) + 1e-4,
+    Math.min(upperLength + lowerLength - 1e-4, transforms[upperName].position.distanceTo(target))
+  );
+
+  const cosInterior = (upperLength ** 2 + lowerLength ** 2 - distance ** 2) / (2 * upperLength * lowerLength);
+  const bend = Math.PI - Math.acos(Math.max(-1, Math.min(1, cosInterior)));
+
+  // 蝶番軸以外は捻り軸のみ残す（捻りは骨の長さ方向の回転のため曲げ角に影響しない）
+  const current = result[lowerName]?.rotation || ZERO_ROTATION;
+  const rotation: [number, number, number] = [0, 0, 0];
+  if (hinge.twistAxis !== undefined) {
+    rotation[hinge.twistAxis] = current[hinge.twistAxis];
+  }
+  rotation[hinge.axis] = hinge.direction * bend;
+  result[lowerName] = { ...result[lowerName], rotation: clampRotation(lowerName, rotation) };
+
+  rotateJointTowards(result, upperName, effector, target, boneOffsets);
+}
+
+// エフェクターを目標位置へ近づける（手足は2ボーンIK、体幹はCCD法。各関節は可動域でクランプ）
+export function solveIK(
+  poseData: PoseData,
+  effector: IKEffector,
+  target: THREE.Vector3,
+  options: IKOptions = {}
+): PoseData {
+  const { iterations = 20, tolerance = 0.001, boneOffsets } = options;
+  const chain = IK_CHAINS[effector];
+  const result: PoseData = { ...poseData };
+
+  if (chain.hinge) {
+    solveLimb(result, chain, effector, target, boneOffsets);
+    return result;
+  }
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const effectorPosition = computeJointTransforms(result, boneOffsets)[effector].position;
+    if (effectorPosition.distanceTo(target) < tolerance) break;
+
+    for (let i = chain.joints.length - 1; i >= 0; i--) {
+      rotateJointTowards(result, chain.joints[i], effector, target, boneOffsets);
+    }
+  }
+
+  return result;
+}
+
+// 固定した足首の位置を保つように脚を解き直す
+export function applyFootPins(poseData: PoseData, pins: FootPins, options: IKOptions = {}): PoseData {
+  let result = poseData;
+
+  (Object.entries(pins) as Array<['LeftFoot' | 'RightFoot', THREE.Vector3 | undefined]>).forEach(([foot, target]) => {
+    if (target) {
+      result = solveIK(result, foot, target, options);
+    }
+  });
+
+  return result;
+}
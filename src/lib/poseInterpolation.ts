@@ -1,6 +1,9 @@
 'use client';
 
 import * as THREE from 'three';
+import { JOINT_LIMITS, clampRotation, clampQuaternionRotation, eulerDistance, getEulerSolutions } from './jointLimits';
+import { detectPoseShape, normalizeInterpolationPose, toInterpolationPose } from './poseDocument';
+import { FINGER_BONE_NAMES, type PoseData as EditorPoseData } from './humanoidRig';
 
 // ポーズデータの型定義
 export interface PoseRotation {
@@ -8,6 +11,8 @@ export interface PoseRotation {
   y: number;
   z: number;
   w?: number; // Quaternionの場合
+  order?: THREE.EulerOrder; // Euler角の回転順序（省略時は XYZ）
+  position?: [number, number, number]; // Rootの位置（エディター形式との変換で保持する）
 }
 
 export interface PoseData {
@@ -31,8 +36,37 @@ export interface InterpolationResult {
   warnings: string[];
 }
 
+// 重み付きブレンドの入力
+export interface PoseBlendInput {
+  pose: PoseData;
+  weight: number;
+}
+
+// 加算レイヤー（ポーズの初期姿勢からの回転を、重みの割合だけベースのポーズに重ねる）
+export interface PoseLayer {
+  pose: PoseData;
+  weight: number; // 0-1
+  boneMask?: string[]; // 指定したボーンだけに適用する（省略時はレイヤーの全ボーン）
+}
+
+// レイヤーのボーンマスクのプリセット
+export const BONE_MASK_PRESETS: Record<string, { label: string; bones: string[] }> = {
+  head: { label: '頭・首', bones: ['Neck', 'Head'] },
+  torso: { label: '胴体', bones: ['Hips', 'Spine', 'Chest'] },
+  leftArm: { label: '左腕', bones: ['LeftShoulder', 'LeftArm', 'LeftForeArm', 'LeftHand'] },
+  rightArm: { label: '右腕', bones: ['RightShoulder', 'RightArm', 'RightForeArm', 'RightHand'] },
+  leftFingers: { label: '左手の指', bones: FINGER_BONE_NAMES.filter(name => name.startsWith('Left')) },
+  rightFingers: { label: '右手の指', bones: FINGER_BONE_NAMES.filter(name => name.startsWith('Right')) },
+  leftLeg: { label: '左脚', bones: ['LeftUpLeg', 'LeftLeg', 'LeftFoot'] },
+  rightLeg: { label: '右脚', bones: ['RightUpLeg', 'RightLeg', 'RightFoot'] }
+};
+
 // 補間方法の種類
-export type InterpolationMethod = 'linear' | 'slerp' | 'cubic' | 'smoothstep';
+// squad と cubic は interpolateSequence では前後のキーフレームも使って滑らかにつなぐ
+export type InterpolationMethod = 'linear' | 'slerp' | 'squad' | 'cubic' | 'smoothstep';
+
+// Euler角の回転順序の既定値（エディターのリグと同じ）
+const DEFAULT_ROTATION_ORDER: THREE.EulerOrder = 'XYZ';
 
 // 数学ユーティリティ関数
 export class MathUtils {
@@ -67,35 +101,24 @@ export class MathUtils {
     return this.normalizeAngle(diff);
   }
 
-  // Euler角の補間（最短回転パスを考慮）
+  // Euler角の補間（Quaternionに変換して補間し、同じ回転順序のEuler角に戻す）
   static interpolateEuler(
     eulerA: { x: number; y: number; z: number },
     eulerB: { x: number; y: number; z: number },
     t: number,
-    method: InterpolationMethod = 'linear'
+    method: InterpolationMethod = 'linear',
+    order: THREE.EulerOrder = DEFAULT_ROTATION_ORDER
   ): { x: number; y: number; z: number } {
-    const interpolateValue = (a: number, b: number, t: number) => {
-      const diff = this.angleDifference(a, b);
-      const interpolated = a + diff * t;
-      
-      switch (method) {
-        case 'smoothstep':
-          return a + diff * this.smoothstep(0, 1, t);
-        case 'cubic':
-          return a + diff * this.cubic(0, 1, t);
-        default:
-          return interpolated;
-      }
-    };
-
-    return {
-      x: interpolateValue(eulerA.x, eulerB.x, t),
-      y: interpolateValue(eulerA.y, eulerB.y, t),
-      z: interpolateValue(eulerA.z, eulerB.z, t)
-    };
+    const quaternion = this.interpolateQuaternion(
+      this.eulerToQuaternion(eulerA, order),
+      this.eulerToQuaternion(eulerB, order),
+      t,
+      method
+    );
+    return this.quaternionToEulerNear(quaternion, order, [eulerA, eulerB]);
   }
 
-  // Quaternionの補間
+  // Quaternionの補間（2つのポーズだけでは前後が無いため、squad は slerp と同じ）
   static interpolateQuaternion(
     quatA: { x: number; y: number; z: number; w: number },
     quatB: { x: number; y: number; z: number; w: number },
@@ -103,19 +126,31 @@ export class MathUtils {
     method: InterpolationMethod = 'slerp'
   ): { x: number; y: number; z: number; w: number } {
     const q1 = new THREE.Quaternion(quatA.x, quatA.y, quatA.z, quatA.w);
-    const q2 = new THREE.Quaternion(quatB.x, quatB.y, quatB.z, quatB.w);
+    const q2 = this.alignQuaternion(new THREE.Quaternion(quatB.x, quatB.y, quatB.z, quatB.w), q1);
     
     let result: THREE.Quaternion;
     
     switch (method) {
       case 'linear':
         // 線形補間（正規化が必要）
-        result = new THREE.Quaternion().copy(q1).lerp(q2, t).normalize();
+        result = new THREE.Quaternion(
+          this.lerp(q1.x, q2.x, t),
+          this.lerp(q1.y, q2.y, t),
+          this.lerp(q1.z, q2.z, t),
+          this.lerp(q1.w, q2.w, t)
+        ).normalize();
+        break;
+      case 'smoothstep':
+        result = new THREE.Quaternion().slerpQuaternions(q1, q2, this.smoothstep(0, 1, t));
+        break;
+      case 'cubic':
+        result = new THREE.Quaternion().slerpQuaternions(q1, q2, this.cubic(0, 1, t));
         break;
       case 'slerp':
+      case 'squad':
       default:
         // 球面線形補間
-        result = new THREE.Quaternion().copy(q1).slerp(q2, t);
+        result = new THREE.Quaternion().slerpQuaternions(q1, q2, t);
         break;
     }
     
@@ -126,6 +161,121 @@ export class MathUtils {
       w: result.w
     };
   }
+
+  static eulerToQuaternion(
+    euler: { x: number; y: number; z: number },
+    order: THREE.EulerOrder = DEFAULT_ROTATION_ORDER
+  ): THREE.Quaternion {
+    return new THREE.Quaternion().setFromEuler(new THREE.Euler(euler.x, euler.y, euler.z, order));
+  }
+
+  static quaternionToEuler(
+    quaternion: { x: number; y: number; z: number; w: number },
+    order: THREE.EulerOrder = DEFAULT_ROTATION_ORDER
+  ): { x: number; y: number; z: number } {
+    const { x, y, z, w } = quaternion;
+    const euler = new THREE.Euler().setFromQuaternion(new THREE.Quaternion(x, y, z, w), order);
+    return { x: euler.x, y: euler.y, z: euler.z };
+  }
+
+  // 同じ回転を表すEuler角のうち、基準のEuler角（補間元の回転など）に最も近い解を選ぶ
+  // 標準の解は中間の軸の回転が±90°以内に限られ、肘を大きく曲げた回転などが別の角度の組み合わせになるため
+  static quaternionToEulerNear(
+    quaternion: { x: number; y: number; z: number; w: number },
+    order: THREE.EulerOrder = DEFAULT_ROTATION_ORDER,
+    references: Array<{ x: number; y: number; z: number }> = []
+  ): { x: number; y: number; z: number } {
+    if (references.length === 0) return this.quaternionToEuler(quaternion, order);
+
+    const { x, y, z, w } = quaternion;
+    const q = new THREE.Quaternion(x, y, z, w);
+    let best: [number, number, number] | null = null;
+    let bestDistance = Infinity;
+    references.forEach(reference => {
+      const target: [number, number, number] = [reference.x, reference.y, reference.z];
+      getEulerSolutions(q, order, target).forEach(solution => {
+        const distance = eulerDistance(solution, target);
+        if (distance < bestDistance) {
+          best = solution;
+          bestDistance = distance;
+        }
+      });
+    });
+
+    const [bx, by, bz] = best!;
+    return { x: bx, y: by, z: bz };
+  }
+
+  // 基準と同じ半球の向きにそろえる（qと-qは同じ回転のため、遠回りの補間を防ぐ）
+  static alignQuaternion(quaternion: THREE.Quaternion, reference: THREE.Quaternion): THREE.Quaternion {
+    if (quaternion.dot(reference) < 0) {
+      quaternion.set(-quaternion.x, -quaternion.y, -quaternion.z, -quaternion.w);
+    }
+    return quaternion;
+  }
+
+  // 単位Quaternionの対数（回転軸×半角）
+  private static logQuaternion(q: THREE.Quaternion): THREE.Vector3 {
+    const vector = new THREE.Vector3(q.x, q.y, q.z);
+    const sinHalfAngle = vector.length();
+    if (sinHalfAngle < 1e-9) return new THREE.Vector3();
+    return vector.multiplyScalar(Math.atan2(sinHalfAngle, q.w) / sinHalfAngle);
+  }
+
+  private static expQuaternion(vector: THREE.Vector3): THREE.Quaternion {
+    const halfAngle = vector.length();
+    if (halfAngle < 1e-9) return new THREE.Quaternion();
+    const scale = Math.sin(halfAngle) / halfAngle;
+    return new THREE.Quaternion(vector.x * scale, vector.y * scale, vector.z * scale, Math.cos(halfAngle));
+  }
+
+  // squad の制御点（前後のキーの回転から接線を求める）
+  static squadControlPoint(
+    previous: THREE.Quaternion,
+    current: THREE.Quaternion,
+    next: THREE.Quaternion
+  ): THREE.Quaternion {
+    const inverse = current.clone().invert();
+    const tangent = this.logQuaternion(inverse.clone().multiply(next))
+      .add(this.logQuaternion(inverse.clone().multiply(previous)))
+      .multiplyScalar(-0.25);
+    return current.clone().multiply(this.expQuaternion(tangent));
+  }
+
+  // 球面4角形補間（q1→q2 の区間を、前後のキー q0・q3 から求めた制御点で滑らかにつなぐ）
+  static squad(
+    q0: THREE.Quaternion,
+    q1: THREE.Quaternion,
+    q2: THREE.Quaternion,
+    q3: THREE.Quaternion,
+    t: number
+  ): THREE.Quaternion {
+    const s1 = this.squadControlPoint(q0, q1, q2);
+    const s2 = this.squadControlPoint(q1, q2, q3);
+    const outer = new THREE.Quaternion().slerpQuaternions(q1, q2, t);
+    const inner = new THREE.Quaternion().slerpQuaternions(s1, s2, t);
+    return outer.slerp(inner, 2 * t * (1 - t));
+  }
+
+  /**
+   * Catmull-Rom スプラインによる回転の補間（Barry-Goldman のピラミッドを slerp で計算）
+   * knots は各キーの時刻で、time は knots[1] から knots[2] の範囲
+   */
+  static catmullRomQuaternion(
+    [q0, q1, q2, q3]: THREE.Quaternion[],
+    [k0, k1, k2, k3]: number[],
+    time: number
+  ): THREE.Quaternion {
+    const slerpAt = (a: THREE.Quaternion, b: THREE.Quaternion, start: number, end: number) =>
+      new THREE.Quaternion().slerpQuaternions(a, b, (time - start) / (end - start));
+
+    const a1 = slerpAt(q0, q1, k0, k1);
+    const a2 = slerpAt(q1, q2, k1, k2);
+    const a3 = slerpAt(q2, q3, k2, k3);
+    const b1 = slerpAt(a1, a2, k0, k2);
+    const b2 = slerpAt(a2, a3, k1, k3);
+    return slerpAt(b1, b2, k1, k2);
+  }
 }
 
 // ポーズ補間クラス
@@ -146,6 +296,18 @@ export class PoseInterpolator {
     poseA: PoseData,
     poseB: PoseData,
     t: number
+  ): InterpolationResult {
+    return this.interpolateWith(poseA, poseB, t, (_, rotationA, rotationB, rotationT) =>
+      this.interpolateRotation(rotationA, rotationB, rotationT)
+    );
+  }
+
+  // 共通ボーンの回転を rotate で補間し、位置・不足ボーン・可動域の処理は共通で行う
+  private interpolateWith(
+    poseA: PoseData,
+    poseB: PoseData,
+    t: number,
+    rotate: (boneName: string, rotationA: PoseRotation, rotationB: PoseRotation, t: number) => PoseRotation
   ): InterpolationResult {
     const warnings: string[] = [];
     const interpolatedPose: PoseData = {};
@@ -186,7 +348,12 @@ export class PoseInterpolator {
       const rotationB = poseB[boneName];
       
       try {
-        interpolatedPose[boneName] = this.interpolateRotation(rotationA, rotationB, t);
+        interpolatedPose[boneName] = rotate(boneName, rotationA, rotationB, t);
+
+        const position = this.interpolatePosition(rotationA.position, rotationB.position, t);
+        if (position) {
+          interpolatedPose[boneName].position = position;
+        }
       } catch (error) {
         warnings.push(`ボーン ${boneName} の補間に失敗: ${error}`);
       }
@@ -203,6 +370,8 @@ export class PoseInterpolator {
       }
     }
 
+    this.clampToJointLimits(interpolatedPose, warnings);
+
     return {
       interpolatedPose,
       isValid: Object.keys(interpolatedPose).length > 0,
@@ -210,31 +379,200 @@ export class PoseInterpolator {
     };
   }
 
-  // 単一回転の補間
+  // 可動域を超えたボーンを補正（可動域の定義があるボーンのみ）
+  private clampToJointLimits(pose: PoseData, warnings: string[]): void {
+    const clampedBones: string[] = [];
+
+    Object.entries(pose).forEach(([boneName, rotation]) => {
+      if (!JOINT_LIMITS[boneName]) return;
+
+      // 可動域はエディターのリグと同じ XYZ 順のEuler角で定義されている
+      // XYZ順のEuler角はそのまま比べ、それ以外は可動域内に収まるEuler角の解を選んで比べる
+      const isQuaternion = rotation.w !== undefined;
+      const order = rotation.order || DEFAULT_ROTATION_ORDER;
+      const isLimitEuler = !isQuaternion && order === DEFAULT_ROTATION_ORDER;
+      const original = toQuaternion(rotation);
+      const clamped = isLimitEuler
+        ? clampRotation(boneName, [rotation.x, rotation.y, rotation.z])
+        : clampQuaternionRotation(boneName, original);
+      const quaternion = new THREE.Quaternion().setFromEuler(new THREE.Euler(...clamped));
+
+      const isUnchanged = isLimitEuler
+        ? clamped.every((value, index) => Math.abs(value - [rotation.x, rotation.y, rotation.z][index]) < 1e-6)
+        : Math.abs(quaternion.dot(original)) > 1 - 1e-9;
+      if (isUnchanged) return;
+
+      clampedBones.push(boneName);
+      if (isQuaternion) {
+        pose[boneName] = { ...rotation, x: quaternion.x, y: quaternion.y, z: quaternion.z, w: quaternion.w };
+      } else if (isLimitEuler) {
+        pose[boneName] = { ...rotation, x: clamped[0], y: clamped[1], z: clamped[2] };
+      } else {
+        pose[boneName] = { ...rotation, ...MathUtils.quaternionToEulerNear(quaternion, order, [rotation]) };
+      }
+    });
+
+    if (clampedBones.length > 0) {
+      warnings.push(`可動域を超えたため補正したボーン: ${clampedBones.join(', ')}`);
+    }
+  }
+
+  // 位置の線形補間（片方にしか無い場合はその位置を使う）
+  private interpolatePosition(
+    positionA: [number, number, number] | undefined,
+    positionB: [number, number, number] | undefined,
+    t: number
+  ): [number, number, number] | undefined {
+    if (!positionA || !positionB) return positionA || positionB;
+    return [
+      MathUtils.lerp(positionA[0], positionB[0], t),
+      MathUtils.lerp(positionA[1], positionB[1], t),
+      MathUtils.lerp(positionA[2], positionB[2], t)
+    ];
+  }
+
+  // 単一回転の補間（Euler角もQuaternionに変換して補間する）
   private interpolateRotation(
     rotationA: PoseRotation,
     rotationB: PoseRotation,
     t: number
   ): PoseRotation {
-    // Quaternionかどうかをチェック（wプロパティの存在で判定）
-    const isQuaternion = 'w' in rotationA && 'w' in rotationB;
-    
-    if (isQuaternion) {
-      return MathUtils.interpolateQuaternion(
-        rotationA as Required<PoseRotation>,
-        rotationB as Required<PoseRotation>,
-        t,
-        this.method
-      );
-    } else {
-      return MathUtils.interpolateEuler(rotationA, rotationB, t, this.method);
+    const quaternion = MathUtils.interpolateQuaternion(toQuaternion(rotationA), toQuaternion(rotationB), t, this.method);
+    return fromQuaternion(quaternion, rotationA, rotationB);
+  }
+
+  // 前後のキーフレームも使った回転の補間（squad / Catmull-Rom）
+  private interpolateSplineRotation(
+    rotations: (PoseRotation | undefined)[],
+    knots: number[],
+    time: number
+  ): PoseRotation {
+    const [previous, rotationA, rotationB, next] = rotations as [PoseRotation | undefined, PoseRotation, PoseRotation, PoseRotation | undefined];
+    const [, k1, k2] = knots;
+    const span = k2 - k1;
+    if (span <= 0) return { ...rotationB };
+
+    // 前後のキーが無い（または同じ時刻の）場合は、区間の端のキーを同じ間隔で延長する
+    const q1 = toQuaternion(rotationA);
+    const q2 = MathUtils.alignQuaternion(toQuaternion(rotationB), q1);
+    const hasPrevious = previous !== undefined && knots[0] < k1;
+    const hasNext = next !== undefined && knots[3] > k2;
+    const q0 = hasPrevious && previous ? MathUtils.alignQuaternion(toQuaternion(previous), q1) : q1.clone();
+    const q3 = hasNext && next ? MathUtils.alignQuaternion(toQuaternion(next), q2) : q2.clone();
+    const k0 = hasPrevious ? knots[0] : k1 - span;
+    const k3 = hasNext ? knots[3] : k2 + span;
+
+    const quaternion = this.method === 'squad'
+      ? MathUtils.squad(q0, q1, q2, q3, (time - k1) / span)
+      : MathUtils.catmullRomQuaternion([q0, q1, q2, q3], [k0, k1, k2, k3], time);
+    return fromQuaternion(quaternion.normalize(), rotationA, rotationB);
+  }
+
+  /**
+   * 複数ポーズの重み付きブレンド
+   * 各ボーンはそのボーンを持つポーズの重みで正規化し、回転はQuaternionで平均する
+   */
+  blend(inputs: PoseBlendInput[]): InterpolationResult {
+    const warnings: string[] = [];
+    const activeInputs = inputs
+      .filter(input => input.weight > 0)
+      .map(input => ({ pose: normalizeInterpolationPose(input.pose), weight: input.weight }));
+
+    if (activeInputs.length === 0) {
+      return {
+        interpolatedPose: {},
+        isValid: false,
+        warnings: ['重みが0より大きいポーズがありません']
+      };
     }
+
+    const boneNames = Array.from(new Set(activeInputs.flatMap(input => Object.keys(input.pose))));
+    const partialBones = boneNames.filter(boneName => activeInputs.some(input => !input.pose[boneName]));
+    if (partialBones.length > 0) {
+      warnings.push(`一部のポーズにしか存在しないボーン: ${partialBones.join(', ')}`);
+    }
+
+    const blendedPose: PoseData = {};
+    for (const boneName of boneNames) {
+      const sources = activeInputs.filter(input => input.pose[boneName]);
+
+      // 累積した平均から、そのポーズの重みの割合だけ近づける
+      const quaternion = new THREE.Quaternion();
+      let totalWeight = 0;
+      sources.forEach(({ pose, weight }) => {
+        totalWeight += weight;
+        quaternion.slerp(MathUtils.alignQuaternion(toQuaternion(pose[boneName]), quaternion), weight / totalWeight);
+      });
+      blendedPose[boneName] = fromQuaternion(quaternion, ...sources.map(({ pose }) => pose[boneName]));
+
+      const positioned = sources.filter(({ pose }) => pose[boneName].position);
+      if (positioned.length > 0) {
+        const positionWeight = positioned.reduce((sum, { weight }) => sum + weight, 0);
+        blendedPose[boneName].position = [0, 1, 2].map(axis =>
+          positioned.reduce((sum, { pose, weight }) => sum + pose[boneName].position![axis] * weight, 0) / positionWeight
+        ) as [number, number, number];
+      }
+    }
+
+    this.clampToJointLimits(blendedPose, warnings);
+
+    return {
+      interpolatedPose: blendedPose,
+      isValid: Object.keys(blendedPose).length > 0,
+      warnings
+    };
+  }
+
+  /**
+   * ベースのポーズに加算レイヤーを順番に重ねる
+   * レイヤーが持つボーン（ボーンマスクの指定があればその中のボーン）だけを変更する
+   */
+  applyLayers(basePose: PoseData, layers: PoseLayer[]): InterpolationResult {
+    const warnings: string[] = [];
+    const layeredPose: PoseData = {};
+    Object.entries(normalizeInterpolationPose(basePose)).forEach(([boneName, rotation]) => {
+      layeredPose[boneName] = { ...rotation };
+    });
+
+    layers.forEach(layer => {
+      if (layer.weight <= 0) return;
+      const mask = layer.boneMask ? new Set(layer.boneMask) : null;
+
+      Object.entries(normalizeInterpolationPose(layer.pose)).forEach(([boneName, rotation]) => {
+        if (mask && !mask.has(boneName)) return;
+
+        const base = layeredPose[boneName];
+        const identity = new THREE.Quaternion();
+        const delta = identity.clone().slerp(MathUtils.alignQuaternion(toQuaternion(rotation), identity), layer.weight);
+        const quaternion = base ? toQuaternion(base).multiply(delta) : delta;
+
+        const position = rotation.position
+          ? rotation.position.map((value, axis) => (base?.position?.[axis] || 0) + value * layer.weight) as [number, number, number]
+          : base?.position;
+
+        layeredPose[boneName] = {
+          ...fromQuaternion(quaternion, base || rotation),
+          ...(position && { position })
+        };
+      });
+    });
+
+    this.clampToJointLimits(layeredPose, warnings);
+
+    return {
+      interpolatedPose: layeredPose,
+      isValid: Object.keys(layeredPose).length > 0,
+      warnings
+    };
   }
 
   // 複数ポーズの連続補間
+  // times を指定すると各ポーズをその時刻（t と同じ単位の昇順）に置き、省略時は0-1に等間隔に並べる
+  // squad / cubic では前後のキーフレームも使い、キーフレームで途切れない滑らかな動きにする
   interpolateSequence(
     poses: PoseData[],
-    t: number
+    t: number,
+    times?: number[]
   ): InterpolationResult {
     if (poses.length < 2) {
       return {
@@ -244,20 +582,158 @@ export class PoseInterpolator {
       };
     }
 
-    if (poses.length === 2) {
-      return this.interpolate(poses[0], poses[1], t);
+    const keyTimes = times && times.length === poses.length
+      ? times
+      : poses.map((_, index) => index / (poses.length - 1));
+    const { index, t: segmentT } = findKeyframeSegment(keyTimes, t);
+
+    if (this.method !== 'squad' && this.method !== 'cubic') {
+      return this.interpolate(poses[index], poses[index + 1], segmentT);
     }
 
-    // 複数ポーズの場合、セグメントを計算
-    const segmentCount = poses.length - 1;
-    const segmentLength = 1.0 / segmentCount;
-    const segmentIndex = Math.floor(t * segmentCount);
-    const segmentT = (t * segmentCount) - segmentIndex;
+    const knots = [index - 1, index, index + 1, index + 2].map(i => keyTimes[i]);
+    const time = MathUtils.lerp(keyTimes[index], keyTimes[index + 1], segmentT);
+    return this.interpolateWith(poses[index], poses[index + 1], segmentT, (boneName, rotationA, rotationB) =>
+      this.interpolateSplineRotation(
+        [poses[index - 1]?.[boneName], rotationA, rotationB, poses[index + 2]?.[boneName]],
+        knots,
+        time
+      )
+    );
+  }
+}
+
+function toQuaternion(rotation: PoseRotation): THREE.Quaternion {
+  return rotation.w !== undefined
+    ? new THREE.Quaternion(rotation.x, rotation.y, rotation.z, rotation.w).normalize()
+    : MathUtils.eulerToQuaternion(rotation, rotation.order || DEFAULT_ROTATION_ORDER);
+}
 
-    const startIndex = Math.min(segmentIndex, poses.length - 2);
-    const endIndex = startIndex + 1;
+// 補間した回転を元の形式に戻す（全てQuaternionの場合のみQuaternion、それ以外は最初の回転順序のEuler角）
+function fromQuaternion(
+  quaternion: { x: number; y: number; z: number; w: number },
+  ...sources: PoseRotation[]
+): PoseRotation {
+  if (sources.every(rotation => rotation.w !== undefined)) {
+    const { x, y, z, w } = quaternion;
+    return { x, y, z, w };
+  }
+
+  const order = sources.find(rotation => rotation.order)?.order;
+  const references = sources.filter(rotation =>
+    rotation.w === undefined && (rotation.order || DEFAULT_ROTATION_ORDER) === (order || DEFAULT_ROTATION_ORDER)
+  );
+  return {
+    ...MathUtils.quaternionToEulerNear(quaternion, order || DEFAULT_ROTATION_ORDER, references),
+    ...(order && { order })
+  };
+}
 
-    return this.interpolate(poses[startIndex], poses[endIndex], segmentT);
+// 昇順のキーの時刻から、指定時刻を含む区間とその区間内の位置（0-1）を求める
+export function findKeyframeSegment(times: number[], time: number): { index: number; t: number } {
+  const lastIndex = times.length - 2;
+  let index = 0;
+  while (index < lastIndex && time >= times[index + 1]) {
+    index++;
+  }
+
+  const span = times[index + 1] - times[index];
+  const t = span > 0 ? (time - times[index]) / span : 1;
+  return { index, t: Math.max(0, Math.min(1, t)) };
+}
+
+// アニメーションとして書き出す時のフレームレート
+export const SEQUENCE_FPS_OPTIONS = [24, 30, 60];
+
+// ポーズの列を指定した長さ・フレームレートで補間したフレームの列（最初と最後のポーズを含む）
+export function samplePoseSequence(
+  poses: PoseData[],
+  duration: number,
+  fps: number,
+  method: InterpolationMethod = 'linear'
+): PoseData[] {
+  const interpolator = new PoseInterpolator(method);
+  const frameCount = Math.max(2, Math.round(duration * fps) + 1);
+
+  return Array.from({ length: frameCount }, (_, index) =>
+    interpolator.interpolateSequence(poses, index / (frameCount - 1)).interpolatedPose
+  );
+}
+
+// 左右反転の方向（左→右へコピー、右→左へコピー、全体を反転）
+export type MirrorMode = 'leftToRight' | 'rightToLeft' | 'flip';
+
+// エディター形式（rotation配列）と補間形式（x, y, z, w）の両方を扱う
+type MirrorableBoneData =
+  | PoseRotation
+  | { rotation: [number, number, number]; position?: [number, number, number] };
+
+const MIRROR_PREFIXES: Array<[string, string]> = [
+  ['Left', 'Right'],
+  ['left', 'right']
+];
+
+// 対になるボーン名を取得（LeftArm ⇔ RightArm、left_elbow ⇔ right_elbow）。中心のボーンは null
+export function getMirrorBoneName(boneName: string): string | null {
+  for (const [left, right] of MIRROR_PREFIXES) {
+    if (boneName.startsWith(left)) return right + boneName.slice(left.length);
+    if (boneName.startsWith(right)) return left + boneName.slice(right.length);
+  }
+  return null;
+}
+
+// YZ平面で反転：X軸回転はそのまま、Y・Z軸回転の符号を反転（Quaternionも同様）。位置はXを反転
+export function mirrorBoneData<T extends MirrorableBoneData>(data: T): T {
+  if ('rotation' in data) {
+    const [x, y, z] = data.rotation;
+    return {
+      ...data,
+      rotation: [x, -y, -z],
+      ...(data.position && { position: [-data.position[0], data.position[1], data.position[2]] })
+    };
+  }
+
+  return {
+    ...data,
+    y: -data.y,
+    z: -data.z,
+    ...(data.position && { position: [-data.position[0], data.position[1], data.position[2]] })
+  };
+}
+
+// ポーズを左右反転（保存済みポーズやテンプレートの反転にも使用）
+export function mirrorPose<T extends Record<string, MirrorableBoneData>>(pose: T, mode: MirrorMode = 'flip'): T {
+  const result: Record<string, MirrorableBoneData> = mode === 'flip' ? {} : { ...pose };
+
+  Object.entries(pose).forEach(([boneName, data]) => {
+    const mirrorName = getMirrorBoneName(boneName);
+
+    if (mode === 'flip') {
+      result[mirrorName || boneName] = mirrorBoneData(data);
+      return;
+    }
+
+    // 片側のみを反対側へコピー
+    const isSource = mode === 'leftToRight'
+      ? /^left/i.test(boneName)
+      : /^right/i.test(boneName);
+    if (mirrorName && isSource) {
+      result[mirrorName] = mirrorBoneData(data);
+    }
+  });
+
+  return result as T;
+}
+
+// 保存済みポーズのデータを現在の形式（エディターのボーン名を使う補間形式）に揃える
+function migrateSavedPoseData(poseData: unknown): PoseData {
+  switch (detectPoseShape(poseData)) {
+    case 'editor':
+      return toInterpolationPose(poseData as EditorPoseData);
+    case 'interpolation':
+      return normalizeInterpolationPose(poseData as PoseData);
+    default:
+      return poseData as PoseData;
   }
 }
 
@@ -265,13 +741,20 @@ export class PoseInterpolator {
 export class SavedPoseManager {
   private static readonly STORAGE_KEY = 'ai-pose-editor-saved-poses';
 
-  // 保存済みポーズを全て取得
+  // 保存済みポーズを全て取得（旧形式のポーズは読み込み時に移行して保存し直す）
   static getSavedPoses(): SavedPose[] {
     if (typeof window === 'undefined') return [];
     
     try {
       const stored = localStorage.getItem(this.STORAGE_KEY);
-      return stored ? JSON.parse(stored) : [];
+      if (!stored) return [];
+
+      const savedPoses: SavedPose[] = JSON.parse(stored);
+      const migratedPoses = savedPoses.map(pose => ({ ...pose, poseData: migrateSavedPoseData(pose.poseData) }));
+      if (JSON.stringify(migratedPoses) !== stored) {
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(migratedPoses));
+      }
+      return migratedPoses;
     } catch (error) {
       console.error('Error loading saved poses:', error);
       return [];
@@ -350,28 +833,28 @@ export class SavedPoseManager {
   }
 }
 
-// プリセットポーズ（デモ用）
+// プリセットポーズ（デモ用）。エディターのボーン名と回転で、全て0がTポーズ
 export const PRESET_POSES: SavedPose[] = [
   {
     id: 'preset_tpose',
     name: 'Tポーズ',
     description: '基本的なTポーズ',
     poseData: {
-      head: { x: 0, y: 0, z: 0 },
-      neck: { x: 0, y: 0, z: 0 },
-      spine: { x: 0, y: 0, z: 0 },
-      left_shoulder: { x: 0, y: 0, z: -1.5708 },
-      right_shoulder: { x: 0, y: 0, z: 1.5708 },
-      left_elbow: { x: 0, y: 0, z: 0 },
-      right_elbow: { x: 0, y: 0, z: 0 },
-      left_wrist: { x: 0, y: 0, z: 0 },
-      right_wrist: { x: 0, y: 0, z: 0 },
-      left_hip: { x: 0, y: 0, z: 0 },
-      right_hip: { x: 0, y: 0, z: 0 },
-      left_knee: { x: 0, y: 0, z: 0 },
-      right_knee: { x: 0, y: 0, z: 0 },
-      left_ankle: { x: 0, y: 0, z: 0 },
-      right_ankle: { x: 0, y: 0, z: 0 }
+      Head: { x: 0, y: 0, z: 0 },
+      Neck: { x: 0, y: 0, z: 0 },
+      Spine: { x: 0, y: 0, z: 0 },
+      LeftArm: { x: 0, y: 0, z: 0 },
+      RightArm: { x: 0, y: 0, z: 0 },
+      LeftForeArm: { x: 0, y: 0, z: 0 },
+      RightForeArm: { x: 0, y: 0, z: 0 },
+      LeftHand: { x: 0, y: 0, z: 0 },
+      RightHand: { x: 0, y: 0, z: 0 },
+      LeftUpLeg: { x: 0, y: 0, z: 0 },
+      RightUpLeg: { x: 0, y: 0, z: 0 },
+      LeftLeg: { x: 0, y: 0, z: 0 },
+      RightLeg: { x: 0, y: 0, z: 0 },
+      LeftFoot: { x: 0, y: 0, z: 0 },
+      RightFoot: { x: 0, y: 0, z: 0 }
     },
     createdAt: '2024-01-01T00:00:00Z',
     tags: ['基本', 'リファレンス']
@@ -381,21 +864,21 @@ export const PRESET_POSES: SavedPose[] = [
     name: '手を振るポーズ',
     description: '片手を上げて振るポーズ',
     poseData: {
-      head: { x: 0, y: 0.2, z: 0 },
-      neck: { x: 0, y: 0.1, z: 0 },
-      spine: { x: 0, y: 0, z: 0 },
-      left_shoulder: { x: 0, y: 0, z: -0.5 },
-      right_shoulder: { x: 0, y: 0.5, z: -2.5 },
-      left_elbow: { x: 0, y: 0, z: 0 },
-      right_elbow: { x: 0, y: 0, z: -1.2 },
-      left_wrist: { x: 0, y: 0, z: 0 },
-      right_wrist: { x: 0, y: 0.3, z: 0 },
-      left_hip: { x: 0, y: 0, z: 0 },
-      right_hip: { x: 0, y: 0, z: 0 },
-      left_knee: { x: 0, y: 0, z: 0 },
-      right_knee: { x: 0, y: 0, z: 0 },
-      left_ankle: { x: 0, y: 0, z: 0 },
-      right_ankle: { x: 0, y: 0, z: 0 }
+      Head: { x: 0, y: 0.2, z: 0 },
+      Neck: { x: 0, y: 0.1, z: 0 },
+      Spine: { x: 0, y: 0, z: 0 },
+      LeftArm: { x: 0, y: 0, z: -1.3 },
+      RightArm: { x: -1.57, y: 0.5, z: 0 },
+      LeftForeArm: { x: 0, y: 0, z: 0 },
+      RightForeArm: { x: 0, y: 1.7, z: 0 },
+      LeftHand: { x: 0, y: 0, z: 0 },
+      RightHand: { x: 0, y: 0.3, z: 0 },
+      LeftUpLeg: { x: 0, y: 0, z: 0 },
+      RightUpLeg: { x: 0, y: 0, z: 0 },
+      LeftLeg: { x: 0, y: 0, z: 0 },
+      RightLeg: { x: 0, y: 0, z: 0 },
+      LeftFoot: { x: 0, y: 0, z: 0 },
+      RightFoot: { x: 0, y: 0, z: 0 }
     },
     createdAt: '2024-01-01T00:00:00Z',
     tags: ['挨拶', '手振り']
@@ -405,21 +888,21 @@ export const PRESET_POSES: SavedPose[] = [
     name: '考えるポーズ',
     description: '顎に手を当てて考えるポーズ',
     poseData: {
-      head: { x: 0, y: -0.3, z: 0.2 },
-      neck: { x: 0, y: -0.2, z: 0 },
-      spine: { x: 0, y: 0, z: 0 },
-      left_shoulder: { x: 0, y: 0, z: -0.3 },
-      right_shoulder: { x: 0, y: 0.8, z: 0.5 },
-      left_elbow: { x: 0, y: 0, z: 0 },
-      right_elbow: { x: 0, y: 0, z: -2.0 },
-      left_wrist: { x: 0, y: 0, z: 0 },
-      right_wrist: { x: 0, y: 0.5, z: 0 },
-      left_hip: { x: 0, y: 0, z: 0 },
-      right_hip: { x: 0, y: 0, z: 0 },
-      left_knee: { x: 0, y: 0, z: 0 },
-      right_knee: { x: 0, y: 0, z: 0 },
-      left_ankle: { x: 0, y: 0, z: 0 },
-      right_ankle: { x: 0, y: 0, z: 0 }
+      Head: { x: 0.25, y: -0.2, z: 0.15 },
+      Neck: { x: 0.1, y: -0.1, z: 0 },
+      Spine: { x: 0, y: 0, z: 0 },
+      LeftArm: { x: -0.24, y: -0.49, z: -1.65 },
+      RightArm: { x: -1.57, y: 0.37, z: 1.65 },
+      LeftForeArm: { x: 0, y: -1.48, z: 0 },
+      RightForeArm: { x: 0, y: 2.08, z: 0 },
+      LeftHand: { x: 0, y: 0, z: 0 },
+      RightHand: { x: 0, y: 0, z: 0 },
+      LeftUpLeg: { x: 0, y: 0, z: 0 },
+      RightUpLeg: { x: 0, y: 0, z: 0 },
+      LeftLeg: { x: 0, y: 0, z: 0 },
+      RightLeg: { x: 0, y: 0, z: 0 },
+      LeftFoot: { x: 0, y: 0, z: 0 },
+      RightFoot: { x: 0, y: 0, z: 0 }
     },
     createdAt: '2024-01-01T00:00:00Z',
     tags: ['思考', '表情']
@@ -431,45 +914,19 @@ export function initializePresetPoses(): void {
   if (typeof window === 'undefined') return;
   
   const savedPoses = SavedPoseManager.getSavedPoses();
-  
-  // プリセットが存在しない場合のみ追加
+
+  // 保存済みのプリセットは現在の定義に置き換え（旧形式の回転のまま保存されたプリセットを直す）、無いものは追加
+  const updatedPoses = savedPoses.map(pose => PRESET_POSES.find(preset => preset.id === pose.id) || pose);
   const existingPresetIds = savedPoses
     .filter(pose => pose.id.startsWith('preset_'))
     .map(pose => pose.id);
-  
-  const newPresets = PRESET_POSES.filter(preset => 
+
+  const newPresets = PRESET_POSES.filter(preset =>
     !existingPresetIds.includes(preset.id)
   );
-  
-  if (newPresets.length > 0) {
-    const allPoses = [...savedPoses, ...newPresets];
+
+  const allPoses = [...updatedPoses, ...newPresets];
+  if (JSON.stringify(allPoses) !== JSON.stringify(savedPoses)) {
     localStorage.setItem(SavedPoseManager['STORAGE_KEY'], JSON.stringify(allPoses));
   }
 }
-
-// ポーズの類似度を計算（オプション機能）
-export function calculatePoseSimilarity(poseA: PoseData, poseB: PoseData): number {
-  const commonBones = Object.keys(poseA).filter(bone => bone in poseB);
-  
-  if (commonBones.length === 0) return 0;
-  
-  let totalDifference = 0;
-  
-  for (const boneName of commonBones) {
-    const rotA = poseA[boneName];
-    const rotB = poseB[boneName];
-    
-    // Euler角の差分を計算
-    const diffX = Math.abs(MathUtils.angleDifference(rotA.x, rotB.x));
-    const diffY = Math.abs(MathUtils.angleDifference(rotA.y, rotB.y));
-    const diffZ = Math.abs(MathUtils.angleDifference(rotA.z, rotB.z));
-    
-    totalDifference += (diffX + diffY + diffZ) / 3;
-  }
-  
-  const averageDifference = totalDifference / commonBones.length;
-  // 0-1の範囲に正規化（π以上の差分は完全に異なるとみなす）
-  const similarity = Math.max(0, 1 - (averageDifference / Math.PI));
-  
-  return similarity;
-}
\ No newline at end of file
@@ -0,0 +1,275 @@
+'use client';
+
+// 写真から検出した2Dキーポイントを、エディターで編集できる3Dポーズ（ボーンの回転）に変換する
+// 奥行きはリグの骨の長さとの比較から求め（正射影を仮定）、手足は2ボーンIKで肘・膝の向きまで合わせる
+// 信頼度の低い関節に関わるボーンは初期姿勢（回転0）のまま残し、手動での調整が必要なボーンとして返す
+
+import * as THREE from 'three';
+import type { PoseData } from './humanoidRig';
+import { computeJointTransforms, solveIK, type IKEffector } from './poseIK';
+import { clampRotation, clampQuaternionRotation } from './jointLimits';
+import { BODY_KEYPOINT_BONES } from './poseProjection';
+import { sortPeopleLeftToRight, type DetectedPerson } from './detectedPeople';
+import { CHARACTER_SPACING, MAX_SCENE_CHARACTERS, createPoseScene, createSceneCharacter, setCharacterPosition, type PoseScene } from './poseScene';
+import type { Keypoint } from './poseDocument';
+import type { CameraState } from './cameraPresets';
+
+export interface LiftingOptions {
+  aspectRatio?: number; // 写真の幅 / 高さ（キーポイントは幅・高さで別々に正規化されている）
+  minConfidence?: number; // これ未満の信頼度のキーポイントは使わない
+}
+
+export interface LiftedPose {
+  pose: PoseData;
+  uncertainBones: string[]; // 推定できず初期姿勢のままのボーン
+}
+
+export const LIFTING_MIN_CONFIDENCE = 0.3;
+
+// 画像の座標（Y軸は上向き、単位は写真の高さ）
+interface Point2D {
+  x: number;
+  y: number;
+}
+
+interface LimbDefinition {
+  effector: IKEffector;
+  keypoints: [string, string, string]; // 根元・中間・先端
+  // 中間・先端の関節が、根元・中間より体の前側にあるとみなすか（奥行きの前後は写真から決まらないため）
+  depthSigns: [1 | -1, 1 | -1];
+}
+
+const LIMBS: LimbDefinition[] = [
+  { effector: 'LeftHand', keypoints: ['left_shoulder', 'left_elbow', 'left_wrist'], depthSigns: [1, 1] },
+  { effector: 'RightHand', keypoints: ['right_shoulder', 'right_elbow', 'right_wrist'], depthSigns: [1, 1] },
+  { effector: 'LeftFoot', keypoints: ['left_hip', 'left_knee', 'left_ankle'], depthSigns: [1, -1] },
+  { effector: 'RightFoot', keypoints: ['right_hip', 'right_knee', 'right_ankle'], depthSigns: [1, -1] }
+];
+
+// 両耳の中心から見た鼻の位置（頭ボーン基準。poseProjectionの顔のキーポイントの配置と同じ）
+const NOSE_FORWARD_OFFSET = 0.1;
+const NOSE_UP_OFFSET = -0.01;
+
+// 初期姿勢のボーンの位置（骨の長さの基準）
+const REST_TRANSFORMS = computeJointTransforms({});
+
+const restPosition = (keypointName: string) => REST_TRANSFORMS[BODY_KEYPOINT_BONES[keypointName]].position;
+
+const restLength = (from: string, to: string) => restPosition(from).distanceTo(restPosition(to));
+
+const restMidpoint = (a: string, b: string) => restPosition(a).clone().add(restPosition(b)).multiplyScalar(0.5);
+
+// 両肩の中心から両腰の中心までの長さ
+const REST_TORSO_LENGTH = restMidpoint('left_shoulder', 'right_shoulder').distanceTo(restMidpoint('left_hip', 'right_hip'));
+
+const midpoint = (a: Point2D, b: Point2D): Point2D => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+const distance2D = (a: Point2D, b: Point2D) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// 体型の個人差（骨の長さの比率の違い）とみなす短縮の割合。これより短縮が小さい骨は奥行きに傾けない
+const FORESHORTENING_TOLERANCE = 0.95;
+
+// 骨の長さと写真上の長さから、奥行き方向の差を求める（短縮が許容範囲内なら0）
+const depthFromLength = (length: number, projectedLength: number) =>
+  projectedLength >= length * FORESHORTENING_TOLERANCE
+    ? 0
+    : Math.sqrt(length * length - projectedLength * projectedLength);
+
+function setWorldRotation(result: PoseData, boneName: string, worldQuaternion: THREE.Quaternion, parentName: string | null): void {
+  const transforms = computeJointTransforms(result);
+  const parentQuaternion = parentName ? transforms[parentName].quaternion : new THREE.Quaternion();
+  const local = parentQuaternion.clone().invert().multiply(worldQuaternion);
+  result[boneName] = { ...result[boneName], rotation: clampQuaternionRotation(boneName, local, result[boneName]?.rotation) };
+}
+
+// ボーンをワールド空間で回転させる（親ボーン基準の回転に変換して書き込む）
+function rotateBoneInWorld(result: PoseData, boneName: string, parentName: string, delta: THREE.Quaternion): void {
+  const current = computeJointTransforms(result)[boneName].quaternion;
+  setWorldRotation(result, boneName, delta.clone().multiply(current), parentName);
+}
+
+// 左右の軸と上方向の軸から体の向き（ワールド回転）を求める
+function frameFromAxes(leftAxis: THREE.Vector3, upAxis: THREE.Vector3): THREE.Quaternion {
+  const x = leftAxis.clone().normalize();
+  const y = upAxis.clone().sub(x.clone().multiplyScalar(upAxis.dot(x))).normalize();
+  const z = new THREE.Vector3().crossVectors(x, y);
+  return new THREE.Quaternion().setFromRotationMatrix(new THREE.Matrix4().makeBasis(x, y, z));
+}
+
+/**
+ * 2Dキーポイントから3Dポーズを推定
+ * 上体（両肩の中心から両腰の中心）の長さをリグに合わせて縮尺を決め、手足や肩幅・腰幅の短縮分を奥行きとみなす
+ */
+export function liftKeypointsToPose(keypoints: Keypoint[], options: LiftingOptions = {}): LiftedPose {
+  const { aspectRatio = 1, minConfidence = LIFTING_MIN_CONFIDENCE } = options;
+
+  const points = new Map<string, Point2D>();
+  keypoints.forEach(keypoint => {
+    if ((keypoint.confidence ?? 1) >= minConfidence) {
+      points.set(keypoint.name, { x: keypoint.x * aspectRatio, y: -keypoint.y });
+    }
+  });
+  const has = (...names: string[]) => names.every(name => points.has(name));
+  const point = (name: string) => points.get(name)!;
+
+  const pose: PoseData = {};
+  const uncertainBones = new Set<string>();
+
+  // 縮尺（リグの長さ / 写真上の長さ）。体の向きで変わらない上体の長さを優先し、
+  // 上体が見えない場合は肩幅・腰幅、それも無ければ手足の骨のうち最も短縮されていないものから求める
+  const hasTorso = has('left_shoulder', 'right_shoulder', 'left_hip', 'right_hip');
+  const projectedTorsoLength = hasTorso
+    ? distance2D(midpoint(point('left_shoulder'), point('right_shoulder')), midpoint(point('left_hip'), point('right_hip')))
+    : 0;
+  const segmentScales = (segments: Array<[string, string]>) => segments
+    .filter(([a, b]) => has(a, b) && distance2D(point(a), point(b)) > 1e-4)
+    .map(([a, b]) => restLength(a, b) / distance2D(point(a), point(b)));
+  const scales = projectedTorsoLength > 1e-4
+    ? [REST_TORSO_LENGTH / projectedTorsoLength]
+    : [
+      segmentScales([['left_shoulder', 'right_shoulder'], ['left_hip', 'right_hip']]),
+      segmentScales(LIMBS.flatMap(({ keypoints: [root, middle, end] }) => [[root, middle], [middle, end]] as Array<[string, string]>))
+    ].find(candidates => candidates.length > 0) || [];
+
+  if (scales.length === 0) {
+    return {
+      pose,
+      uncertainBones: ['Hips', 'Spine', 'Chest', 'Head', ...LIMBS.flatMap(({ keypoints: [root, middle] }) =>
+        [BODY_KEYPOINT_BONES[root], BODY_KEYPOINT_BONES[middle]])]
+    };
+  }
+  const scale = Math.min(...scales);
+
+  // 左右の肩が写真上で入れ替わっていれば後ろ向き。体の前側の奥行きの向きを決める
+  const facingAway = has('left_shoulder', 'right_shoulder')
+    ? point('left_shoulder').x < point('right_shoulder').x
+    : has('left_hip', 'right_hip') && point('left_hip').x < point('right_hip').x;
+  const front = facingAway ? -1 : 1;
+
+  // 鼻が肩の中心より右に見えれば、体の左側が奥にある（鼻が見えない場合は右側が奥とみなす）
+  const shoulderCenter = has('left_shoulder', 'right_shoulder') ? midpoint(point('left_shoulder'), point('right_shoulder')) : null;
+  const turnSign = has('nose') && shoulderCenter && point('nose').x < shoulderCenter.x ? -1 : 1;
+
+  // 奥行き（Z）を含む3D位置。左右の対になった関節は中心を0とする
+  const depths = new Map<string, number>();
+  const setPairDepths = (left: string, right: string, baseDepth: number) => {
+    if (!has(left, right)) return;
+    const depth = depthFromLength(restLength(left, right), distance2D(point(left), point(right)) * scale);
+    depths.set(left, baseDepth - turnSign * depth / 2);
+    depths.set(right, baseDepth + turnSign * depth / 2);
+  };
+
+  setPairDepths('left_hip', 'right_hip', 0);
+  setPairDepths('left_shoulder', 'right_shoulder', 0);
+
+  const toVector = (name: string) => new THREE.Vector3(point(name).x * scale, point(name).y * scale, depths.get(name) ?? 0);
+
+  // 体幹：腰の左右と上体の向きから Hips、肩の左右から Spine・Chest の回転を求める
+  if (hasTorso) {
+    const hipCenter = toVector('left_hip').add(toVector('right_hip')).multiplyScalar(0.5);
+    const chestCenter = toVector('left_shoulder').add(toVector('right_shoulder')).multiplyScalar(0.5);
+    const up = chestCenter.clone().sub(hipCenter);
+
+    const hipsQuaternion = frameFromAxes(toVector('left_hip').sub(toVector('right_hip')), up);
+    const chestQuaternion = frameFromAxes(toVector('left_shoulder').sub(toVector('right_shoulder')), up);
+    setWorldRotation(pose, 'Hips', hipsQuaternion, 'Root');
+
+    // 腰から胸までの捻り・曲げは Spine と Chest に半分ずつ振り分ける
+    const half = new THREE.Quaternion().slerp(hipsQuaternion.clone().invert().multiply(chestQuaternion), 0.5);
+    ['Spine', 'Chest'].forEach(boneName => {
+      pose[boneName] = { rotation: clampQuaternionRotation(boneName, half) };
+    });
+  } else {
+    ['Hips', 'Spine', 'Chest'].forEach(boneName => uncertainBones.add(boneName));
+  }
+
+  // 手足：根元の関節からの相対位置を目標にIKで解き、肘・膝が検出位置を向くよう骨の軸回りに回す
+  LIMBS.forEach(({ effector, keypoints: [root, middle, end], depthSigns }) => {
+    const upperBone = BODY_KEYPOINT_BONES[root];
+    const lowerBone = BODY_KEYPOINT_BONES[middle];
+    const parentBone = effector.endsWith('Hand') ? effector.replace('Hand', 'Shoulder') : 'Hips';
+
+    if (!has(root, middle)) {
+      uncertainBones.add(upperBone);
+      uncertainBones.add(lowerBone);
+      return;
+    }
+
+    const rootPosition = toVector(root);
+    const upperLength = restLength(root, middle);
+    const middlePosition = toVector(middle);
+    middlePosition.z = rootPosition.z + front * depthSigns[0] *
+      depthFromLength(upperLength, distance2D(point(root), point(middle)) * scale);
+    const rigRoot = computeJointTransforms(pose)[upperBone].position;
+    const pole = rigRoot.clone().add(middlePosition.clone().sub(rootPosition));
+
+    if (!has(end)) {
+      // 先端が見えない場合は上の骨の向きのみ合わせる
+      const transforms = computeJointTransforms(pose);
+      const current = transforms[lowerBone].position.clone().sub(rigRoot).normalize();
+      const desired = pole.clone().sub(rigRoot).normalize();
+      rotateBoneInWorld(pose, upperBone, parentBone, new THREE.Quaternion().setFromUnitVectors(current, desired));
+      uncertainBones.add(lowerBone);
+      return;
+    }
+
+    const endPosition = toVector(end);
+    endPosition.z = middlePosition.z + front * depthSigns[1] *
+      depthFromLength(restLength(middle, end), distance2D(point(middle), point(end)) * scale);
+    const target = rigRoot.clone().add(endPosition.sub(rootPosition));
+
+    Object.assign(pose, solveIK(pose, effector, target));
+
+    // 根元から先端への軸回りに回し、肘・膝を検出した方向へ向ける
+    const transforms = computeJointTransforms(pose);
+    const axis = transforms[effector].position.clone().sub(rigRoot).normalize();
+    const project = (vector: THREE.Vector3) => vector.sub(axis.clone().multiplyScalar(vector.dot(axis)));
+    const currentBend = project(transforms[lowerBone].position.clone().sub(rigRoot));
+    const desiredBend = project(pole.clone().sub(rigRoot));
+    if (currentBend.lengthSq() > 1e-8 && desiredBend.lengthSq() > 1e-8) {
+      const twist = new THREE.Quaternion().setFromUnitVectors(currentBend.normalize(), desiredBend.normalize());
+      rotateBoneInWorld(pose, upperBone, parentBone, twist);
+    }
+  });
+
+  // 頭：鼻と両耳の位置から左右・上下の向き、両目の傾きから首の傾げを求める（上体に対する回転）
+  if (has('nose', 'left_ear', 'right_ear') && !facingAway) {
+    const earCenter = midpoint(point('left_ear'), point('right_ear'));
+    const clampSin = (value: number) => Math.asin(Math.max(-1, Math.min(1, value)));
+    const chestForward = new THREE.Vector3(0, 0, 1).applyQuaternion(computeJointTransforms(pose)['Chest'].quaternion);
+    const yaw = clampSin((point('nose').x - earCenter.x) * scale / NOSE_FORWARD_OFFSET) - Math.atan2(chestForward.x, chestForward.z);
+    // 鼻は耳より少し低いため、その分を差し引く
+    const noseDistance = Math.hypot(NOSE_FORWARD_OFFSET, NOSE_UP_OFFSET);
+    const pitch = clampSin((earCenter.y - point('nose').y) * scale / noseDistance) + Math.atan2(NOSE_UP_OFFSET, NOSE_FORWARD_OFFSET);
+    const roll = has('left_eye', 'right_eye') && shoulderCenter
+      ? Math.atan2(point('left_eye').y - point('right_eye').y, point('left_eye').x - point('right_eye').x) -
+        Math.atan2(point('left_shoulder').y - point('right_shoulder').y, point('left_shoulder').x - point('right_shoulder').x)
+      : 0;
+    pose['Head'] = { rotation: clampRotation('Head', [pitch, yaw, roll]) };
+  } else {
+    uncertainBones.add('Head');
+  }
+
+  return { pose, uncertainBones: Array.from(uncertainBones) };
+}
+
+/**
+ * 選択した人物をキャラクターとするシーンを作成
+ * 写真と同じ左右の並びで横に並べ、2Dキーポイントから推定したポーズを適用する
+ * 検出したキーポイントは画像生成用に保持する
+ */
+export function createSceneFromPeople(people: DetectedPerson[], options: LiftingOptions & { camera?: CameraState } = {}): PoseScene {
+  const { camera, ...liftingOptions } = options;
+  const sorted = sortPeopleLeftToRight(people).slice(0, MAX_SCENE_CHARACTERS);
+  const characters = sorted.map((person, index) => {
+    const { pose, uncertainBones } = liftKeypointsToPose(person.keypoints, liftingOptions);
+    const x = (index - (sorted.length - 1) / 2) * CHARACTER_SPACING;
+    return {
+      ...createSceneCharacter(setCharacterPosition(pose, [x, 0, 0]), `人物${index + 1}`),
+      detectedKeypoints: person.keypoints,
+      ...(uncertainBones.length > 0 && { uncertainBones })
+    };
+  });
+
+  return createPoseScene(characters, undefined, camera);
+}
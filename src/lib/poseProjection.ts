@@ -0,0 +1,239 @@
+'use client';
+
+import * as THREE from 'three';
+import { FINGER_NAMES, FINGER_SEGMENT_COUNT, HUMANOID_BONES, getFingerBoneName, type FingerName, type PoseData } from './humanoidRig';
+import { computeJointTransforms, type BoneOffsets, type JointTransform } from './poseIK';
+import type { CameraState } from './cameraPresets';
+import type { Keypoint } from './poseDocument';
+
+export type { Keypoint };
+
+// 体のキーポイント名 → 関節ボーン名
+export const BODY_KEYPOINT_BONES: Record<string, string> = {
+  left_shoulder: 'LeftArm',
+  right_shoulder: 'RightArm',
+  left_elbow: 'LeftForeArm',
+  right_elbow: 'RightForeArm',
+  left_wrist: 'LeftHand',
+  right_wrist: 'RightHand',
+  left_hip: 'LeftUpLeg',
+  right_hip: 'RightUpLeg',
+  left_knee: 'LeftLeg',
+  right_knee: 'RightLeg',
+  left_ankle: 'LeftFoot',
+  right_ankle: 'RightFoot'
+};
+
+// 頭の中心（頭ボーン基準の位置）
+const HEAD_CENTER_OFFSET: [number, number, number] = [0, 0.1, 0];
+
+// 顔のキーポイント（頭ボーン基準の位置）
+const FACE_KEYPOINT_OFFSETS: Record<string, [number, number, number]> = {
+  nose: [0, 0.1, 0.1],
+  left_eye: [0.035, 0.13, 0.085],
+  right_eye: [-0.035, 0.13, 0.085],
+  left_ear: [0.095, 0.11, 0],
+  right_ear: [-0.095, 0.11, 0]
+};
+
+// 指のキーポイント名（COCO-WholeBody形式、1〜3が関節、4が指先）
+const FINGER_KEYPOINT_NAMES: Record<FingerName, string> = {
+  Thumb: 'thumb',
+  Index: 'forefinger',
+  Middle: 'middle_finger',
+  Ring: 'ring_finger',
+  Little: 'pinky_finger'
+};
+
+// 画像の端に確保する余白
+const PROJECTION_MARGIN = 0.1;
+
+// ボーンのローカル位置をワールド座標に変換
+function toWorld(transform: JointTransform, offset: [number, number, number]): THREE.Vector3 {
+  return new THREE.Vector3(...offset).applyQuaternion(transform.quaternion).add(transform.position);
+}
+
+// エディターのカメラから見た位置に投影（生成画像は正方形のため、縦方向の画角を基準にする）
+function projectWithCamera(points: KeypointPosition[], state: CameraState): Keypoint[] {
+  const camera = new THREE.PerspectiveCamera(state.fov, 1, 0.01, 1000);
+  camera.position.set(...state.position);
+  camera.lookAt(new THREE.Vector3(...state.target));
+  camera.updateMatrixWorld();
+
+  return points.map(({ name, position }) => {
+    const projected = position.clone().project(camera);
+    return {
+      name,
+      x: (projected.x + 1) / 2,
+      y: (1 - projected.y) / 2
+    };
+  });
+}
+
+// 3D上のキーポイント（顔のキーポイントは頭の表面の向きを持つ）
+export interface KeypointPosition {
+  name: string;
+  position: THREE.Vector3;
+  normal?: THREE.Vector3;
+}
+
+// ポーズの3D上のキーポイント位置を計算（モデルを読み込んだキャラクターはモデルの体型で計算）
+export function computeKeypointPositions(poseData: PoseData, boneOffsets?: BoneOffsets): KeypointPosition[] {
+  const transforms = computeJointTransforms(poseData, boneOffsets);
+  const points: KeypointPosition[] = [];
+  const headCenter = toWorld(transforms['Head'], HEAD_CENTER_OFFSET);
+
+  Object.entries(FACE_KEYPOINT_OFFSETS).forEach(([name, offset]) => {
+    const position = toWorld(transforms['Head'], offset);
+    points.push({ name, position, normal: position.clone().sub(headCenter).normalize() });
+  });
+
+  Object.entries(BODY_KEYPOINT_BONES).forEach(([name, boneName]) => {
+    points.push({ name, position: transforms[boneName].position.clone() });
+  });
+
+  (['Left', 'Right'] as const).forEach(side => {
+    const prefix = side.toLowerCase();
+
+    FINGER_NAMES.forEach(finger => {
+      for (let segment = 1; segment <= FINGER_SEGMENT_COUNT; segment++) {
+        const boneName = getFingerBoneName(side, finger, segment);
+        points.push({
+          name: `${prefix}_${FINGER_KEYPOINT_NAMES[finger]}${segment}`,
+          position: transforms[boneName].position.clone()
+        });
+      }
+
+      // 指先は末端ボーンの先端
+      const distalName = getFingerBoneName(side, finger, FINGER_SEGMENT_COUNT);
+      const tip = HUMANOID_BONES.find(bone => bone.name === distalName)?.tip || [0, 0, 0];
+      points.push({
+        name: `${prefix}_${FINGER_KEYPOINT_NAMES[finger]}${FINGER_SEGMENT_COUNT + 1}`,
+        position: toWorld(transforms[distalName], tip)
+      });
+    });
+  });
+
+  return points;
+}
+
+// 体の遮蔽判定用の形状（関節間のカプセルで近似）
+interface BodyVolume {
+  start: THREE.Vector3;
+  end: THREE.Vector3;
+  radius: number;
+}
+
+const BODY_VOLUME_SEGMENTS: Array<[string, string, number]> = [
+  ['Hips', 'Neck', 0.13],
+  ['LeftArm', 'LeftForeArm', 0.045],
+  ['LeftForeArm', 'LeftHand', 0.04],
+  ['RightArm', 'RightForeArm', 0.045],
+  ['RightForeArm', 'RightHand', 0.04],
+  ['LeftUpLeg', 'LeftLeg', 0.07],
+  ['LeftLeg', 'LeftFoot', 0.05],
+  ['RightUpLeg', 'RightLeg', 0.07],
+  ['RightLeg', 'RightFoot', 0.05]
+];
+
+// 頭は縦長のカプセル（頭ボーン基準の下端・上端）
+const HEAD_VOLUME_OFFSETS: [[number, number, number], [number, number, number]] = [[0, 0.07, 0], [0, 0.13, 0]];
+const HEAD_RADIUS = 0.09;
+
+// 体に隠れている関節と、画像の外に出た関節の信頼度
+export const OCCLUDED_CONFIDENCE = 0.3;
+export const OUT_OF_FRAME_CONFIDENCE = 0;
+
+// 顔のキーポイントが見える向きの下限（真横を少し過ぎた耳や鼻までは見えるとみなす）
+const FACE_VISIBILITY_THRESHOLD = -0.2;
+
+// 正面投影（カメラ未指定）の場合の視点までの距離
+const ORTHOGRAPHIC_VIEW_DISTANCE = 10;
+
+function computeBodyVolumes(poseData: PoseData, boneOffsets?: BoneOffsets): BodyVolume[] {
+  const transforms = computeJointTransforms(poseData, boneOffsets);
+  const volumes = BODY_VOLUME_SEGMENTS.map(([startBone, endBone, radius]) => ({
+    start: transforms[startBone].position.clone(),
+    end: transforms[endBone].position.clone(),
+    radius
+  }));
+
+  const [headBottom, headTop] = HEAD_VOLUME_OFFSETS.map(offset => toWorld(transforms['Head'], offset));
+  volumes.push({ start: headBottom, end: headTop, radius: HEAD_RADIUS });
+
+  return volumes;
+}
+
+// 視点と関節の間に、その関節を含まない体の形状があれば遮蔽されているとみなす
+// 顔のキーポイントは頭の裏側を向いている場合も隠れているとみなす
+function isOccluded({ position: point, normal }: KeypointPosition, viewpoint: THREE.Vector3, volumes: BodyVolume[]): boolean {
+  if (normal && normal.dot(viewpoint.clone().sub(point).normalize()) < FACE_VISIBILITY_THRESHOLD) return true;
+
+  const distance = viewpoint.distanceTo(point);
+  const ray = new THREE.Ray(viewpoint, point.clone().sub(viewpoint).normalize());
+  const pointOnRay = new THREE.Vector3();
+  const pointOnSegment = new THREE.Vector3();
+  const segment = new THREE.Line3();
+
+  return volumes.some(({ start, end, radius }) => {
+    segment.set(start, end);
+    const closest = segment.closestPointToPoint(point, true, new THREE.Vector3());
+    if (closest.distanceTo(point) <= radius * 1.2) return false;
+
+    const distanceSq = ray.distanceSqToSegment(start, end, pointOnRay, pointOnSegment);
+    return distanceSq < radius * radius && viewpoint.distanceTo(pointOnRay) < distance;
+  });
+}
+
+// 2Dキーポイントに投影（カメラ未指定の場合は正面から全身が画像内に収まるように正規化）
+export function projectPoseToKeypoints(poseData: PoseData, camera?: CameraState, boneOffsets?: BoneOffsets): Keypoint[] {
+  return projectSceneToKeypoints([poseData], camera, [boneOffsets])[0];
+}
+
+// 複数キャラクターを同じ画像に投影し、他のキャラクターも含めて遮蔽を判定する
+// boneOffsets はキャラクター毎の体型（モデルを読み込んでいないキャラクターは undefined）
+export function projectSceneToKeypoints(
+  poses: PoseData[],
+  camera?: CameraState,
+  boneOffsets: Array<BoneOffsets | undefined> = []
+): Keypoint[][] {
+  const characterPoints = poses.map((pose, index) => computeKeypointPositions(pose, boneOffsets[index]));
+  const volumes = poses.flatMap((pose, index) => computeBodyVolumes(pose, boneOffsets[index]));
+
+  const projected = camera
+    ? characterPoints.map(points => projectWithCamera(points, camera))
+    : projectFront(characterPoints);
+
+  return projected.map((keypoints, characterIndex) => keypoints.map((keypoint, index) => {
+    const point = characterPoints[characterIndex][index];
+    const viewpoint = camera
+      ? new THREE.Vector3(...camera.position)
+      : point.position.clone().add(new THREE.Vector3(0, 0, ORTHOGRAPHIC_VIEW_DISTANCE));
+
+    const isInFrame = keypoint.x >= 0 && keypoint.x <= 1 && keypoint.y >= 0 && keypoint.y <= 1;
+    let confidence = 1;
+    if (!isInFrame) {
+      confidence = OUT_OF_FRAME_CONFIDENCE;
+    } else if (isOccluded(point, viewpoint, volumes)) {
+      confidence = OCCLUDED_CONFIDENCE;
+    }
+
+    return { ...keypoint, confidence };
+  }));
+}
+
+// 正面から見た正射影（立ち位置の関係を保つため全員で共通の範囲に正規化）
+function projectFront(characterPoints: KeypointPosition[][]): Keypoint[][] {
+  const box = new THREE.Box3();
+  characterPoints.flat().forEach(({ position }) => box.expandByPoint(position));
+  const size = box.getSize(new THREE.Vector3());
+  const center = box.getCenter(new THREE.Vector3());
+  const scale = (1 - PROJECTION_MARGIN * 2) / Math.max(size.x, size.y, 1e-6);
+
+  // カメラは+Z側から見るため、キャラクターの左（+X）は画像の右側になる
+  return characterPoints.map(points => points.map(({ name, position }) => ({
+    name,
+    x: 0.5 + (position.x - center.x) * scale,
+    y: 0.5 - (position.y - center.y) * scale
+  })));
+}
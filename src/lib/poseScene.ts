@@ -0,0 +1,132 @@
+// 複数キャラクターのポーズをまとめたシーン
+// クライアント（エディター）とサーバー（画像生成API）の両方から利用する
+
+import type { PoseData } from './humanoidRig';
+import { isCameraState, type CameraState } from './cameraPresets';
+import { migratePoseDocument, type Keypoint } from './poseDocument';
+
+export interface SceneCharacter {
+  id: string;
+  name: string;
+  pose: PoseData;
+  detectedKeypoints?: Keypoint[]; // 写真から検出した2Dキーポイント（画像生成にそのまま使える）
+  uncertainBones?: string[]; // 写真から推定できず初期姿勢のままのボーン（手動での調整が必要）
+}
+
+// エクスポート用のシーン形式（キャラクター毎にPoseDataを1つ持つ）
+export interface PoseScene {
+  format: typeof POSE_SCENE_FORMAT;
+  version: number;
+  characters: SceneCharacter[];
+  activeCharacterId?: string;
+  camera?: CameraState; // 生成用の2D投影に使うカメラ
+}
+
+export const POSE_SCENE_FORMAT = 'ai-pose-editor-scene';
+export const POSE_SCENE_VERSION = 1;
+export const MAX_SCENE_CHARACTERS = 4;
+
+// キャラクター毎の表示色（エディターのモデルと生成時のオーバーレイで共通）
+export const CHARACTER_COLORS = ['#4a90e2', '#e2574a', '#3fb56b', '#b05fd6'];
+
+// 新しいキャラクターを横に並べる間隔（メートル）
+export const CHARACTER_SPACING = 0.8;
+
+export function getCharacterColor(index: number): string {
+  return CHARACTER_COLORS[index % CHARACTER_COLORS.length];
+}
+
+export function createSceneCharacter(pose: PoseData, name: string): SceneCharacter {
+  return {
+    id: `character_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    pose
+  };
+}
+
+export function createPoseScene(
+  characters: SceneCharacter[],
+  activeCharacterId?: string,
+  camera?: CameraState
+): PoseScene {
+  return {
+    format: POSE_SCENE_FORMAT,
+    version: POSE_SCENE_VERSION,
+    characters,
+    activeCharacterId: activeCharacterId || characters[0]?.id,
+    ...(camera && { camera })
+  };
+}
+
+export function isPoseScene(data: unknown): data is PoseScene {
+  if (!data || typeof data !== 'object') return false;
+  const scene = data as Partial<PoseScene>;
+  return scene.format === POSE_SCENE_FORMAT && Array.isArray(scene.characters);
+}
+
+// 読み込んだシーンの各キャラクターのポーズを現在の形式に変換（旧形式のポーズを含むファイル用）
+export function migratePoseScene(scene: PoseScene): PoseScene {
+  return {
+    ...scene,
+    version: POSE_SCENE_VERSION,
+    characters: scene.characters.map(character => ({
+      ...character,
+      pose: migratePoseDocument(character.pose).bones
+    })),
+    camera: isCameraState(scene.camera) ? scene.camera : undefined
+  };
+}
+
+export function getActiveCharacter(scene: PoseScene): SceneCharacter | undefined {
+  return scene.characters.find(character => character.id === scene.activeCharacterId) || scene.characters[0];
+}
+
+// 指定キャラクターのポーズを差し替えた新しいシーンを作成
+export function updateCharacterPose(scene: PoseScene, characterId: string, pose: PoseData): PoseScene {
+  return {
+    ...scene,
+    characters: scene.characters.map(character =>
+      character.id === characterId ? { ...character, pose } : character
+    )
+  };
+}
+
+// 選択中のキャラクターのポーズを差し替える（シーンが無い場合は1人のシーンを作成）
+export function setActiveCharacterPose(scene: PoseScene | null, pose: PoseData): PoseScene {
+  if (!scene || scene.characters.length === 0) {
+    return createPoseScene([createSceneCharacter(pose, 'キャラクター1')]);
+  }
+
+  const active = getActiveCharacter(scene);
+  return updateCharacterPose(scene, active!.id, pose);
+}
+
+// キャラクターの床上の位置（Rootボーンの位置）を取得
+export function getCharacterPosition(pose: PoseData): [number, number, number] {
+  return pose['Root']?.position || [0, 0, 0];
+}
+
+export function setCharacterPosition(pose: PoseData, position: [number, number, number]): PoseData {
+  return {
+    ...pose,
+    Root: {
+      rotation: pose['Root']?.rotation || [0, 0, 0],
+      position
+    }
+  };
+}
+
+// 既存のキャラクターと重ならない横位置を探す
+export function findFreeCharacterPosition(scene: PoseScene): [number, number, number] {
+  const occupied = scene.characters.map(character => getCharacterPosition(character.pose)[0]);
+
+  for (let slot = 1; slot <= MAX_SCENE_CHARACTERS * 2; slot++) {
+    // 0.8, -0.8, 1.6, -1.6 ... の順に探す
+    const x = Math.ceil(slot / 2) * CHARACTER_SPACING * (slot % 2 === 1 ? 1 : -1);
+    if (occupied.every(value => Math.abs(value - x) >= CHARACTER_SPACING / 2)) {
+      return [x, 0, 0];
+    }
+  }
+
+  return [0, 0, 0];
+}
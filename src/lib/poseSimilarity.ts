@@ -0,0 +1,191 @@
+'use client';
+
+// 保存済みポーズ・テンプレート・ギャラリーから似ているポーズを探す
+// 回転はQuaternionの角度差（測地距離）で比べるため、同じ回転を表す別のEuler角も一致とみなす
+
+import * as THREE from 'three';
+import { isFingerBone } from './humanoidRig';
+import { mirrorPose, type PoseData, type PoseRotation, type SavedPose } from './poseInterpolation';
+import { migratePoseDocument, normalizeInterpolationPose, toInterpolationPose } from './poseDocument';
+import type { PoseTemplate } from './templates';
+import type { GeneratedImage } from './gallery';
+
+export type PoseIndexSource = 'saved' | 'template' | 'gallery';
+
+export const POSE_INDEX_SOURCE_LABELS: Record<PoseIndexSource, string> = {
+  saved: '保存済みポーズ',
+  template: 'テンプレート',
+  gallery: 'ギャラリー'
+};
+
+export interface PoseIndexEntry {
+  key: string; // 検索元の種類をまたいで一意なキー（テンプレートとギャラリーはIDが重なる場合がある）
+  id: string;
+  source: PoseIndexSource;
+  name: string;
+  pose: PoseData; // ボーン名を正規化した補間形式のポーズ
+  rotations: Map<string, THREE.Quaternion>;
+}
+
+export interface SimilarPose {
+  entry: PoseIndexEntry;
+  score: number; // 0-1（1が同じポーズ）
+  distance: number; // 重み付き平均の角度差（ラジアン）
+  mirrored: boolean; // 左右反転した方が近かった
+}
+
+export interface PoseDistanceOptions {
+  mirror?: boolean; // 左右反転したポーズとも比べ、近い方を使う
+  boneWeights?: Record<string, number>;
+}
+
+// ボーンの重要度（体の向きを決めるRootは比べない。指は形が似ていれば十分なため軽くする）
+const DEFAULT_BONE_WEIGHT = 1;
+const FINGER_BONE_WEIGHT = 0.1;
+export const BONE_IMPORTANCE: Record<string, number> = {
+  Root: 0,
+  Hips: 1.5,
+  Spine: 1.5,
+  Chest: 1.5,
+  Neck: 0.8,
+  Head: 1,
+  LeftShoulder: 0.5,
+  RightShoulder: 0.5,
+  LeftArm: 2,
+  RightArm: 2,
+  LeftForeArm: 1.5,
+  RightForeArm: 1.5,
+  LeftHand: 0.5,
+  RightHand: 0.5,
+  LeftUpLeg: 2,
+  RightUpLeg: 2,
+  LeftLeg: 1.5,
+  RightLeg: 1.5,
+  LeftFoot: 0.5,
+  RightFoot: 0.5
+};
+
+function getBoneWeight(boneName: string, boneWeights: Record<string, number>): number {
+  if (boneName in boneWeights) return boneWeights[boneName];
+  return isFingerBone(boneName) ? FINGER_BONE_WEIGHT : DEFAULT_BONE_WEIGHT;
+}
+
+function toQuaternion(rotation: PoseRotation): THREE.Quaternion {
+  return rotation.w !== undefined
+    ? new THREE.Quaternion(rotation.x, rotation.y, rotation.z, rotation.w).normalize()
+    : new THREE.Quaternion().setFromEuler(new THREE.Euler(rotation.x, rotation.y, rotation.z, rotation.order));
+}
+
+function toRotations(pose: PoseData): Map<string, THREE.Quaternion> {
+  return new Map(Object.entries(normalizeInterpolationPose(pose)).map(([boneName, rotation]) => [boneName, toQuaternion(rotation)]));
+}
+
+// 2つの回転の角度差（0-π）
+function geodesicAngle(a: THREE.Quaternion, b: THREE.Quaternion): number {
+  return 2 * Math.acos(Math.min(1, Math.abs(a.dot(b))));
+}
+
+// ボーン毎の角度差の重み付き平均（片方にしか無いボーンは初期姿勢として比べる）
+function rotationsDistance(
+  a: Map<string, THREE.Quaternion>,
+  b: Map<string, THREE.Quaternion>,
+  boneWeights: Record<string, number>
+): number {
+  const identity = new THREE.Quaternion();
+  let total = 0;
+  let totalWeight = 0;
+
+  new Set([...a.keys(), ...b.keys()]).forEach(boneName => {
+    const weight = getBoneWeight(boneName, boneWeights);
+    if (weight <= 0) return;
+    total += weight * geodesicAngle(a.get(boneName) || identity, b.get(boneName) || identity);
+    totalWeight += weight;
+  });
+
+  return totalWeight > 0 ? total / totalWeight : 0;
+}
+
+export function distanceToSimilarity(distance: number): number {
+  return Math.max(0, 1 - distance / Math.PI);
+}
+
+export function poseDistance(poseA: PoseData, poseB: PoseData, options: PoseDistanceOptions = {}): number {
+  const { mirror = false, boneWeights = BONE_IMPORTANCE } = options;
+  const rotationsA = toRotations(poseA);
+  const distance = rotationsDistance(rotationsA, toRotations(poseB), boneWeights);
+  return mirror
+    ? Math.min(distance, rotationsDistance(rotationsA, toRotations(mirrorPose(normalizeInterpolationPose(poseB))), boneWeights))
+    : distance;
+}
+
+// 2つのポーズの類似度（0-1）
+export function calculatePoseSimilarity(poseA: PoseData, poseB: PoseData, options: PoseDistanceOptions = {}): number {
+  return distanceToSimilarity(poseDistance(poseA, poseB, options));
+}
+
+export function getPoseIndexKey(source: PoseIndexSource, id: string): string {
+  return `${source}:${id}`;
+}
+
+function createEntry(id: string, source: PoseIndexSource, name: string, pose: PoseData): PoseIndexEntry | null {
+  const normalized = normalizeInterpolationPose(pose);
+  if (Object.keys(normalized).length === 0) return null;
+  return { key: getPoseIndexKey(source, id), id, source, name, pose: normalized, rotations: toRotations(normalized) };
+}
+
+// テンプレート・ギャラリーの pose_data からボーンの回転を取り出す（キーポイントだけのものは対象外）
+export function extractStoredPose(poseData: unknown): PoseData | null {
+  try {
+    const { bones } = migratePoseDocument(poseData);
+    return Object.keys(bones).length > 0 ? toInterpolationPose(bones) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 検索用のインデックスを作成
+ * 回転をQuaternionに変換しておき、検索の度に変換し直さないようにする
+ */
+export function buildPoseIndex(sources: {
+  savedPoses?: SavedPose[];
+  templates?: PoseTemplate[];
+  gallery?: GeneratedImage[];
+}): PoseIndexEntry[] {
+  const { savedPoses = [], templates = [], gallery = [] } = sources;
+  const entries: (PoseIndexEntry | null)[] = [
+    ...savedPoses.map(pose => createEntry(pose.id, 'saved', pose.name, pose.poseData)),
+    ...templates.map(template => {
+      const pose = extractStoredPose(template.pose_data);
+      return pose && template.id ? createEntry(template.id, 'template', template.name, pose) : null;
+    }),
+    ...gallery.map(image => {
+      const pose = extractStoredPose(image.pose_data);
+      return pose && image.id ? createEntry(image.id, 'gallery', image.prompt, pose) : null;
+    })
+  ];
+
+  return entries.filter((entry): entry is PoseIndexEntry => entry !== null);
+}
+
+// クエリに近い順に上位のポーズを返す
+export function findSimilarPoses(
+  index: PoseIndexEntry[],
+  query: PoseData,
+  options: PoseDistanceOptions & { limit?: number; excludeKeys?: string[] } = {}
+): SimilarPose[] {
+  const { limit = 5, excludeKeys = [], mirror = true, boneWeights = BONE_IMPORTANCE } = options;
+  const rotations = toRotations(query);
+  const mirroredRotations = mirror ? toRotations(mirrorPose(normalizeInterpolationPose(query))) : null;
+
+  return index
+    .filter(entry => !excludeKeys.includes(entry.key))
+    .map(entry => {
+      const direct = rotationsDistance(rotations, entry.rotations, boneWeights);
+      const flipped = mirroredRotations ? rotationsDistance(mirroredRotations, entry.rotations, boneWeights) : Infinity;
+      const distance = Math.min(direct, flipped);
+      return { entry, distance, score: distanceToSimilarity(distance), mirrored: flipped < direct };
+    })
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit);
+}
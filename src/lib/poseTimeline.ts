@@ -0,0 +1,180 @@
+'use client';
+
+import {
+  PoseInterpolator,
+  findKeyframeSegment,
+  type InterpolationMethod,
+  type InterpolationResult,
+  type PoseData,
+  type SavedPose
+} from './poseInterpolation';
+
+// 区間の補間方法（InterpolationMethod に加えて、ベジェ曲線のイージングを指定できる）
+export type TimelineEasing = InterpolationMethod | 'bezier';
+
+// CSSの cubic-bezier と同じ制御点 [x1, y1, x2, y2]
+export type BezierCurve = [number, number, number, number];
+
+export interface TimelineKeyframe {
+  id: string;
+  time: number; // 秒
+  name: string; // 元にした保存済みポーズの名前
+  poseData: PoseData; // 保存済みポーズを削除しても再生できるよう、ポーズ自体を保持する
+  easing: TimelineEasing; // 次のキーフレームまでの補間方法
+  bezier?: BezierCurve;
+}
+
+export interface PoseTimeline {
+  id: string;
+  name: string;
+  duration: number; // 秒
+  loop: boolean;
+  keyframes: TimelineKeyframe[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export const DEFAULT_TIMELINE_DURATION = 3;
+
+export const BEZIER_PRESETS: Record<string, { label: string; curve: BezierCurve }> = {
+  ease: { label: 'ease', curve: [0.25, 0.1, 0.25, 1] },
+  easeIn: { label: 'ease-in', curve: [0.42, 0, 1, 1] },
+  easeOut: { label: 'ease-out', curve: [0, 0, 0.58, 1] },
+  easeInOut: { label: 'ease-in-out', curve: [0.42, 0, 0.58, 1] },
+  overshoot: { label: 'オーバーシュート', curve: [0.34, 1.56, 0.64, 1] }
+};
+
+export const DEFAULT_BEZIER_CURVE = BEZIER_PRESETS.easeInOut.curve;
+
+// 3次ベジェのイージング関数（xからtをニュートン法と二分法で求め、yを返す）
+export function createBezierEasing([x1, y1, x2, y2]: BezierCurve): (x: number) => number {
+  const sample = (a: number, b: number, t: number) =>
+    3 * a * t * (1 - t) * (1 - t) + 3 * b * t * t * (1 - t) + t * t * t;
+  const slope = (a: number, b: number, t: number) =>
+    3 * a * (1 - t) * (1 - t) + 6 * (b - a) * t * (1 - t) + 3 * (1 - b) * t * t;
+
+  return (x: number) => {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+
+    let t = x;
+    for (let i = 0; i < 8; i++) {
+      const error = sample(x1, x2, t) - x;
+      const derivative = slope(x1, x2, t);
+      if (Math.abs(error) < 1e-6) return sample(y1, y2, t);
+      if (Math.abs(derivative) < 1e-6) break;
+      t -= error / derivative;
+    }
+
+    let low = 0;
+    let high = 1;
+    t = x;
+    for (let i = 0; i < 30; i++) {
+      const value = sample(x1, x2, t);
+      if (Math.abs(value - x) < 1e-6) break;
+      if (value < x) low = t;
+      else high = t;
+      t = (low + high) / 2;
+    }
+    return sample(y1, y2, t);
+  };
+}
+
+export function sortKeyframes(keyframes: TimelineKeyframe[]): TimelineKeyframe[] {
+  return [...keyframes].sort((a, b) => a.time - b.time);
+}
+
+export function createTimelineKeyframe(pose: SavedPose, time: number): TimelineKeyframe {
+  return {
+    id: `keyframe_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    time,
+    name: pose.name,
+    poseData: pose.poseData,
+    easing: 'linear'
+  };
+}
+
+/**
+ * タイムライン上の時刻のポーズを求める
+ * 最初のキーフレームより前は最初のポーズ、最後より後は最後のポーズのままにする
+ */
+export function evaluateTimeline(timeline: PoseTimeline, time: number): InterpolationResult | null {
+  const keyframes = sortKeyframes(timeline.keyframes);
+  if (keyframes.length === 0) return null;
+
+  if (keyframes.length === 1 || time <= keyframes[0].time) {
+    return { interpolatedPose: keyframes[0].poseData, isValid: true, warnings: [] };
+  }
+  const last = keyframes[keyframes.length - 1];
+  if (time >= last.time) {
+    return { interpolatedPose: last.poseData, isValid: true, warnings: [] };
+  }
+
+  const times = keyframes.map(keyframe => keyframe.time);
+  const { index, t } = findKeyframeSegment(times, time);
+  const from = keyframes[index];
+  const to = keyframes[index + 1];
+
+  if (from.easing === 'bezier') {
+    const eased = createBezierEasing(from.bezier || DEFAULT_BEZIER_CURVE)(t);
+    return new PoseInterpolator('slerp').interpolate(from.poseData, to.poseData, eased);
+  }
+  // squad / cubic の区間は前後のキーフレームも使って補間する
+  return new PoseInterpolator(from.easing).interpolateSequence(keyframes.map(keyframe => keyframe.poseData), time, times);
+}
+
+// タイムライン管理
+export class TimelineManager {
+  private static readonly STORAGE_KEY = 'ai-pose-editor-timelines';
+
+  static getTimelines(): PoseTimeline[] {
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading timelines:', error);
+      return [];
+    }
+  }
+
+  // タイムラインを保存（IDが同じものは上書き）
+  static saveTimeline(timeline: Omit<PoseTimeline, 'id' | 'createdAt'> & { id?: string }): PoseTimeline {
+    const timelines = this.getTimelines();
+    const existing = timeline.id ? timelines.find(item => item.id === timeline.id) : undefined;
+
+    const saved: PoseTimeline = existing
+      ? { ...existing, ...timeline, id: existing.id, updatedAt: new Date().toISOString() }
+      : {
+          ...timeline,
+          id: `timeline_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          createdAt: new Date().toISOString()
+        };
+
+    const updated = existing
+      ? timelines.map(item => (item.id === saved.id ? saved : item))
+      : [saved, ...timelines];
+
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(updated));
+    }
+
+    return saved;
+  }
+
+  static deleteTimeline(timelineId: string): boolean {
+    const timelines = this.getTimelines();
+    const updated = timelines.filter(timeline => timeline.id !== timelineId);
+
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(updated));
+    }
+
+    return timelines.length !== updated.length;
+  }
+
+  static getTimelineById(timelineId: string): PoseTimeline | undefined {
+    return this.getTimelines().find(timeline => timeline.id === timelineId);
+  }
+}
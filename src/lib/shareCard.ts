@@ -1,5 +1,8 @@
 'use client';
 
+import { migratePoseDocument, type Keypoint } from './poseDocument';
+import { drawOpenPose } from './openpose';
+
 export interface ShareCardOptions {
   generatedImage: string; // Base64 画像
   prompt: string;
@@ -57,46 +60,31 @@ export const SHARE_CARD_TEMPLATES: Record<string, ShareCardTemplate> = {
   }
 };
 
-// ポーズデータからサムネイル用のSVGを生成
+// ポーズデータからサムネイル画像を生成
 function generatePoseThumbnail(poseData: any, size: number = 80): string {
-  if (!poseData || !poseData.keypoints) {
-    return generateDefaultPoseSVG(size);
+  // 旧形式（{ keypoints } や Keypoint[]）のデータも PoseDocument に変換して扱う
+  let keypoints: Keypoint[] = [];
+  try {
+    keypoints = migratePoseDocument(poseData).keypoints || [];
+  } catch {
+    keypoints = [];
   }
 
-  const keypoints = Array.isArray(poseData.keypoints) ? poseData.keypoints : [];
   if (keypoints.length === 0) {
     return generateDefaultPoseSVG(size);
   }
 
-  // SVGの作成
-  const svg = `
-    <svg width="${size}" height="${size}" viewBox="0 0 100 100" xmlns="http://www.w3.org/2000/svg">
-      <defs>
-        <linearGradient id="poseGradient" x1="0%" y1="0%" x2="100%" y2="100%">
-          <stop offset="0%" style="stop-color:#3B82F6;stop-opacity:1" />
-          <stop offset="100%" style="stop-color:#8B5CF6;stop-opacity:1" />
-        </linearGradient>
-      </defs>
-      
-      <!-- 背景 -->
-      <rect width="100" height="100" fill="#F8FAFC" rx="8"/>
-      
-      <!-- 骨格線 -->
-      <g stroke="url(#poseGradient)" stroke-width="2" fill="none">
-        ${generateSkeletonLines(keypoints)}
-      </g>
-      
-      <!-- キーポイント -->
-      <g fill="url(#poseGradient)">
-        ${generateKeypointCircles(keypoints)}
-      </g>
-      
-      <!-- タイトル -->
-      <text x="50" y="15" text-anchor="middle" fill="#1F2937" font-family="Arial" font-size="8" font-weight="bold">POSE</text>
-    </svg>
-  `;
+  // OpenPose形式の骨格画像（画像生成APIと同じ描画処理）
+  const canvas = document.createElement('canvas');
+  canvas.width = size * 2;
+  canvas.height = size * 2;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return generateDefaultPoseSVG(size);
+  }
 
-  return `data:image/svg+xml;base64,${btoa(svg)}`;
+  drawOpenPose(ctx, [keypoints], { width: canvas.width, height: canvas.height });
+  return canvas.toDataURL('image/png');
 }
 
 function generateDefaultPoseSVG(size: number): string {
@@ -109,46 +97,6 @@ function generateDefaultPoseSVG(size: number): string {
   return `data:image/svg+xml;base64,${btoa(svg)}`;
 }
 
-function generateSkeletonLines(keypoints: any[]): string {
-  const connections = [
-    ['left_shoulder', 'right_shoulder'],
-    ['left_shoulder', 'left_elbow'],
-    ['left_elbow', 'left_wrist'],
-    ['right_shoulder', 'right_elbow'],
-    ['right_elbow', 'right_wrist'],
-    ['left_shoulder', 'left_hip'],
-    ['right_shoulder', 'right_hip'],
-    ['left_hip', 'right_hip'],
-    ['left_hip', 'left_knee'],
-    ['left_knee', 'left_ankle'],
-    ['right_hip', 'right_knee'],
-    ['right_knee', 'right_ankle'],
-  ];
-
-  return connections.map(([start, end]) => {
-    const startPoint = keypoints.find(p => p.name === start);
-    const endPoint = keypoints.find(p => p.name === end);
-    
-    if (startPoint && endPoint) {
-      const x1 = (startPoint.x || 0.5) * 100;
-      const y1 = (startPoint.y || 0.5) * 100;
-      const x2 = (endPoint.x || 0.5) * 100;
-      const y2 = (endPoint.y || 0.5) * 100;
-      
-      return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" />`;
-    }
-    return '';
-  }).join('');
-}
-
-function generateKeypointCircles(keypoints: any[]): string {
-  return keypoints.map((point, index) => {
-    const x = (point.x || 0.5) * 100;
-    const y = (point.y || 0.5) * 100;
-    return `<circle cx="${x}" cy="${y}" r="2" />`;
-  }).join('');
-}
-
 // プロンプトを適切な長さに切り詰める
 function truncatePrompt(prompt: string, maxLength: number = 80): string {
   if (prompt.length <= maxLength) return prompt;
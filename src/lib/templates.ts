@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { migratePoseDocument } from './poseDocument';
 
 // テンプレートのデータ型定義
 export interface PoseTemplate {
@@ -7,7 +8,7 @@ export interface PoseTemplate {
   name: string;
   description?: string;
   prompt: string;
-  pose_data: any; // JSONポーズデータ
+  pose_data: any; // JSONポーズデータ（読み込み時に PoseDocument へ変換）
   style?: string;
   background?: string;
   tags?: string[]; // タグで分類
@@ -92,6 +93,16 @@ const MOCK_TEMPLATES: PoseTemplate[] = [
 
 const TEMPLATES_STORAGE_KEY = 'ai-pose-editor-templates';
 
+// 旧形式のポーズデータ（{ keypoints } など）を PoseDocument に変換（変換できない場合はそのまま）
+function migrateTemplate(template: PoseTemplate): PoseTemplate {
+  try {
+    return { ...template, pose_data: migratePoseDocument(template.pose_data) };
+  } catch (error) {
+    console.error('Error migrating template pose data:', error);
+    return template;
+  }
+}
+
 // ゲストユーザーのテンプレートをlocalStorageから取得
 export function getGuestTemplates(): PoseTemplate[] {
   if (typeof window === 'undefined') {
@@ -102,11 +113,18 @@ export function getGuestTemplates(): PoseTemplate[] {
     const stored = localStorage.getItem(TEMPLATES_STORAGE_KEY);
     if (!stored) {
       // 初回はモックデータを設定
-      localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(MOCK_TEMPLATES));
-      return MOCK_TEMPLATES;
+      const templates = MOCK_TEMPLATES.map(migrateTemplate);
+      localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+      return templates;
     }
     
-    return JSON.parse(stored);
+    // 旧形式のテンプレートは変換して保存し直す
+    const templates = (JSON.parse(stored) as PoseTemplate[]).map(migrateTemplate);
+    const migrated = JSON.stringify(templates);
+    if (migrated !== stored) {
+      localStorage.setItem(TEMPLATES_STORAGE_KEY, migrated);
+    }
+    return templates;
   } catch (error) {
     console.error('Error reading templates from localStorage:', error);
     return MOCK_TEMPLATES;
@@ -178,7 +196,7 @@ export async function getUserTemplates(userId: string): Promise<PoseTemplate[]>
       return [];
     }
     
-    return data || [];
+    return (data || []).map(migrateTemplate);
   } catch (error) {
     console.error('Error in getUserTemplates:', error);
     return [];
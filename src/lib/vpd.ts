@@ -0,0 +1,333 @@
+// MikuMikuDanceのポーズファイル（.vpd）の読み書き
+// VPDは左手系（Zが奥）・Shift_JISのテキストで、回転はバインドポーズからのQuaternion
+// MMDのモデルは腕を斜め下に下ろした姿勢（Aポーズ）が基準のため、腕から先はTポーズとの差を補正する
+
+import * as THREE from 'three';
+import { HUMANOID_BONES, type PoseData } from './humanoidRig';
+
+export interface VpdBone {
+  name: string;
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+}
+
+export interface VpdFile {
+  modelName: string;
+  bones: VpdBone[];
+}
+
+export interface VpdConversionOptions {
+  armRestAngle?: number; // MMDモデルの腕の下がり角度（度）
+  scale?: number; // MMDの1単位あたりのメートル
+}
+
+const VPD_SIGNATURE = 'Vocaloid Pose Data file';
+
+export const DEFAULT_MMD_ARM_REST_ANGLE = 35;
+export const DEFAULT_MMD_SCALE = 0.08;
+
+// MMDの標準ボーン名（全角数字などはNFKCで正規化した名前で照合する）
+const ROOT_BONE = '全ての親';
+const CENTER_BONE = 'センター';
+const LOWER_BODY_BONE = '下半身';
+const UPPER_BODY_BONE = '上半身';
+
+// 体幹の回転をまとめて Hips に割り当てるボーン（親から順）
+const HIPS_SOURCE_BONES = ['センター', 'グルーブ', '腰', LOWER_BODY_BONE];
+
+// 1対1、または捩りボーン・D系ボーンを合成して対応付けるボーン（親から順に掛け合わせる）
+const SIDE_BONE_SOURCES: Record<string, (side: string) => string[]> = {
+  Shoulder: side => [`${side}肩`],
+  Arm: side => [`${side}腕`, `${side}腕捩`],
+  ForeArm: side => [`${side}ひじ`, `${side}手捩`],
+  Hand: side => [`${side}手首`],
+  UpLeg: side => [`${side}足`, `${side}足D`],
+  Leg: side => [`${side}ひざ`, `${side}ひざD`],
+  Foot: side => [`${side}足首`, `${side}足首D`]
+};
+
+// 指（親指は0〜2、他の指は1〜3）
+const FINGER_SOURCES: Record<string, [string, number]> = {
+  Thumb: ['親指', 0],
+  Index: ['人指', 1],
+  Middle: ['中指', 1],
+  Ring: ['薬指', 1],
+  Little: ['小指', 1]
+};
+
+const CENTER_BONE_SOURCES: Record<string, string[]> = {
+  Spine: [UPPER_BODY_BONE],
+  Chest: ['上半身2', '上半身3'],
+  Neck: ['首'],
+  Head: ['頭']
+};
+
+const SIDES: Array<['Left' | 'Right', string]> = [['Left', '左'], ['Right', '右']];
+
+// エディターのボーン名 → 対応するMMDのボーン名（親から順）
+function buildBoneSources(): Record<string, string[]> {
+  const sources: Record<string, string[]> = { ...CENTER_BONE_SOURCES, Hips: HIPS_SOURCE_BONES };
+
+  SIDES.forEach(([side, mmdSide]) => {
+    Object.entries(SIDE_BONE_SOURCES).forEach(([bone, getNames]) => {
+      sources[`${side}${bone}`] = getNames(mmdSide);
+    });
+    Object.entries(FINGER_SOURCES).forEach(([finger, [mmdFinger, firstIndex]]) => {
+      [1, 2, 3].forEach(segment => {
+        sources[`${side}Hand${finger}${segment}`] = [`${mmdSide}${mmdFinger}${firstIndex + segment - 1}`];
+      });
+    });
+  });
+
+  return sources;
+}
+
+const BONE_SOURCES = buildBoneSources();
+const MAPPED_MMD_BONES = new Set([ROOT_BONE, ...Object.values(BONE_SOURCES).flat()]);
+
+// Aポーズの補正が必要なボーン（腕から先）
+const ARM_CHAIN_PATTERN = /^(Left|Right)(Arm|ForeArm|Hand)/;
+
+const normalizeMmdBoneName = (name: string) => name.normalize('NFKC').trim();
+
+// MMD（左手系）⇔ three.js（右手系）の変換。Z軸を反転する
+function toThreeQuaternion([x, y, z, w]: VpdBone['quaternion']): THREE.Quaternion {
+  return new THREE.Quaternion(-x, -y, z, w).normalize();
+}
+
+function toMmdQuaternion(quaternion: THREE.Quaternion): VpdBone['quaternion'] {
+  return [-quaternion.x, -quaternion.y, quaternion.z, quaternion.w];
+}
+
+function toThreePosition([x, y, z]: VpdBone['position'], scale: number): THREE.Vector3 {
+  return new THREE.Vector3(x, y, -z).multiplyScalar(scale);
+}
+
+function toMmdPosition(position: THREE.Vector3, scale: number): VpdBone['position'] {
+  return [position.x / scale, position.y / scale, -position.z / scale];
+}
+
+// Tポーズの腕 → Aポーズの腕への回転（左腕は+X方向から下へ、右腕は-X方向から下へ）
+function getArmRestRotation(side: 'Left' | 'Right', angle: number): THREE.Quaternion {
+  const radians = THREE.MathUtils.degToRad(angle) * (side === 'Left' ? -1 : 1);
+  return new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), radians);
+}
+
+const toEuler = (quaternion: THREE.Quaternion): [number, number, number] => {
+  const euler = new THREE.Euler().setFromQuaternion(quaternion);
+  return [euler.x, euler.y, euler.z];
+};
+
+const toQuaternion = (rotation: [number, number, number] | undefined) =>
+  rotation ? new THREE.Quaternion().setFromEuler(new THREE.Euler(...rotation)) : new THREE.Quaternion();
+
+// VPDのテキストを解析（ボーン名以外の書式が崩れている場合はエラー）
+export function parseVpd(text: string): VpdFile {
+  // コメントを除いた行
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.replace(/\/\/.*$/, '').trim())
+    .filter(line => line.length > 0);
+
+  if (lines[0] !== VPD_SIGNATURE) {
+    throw new Error('VPDファイルではありません');
+  }
+
+  const modelName = (lines[1] || '').replace(/;$/, '').replace(/\.osm$/i, '');
+  const bones: VpdBone[] = [];
+  const parseNumbers = (line: string | undefined, count: number) => {
+    const values = (line || '').replace(/;$/, '').split(',').map(value => parseFloat(value));
+    if (values.length !== count || values.some(value => !Number.isFinite(value))) {
+      throw new Error('VPDファイルの形式が不正です');
+    }
+    return values;
+  };
+
+  for (let i = 3; i < lines.length; i++) {
+    const match = lines[i].match(/^Bone\d+\{(.+)$/);
+    if (!match) continue;
+
+    bones.push({
+      name: match[1].trim(),
+      position: parseNumbers(lines[i + 1], 3) as VpdBone['position'],
+      quaternion: parseNumbers(lines[i + 2], 4) as VpdBone['quaternion']
+    });
+    i += 3;
+  }
+
+  return { modelName, bones };
+}
+
+export function formatVpd({ modelName, bones }: VpdFile): string {
+  const format = (values: number[]) => values.map(value => value.toFixed(6)).join(',');
+
+  return [
+    VPD_SIGNATURE,
+    '',
+    `${modelName}.osm;\t\t// 親ファイル名`,
+    `${bones.length};\t\t\t\t// 総ポーズボーン数`,
+    '',
+    ...bones.flatMap(({ name, position, quaternion }, index) => [
+      `Bone${index}{${name}`,
+      `  ${format(position)};\t\t\t\t// trans x,y,z`,
+      `  ${format(quaternion)};\t\t// Quaternion x,y,z,w`,
+      '}',
+      ''
+    ])
+  ].join('\r\n');
+}
+
+/**
+ * VPDのポーズをエディターのポーズに変換
+ * 対応するボーンが無いMMDのボーン（IKや目など）は unmappedBones に返す
+ */
+export function vpdToPose(file: VpdFile, options: VpdConversionOptions = {}): { pose: PoseData; unmappedBones: string[] } {
+  const { armRestAngle = DEFAULT_MMD_ARM_REST_ANGLE, scale = DEFAULT_MMD_SCALE } = options;
+  const bones = new Map(file.bones.map(bone => [normalizeMmdBoneName(bone.name), bone]));
+  const rotationOf = (name: string) => {
+    const bone = bones.get(name);
+    return bone ? toThreeQuaternion(bone.quaternion) : new THREE.Quaternion();
+  };
+  const positionOf = (name: string) => {
+    const bone = bones.get(name);
+    return bone ? toThreePosition(bone.position, scale) : new THREE.Vector3();
+  };
+
+  const pose: PoseData = {};
+
+  // 全ての親の回転とセンターの移動をRootにまとめる
+  const rootRotation = rotationOf(ROOT_BONE);
+  const rootPosition = positionOf(ROOT_BONE).add(positionOf(CENTER_BONE).applyQuaternion(rootRotation));
+  pose.Root = { rotation: toEuler(rootRotation), position: rootPosition.toArray() as [number, number, number] };
+
+  HUMANOID_BONES.forEach(({ name }) => {
+    const sources = BONE_SOURCES[name];
+    if (!sources) return;
+
+    const rotation = sources.reduce((result, source) => result.multiply(rotationOf(source)), new THREE.Quaternion());
+
+    // 下半身の回転はHipsに含めるため、上半身側（Spine）では打ち消す
+    if (name === 'Spine') {
+      rotation.premultiply(rotationOf(LOWER_BODY_BONE).invert());
+    }
+
+    const armChain = name.match(ARM_CHAIN_PATTERN);
+    if (armChain) {
+      const rest = getArmRestRotation(armChain[1] as 'Left' | 'Right', armRestAngle);
+      // 腕はAポーズへの回転を足し、腕の子は腕の座標系の違いを打ち消す
+      if (armChain[2] !== 'Arm') {
+        rotation.premultiply(rest.clone().invert());
+      }
+      rotation.multiply(rest);
+    }
+
+    pose[name] = { rotation: toEuler(rotation) };
+  });
+
+  const unmappedBones = file.bones
+    .map(bone => bone.name)
+    .filter(name => !MAPPED_MMD_BONES.has(normalizeMmdBoneName(name)));
+
+  return { pose, unmappedBones };
+}
+
+/**
+ * エディターのポーズをVPDに変換
+ * 対応するMMDのボーンが無いボーンは unmappedBones に返す
+ */
+export function poseToVpd(
+  pose: PoseData,
+  modelName = 'pose',
+  options: VpdConversionOptions = {}
+): { file: VpdFile; unmappedBones: string[] } {
+  const { armRestAngle = DEFAULT_MMD_ARM_REST_ANGLE, scale = DEFAULT_MMD_SCALE } = options;
+  const bones: VpdBone[] = [];
+  const addBone = (name: string, rotation: THREE.Quaternion, position = new THREE.Vector3()) => {
+    bones.push({ name, position: toMmdPosition(position, scale), quaternion: toMmdQuaternion(rotation) });
+  };
+
+  // Rootの回転は全ての親、位置は全ての親から見たセンターの移動として書き出す
+  const rootRotation = toQuaternion(pose.Root?.rotation);
+  const rootPosition = new THREE.Vector3(...(pose.Root?.position || [0, 0, 0]));
+  addBone(ROOT_BONE, rootRotation);
+  addBone(CENTER_BONE, new THREE.Quaternion(), rootPosition.applyQuaternion(rootRotation.clone().invert()));
+
+  // 体幹はHipsを下半身、Hips×Spineを上半身に割り当てる
+  const hipsRotation = toQuaternion(pose.Hips?.rotation);
+  addBone(LOWER_BODY_BONE, hipsRotation);
+  addBone(UPPER_BODY_BONE, hipsRotation.clone().multiply(toQuaternion(pose.Spine?.rotation)));
+
+  HUMANOID_BONES.forEach(({ name }) => {
+    const sources = BONE_SOURCES[name];
+    if (!sources || name === 'Hips' || name === 'Spine') return;
+
+    const rotation = toQuaternion(pose[name]?.rotation);
+    const armChain = name.match(ARM_CHAIN_PATTERN);
+    if (armChain) {
+      const rest = getArmRestRotation(armChain[1] as 'Left' | 'Right', armRestAngle);
+      rotation.multiply(rest.clone().invert());
+      if (armChain[2] !== 'Arm') {
+        rotation.premultiply(rest);
+      }
+    }
+
+    // 捩りボーンやD系ボーンは使わず、先頭の標準ボーンに書き出す
+    addBone(sources[0], rotation);
+  });
+
+  const unmappedBones = Object.keys(pose).filter(name => name !== 'Root' && !BONE_SOURCES[name]);
+
+  return { file: { modelName, bones }, unmappedBones };
+}
+
+// VPDはShift_JISで保存されるため、読み込み時に文字コードを判定して変換
+export function decodeVpd(buffer: ArrayBuffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('shift_jis').decode(buffer);
+  }
+}
+
+// Shift_JISの2バイト文字の逆引き表（TextEncoderはUTF-8にしか対応していないため、デコーダーから作成する）
+let shiftJisTable: Map<string, [number, number]> | null = null;
+
+function getShiftJisTable(): Map<string, [number, number]> {
+  if (shiftJisTable) return shiftJisTable;
+
+  const decoder = new TextDecoder('shift_jis');
+  const table = new Map<string, [number, number]>();
+  for (let lead = 0x81; lead <= 0xfc; lead++) {
+    if (lead > 0x9f && lead < 0xe0) continue;
+    for (let trail = 0x40; trail <= 0xfc; trail++) {
+      if (trail === 0x7f) continue;
+      const char = decoder.decode(new Uint8Array([lead, trail]));
+      if (char.length === 1 && char !== '\uFFFD' && !table.has(char)) {
+        table.set(char, [lead, trail]);
+      }
+    }
+  }
+
+  shiftJisTable = table;
+  return table;
+}
+
+// VPDのテキストをShift_JISに変換（変換できない文字は「?」にする）
+export function encodeVpd(text: string): Uint8Array {
+  const table = getShiftJisTable();
+  const bytes: number[] = [];
+
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code >= 0xff61 && code <= 0xff9f) {
+      // 半角カナ
+      bytes.push(code - 0xfec0);
+    } else {
+      bytes.push(...(table.get(char) || [0x3f]));
+    }
+  }
+
+  return new Uint8Array(bytes);
+}